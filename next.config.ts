@@ -1,4 +1,8 @@
 import type { NextConfig } from "next";
+import createNextIntlPlugin from "next-intl/plugin";
+
+// Reads the language per request from src/i18n/request.ts
+const withNextIntl = createNextIntlPlugin();
 
 const nextConfig: NextConfig = {
   output: "standalone",
@@ -7,6 +11,33 @@ const nextConfig: NextConfig = {
     ignoreBuildErrors: true,
   },
   reactStrictMode: false,
+  async headers() {
+    return [
+      // The service worker is checked for updates on every visit, and may
+      // only come from this site
+      {
+        source: "/sw.js",
+        headers: [
+          { key: "Content-Type", value: "application/javascript; charset=utf-8" },
+          { key: "Cache-Control", value: "no-cache, no-store, must-revalidate" },
+          { key: "Content-Security-Policy", value: "default-src 'self'; script-src 'self'" },
+        ],
+      },
+      // Draft preview (see src/app/api/preview) is on while this cookie is
+      // set; the service worker keeps such pages out of the offline cache
+      {
+        source: "/:path*",
+        has: [{ type: "cookie", key: "__prerender_bypass" }],
+        headers: [{ key: "X-Draft-Preview", value: "1" }],
+      },
+    ];
+  },
+  async redirects() {
+    return [
+      // "Jannat ki sair" used to be served from the fiqh page
+      { source: "/fiqh", destination: "/jannat", permanent: true },
+    ];
+  },
 };
 
-export default nextConfig;
+export default withNextIntl(nextConfig);
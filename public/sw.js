@@ -0,0 +1,156 @@
+// Keeps the reader working offline. Every page listed by /api/offline is
+// cached with the scripts, styles and fonts it loads. Pages come from the
+// network when it answers in time and from the cache otherwise; whenever
+// the version at /api/offline changes, everything is cached again in the
+// background and the old cache dropped once the new one is complete.
+
+const CACHE_PREFIX = 'reader-'
+const MANIFEST_URL = '/api/offline'
+// Signed-in pages and the APIs always go to the network
+const UNCACHED = ['/api/', '/admin', '/auth']
+// Set on pages rendered in draft preview (see next.config.ts), which are
+// never cached
+const DRAFT_HEADER = 'X-Draft-Preview'
+// How long a page may take before the cached copy is shown instead
+const NETWORK_TIMEOUT = 4000
+// Pages fetched at a time while caching
+const CONCURRENCY = 4
+
+const cacheName = (version) => `${CACHE_PREFIX}${version}`
+
+const readerCaches = async () => (await caches.keys()).filter((name) => name.startsWith(CACHE_PREFIX))
+
+// Responses vary on Next's RSC headers, which a page request lacks
+const cached = (request) => caches.match(request, { ignoreVary: true })
+
+// Next's hashed chunks, styles and fonts loaded by a page
+const staticAssets = (html) => html.match(/\/_next\/static\/[^"'\s\\)]+/g) ?? []
+
+// Nor is a page the server says not to keep
+const cacheable = (response) =>
+  response.ok &&
+  !response.redirected &&
+  !response.headers.has(DRAFT_HEADER) &&
+  !/\b(?:private|no-store)\b/.test(response.headers.get('Cache-Control') ?? '')
+
+async function fetchOk(url) {
+  const response = await fetch(url, { cache: 'no-store' })
+  if (!response.ok) throw new Error(`${url}: ${response.status}`)
+  return response
+}
+
+async function cacheAll({ version, pages, assets }) {
+  const cache = await caches.open(cacheName(version))
+  const found = new Set(assets)
+
+  for (let index = 0; index < pages.length; index += CONCURRENCY) {
+    await Promise.all(
+      pages.slice(index, index + CONCURRENCY).map(async (page) => {
+        const response = await fetchOk(page)
+        // Tried again once preview is turned off
+        if (response.headers.has(DRAFT_HEADER)) throw new Error('draft preview is on')
+        staticAssets(await response.clone().text()).forEach((asset) => found.add(asset))
+        await cache.put(page, response)
+      }),
+    )
+  }
+
+  // Hashed files already cached by an earlier version are the same files
+  for (const asset of found) {
+    const response = asset.startsWith('/_next/static/') ? await cached(asset) : undefined
+    await cache.put(asset, response ?? (await fetchOk(asset)))
+  }
+
+  for (const name of await readerCaches()) {
+    if (name !== cacheName(version)) await caches.delete(name)
+  }
+}
+
+// Caches everything again if the version changed, or if an earlier update
+// stopped halfway and left more than one cache
+async function update() {
+  const manifest = await (await fetchOk(MANIFEST_URL)).json()
+  const names = await readerCaches()
+  if (names.length === 1 && names[0] === cacheName(manifest.version)) return
+  await cacheAll(manifest)
+}
+
+let updating = null
+
+function updateOnce() {
+  updating ??= update()
+    .catch((error) => console.warn('Offline cache not updated:', String(error)))
+    .finally(() => {
+      updating = null
+    })
+  return updating
+}
+
+// Network first, so a page is never older than it need be; the cached copy
+// if the network fails or is slow, while the network still refreshes it
+async function navigate(event) {
+  const { pathname } = new URL(event.request.url)
+  const network = fetch(event.request).then(async (response) => {
+    if (cacheable(response)) {
+      const [latest] = (await readerCaches()).slice(-1)
+      if (latest) await (await caches.open(latest)).put(pathname, response.clone())
+    }
+    return response
+  })
+  event.waitUntil(network.catch(() => {}))
+
+  const page = await cached(pathname)
+  if (!page) return network.catch(async () => (await cached('/')) ?? Response.error())
+  const timeout = new Promise((resolve) => setTimeout(() => resolve(page), NETWORK_TIMEOUT))
+  return Promise.race([network, timeout]).catch(() => page)
+}
+
+// Hashed, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const response = await cached(request)
+  if (response) return response
+  const fetched = await fetch(request)
+  const [latest] = (await readerCaches()).slice(-1)
+  if (fetched.ok && latest) await (await caches.open(latest)).put(request, fetched.clone())
+  return fetched
+}
+
+self.addEventListener('install', (event) => {
+  self.skipWaiting()
+  event.waitUntil(updateOnce())
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+// Pages cached while signed in go on signing out, once any update under
+// way has finished; the next visit caches them again
+async function clear() {
+  await updating
+  for (const name of await readerCaches()) await caches.delete(name)
+}
+
+// `update` is sent by the page on every visit and on coming back online,
+// `clear` on signing out
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'update') event.waitUntil(updateOnce())
+  if (event.data?.type === 'clear') event.waitUntil(clear())
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+  if (UNCACHED.some((prefix) => url.pathname.startsWith(prefix))) return
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request))
+  } else if (request.mode === 'navigate') {
+    event.respondWith(navigate(event))
+  } else {
+    // Icons, the manifest, and data for client-side navigation; offline,
+    // Next falls back to loading the page itself, which is cached
+    event.respondWith(fetch(request).catch(async () => (await cached(request)) ?? Response.error()))
+  }
+})
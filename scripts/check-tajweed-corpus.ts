@@ -0,0 +1,158 @@
+import { tajweedContent } from '@/data/tajweed-content'
+import { sectionLines } from '@/lib/content/blocks'
+import { getAyah } from '@/lib/quran/text'
+import { ayahExamples, queryExamples } from '@/lib/search'
+import {
+  ALPHABET,
+  ISTILA_LETTERS,
+  QALQALAH_LETTERS,
+  annotateMadd,
+  annotateNunSakinah,
+  annotateQalqalah,
+  annotateTafkheem,
+  waqfForm,
+  type Sifah,
+} from '@/lib/tajweed'
+import { ayahCorpus, searchCorpus, stopCorpus, type CorpusAyah } from '@/lib/tajweed/corpus'
+import { tafkheemFixtures } from '@/lib/tajweed/tafkheem-fixtures'
+
+// Runs the tajweed analyzers over the ayat corpus and the examples quoted in
+// the content, and reports every one whose annotations differ from the
+// expected ones; likewise the stop forms of the corpus words and the words
+// the examples search finds in the corpus ayat. Also checks the letter
+// chart's table against the letter groups the analyzers use.
+const analyzers: { name: string; expected: (ayah: CorpusAyah) => unknown; actual: (text: string) => unknown }[] = [
+  {
+    name: 'nun sakinah',
+    expected: (ayah) => ayah.nunSakinah,
+    actual: (text) =>
+      annotateNunSakinah(text).map(({ rule, trigger, mutlaq }) => ({
+        rule,
+        trigger,
+        ...(mutlaq && { mutlaq }),
+      })),
+  },
+  {
+    name: 'qalqalah',
+    expected: (ayah) => ayah.qalqalah,
+    actual: (text) => annotateQalqalah(text).map(({ letter, degree }) => ({ letter, degree })),
+  },
+  {
+    name: 'madd',
+    expected: (ayah) => ayah.madd,
+    actual: (text) => annotateMadd(text).map(({ type }) => type),
+  },
+]
+
+let failed = 0
+
+for (const ayah of ayahCorpus) {
+  const [surah, number] = ayah.ref.split(':').map(Number)
+  const text = ayah.text ?? getAyah(surah, number)?.text ?? ''
+  let matches = true
+
+  for (const analyzer of analyzers) {
+    const expected = analyzer.expected(ayah)
+    const actual = analyzer.actual(text)
+    if (JSON.stringify(actual) === JSON.stringify(expected)) continue
+
+    matches = false
+    console.error(`✗ ${ayah.ref} (${ayah.script}) ${analyzer.name}`)
+    console.error(`  expected ${JSON.stringify(expected)}`)
+    console.error(`  actual   ${JSON.stringify(actual)}`)
+  }
+
+  if (!matches) failed++
+}
+
+console.log(`${ayahCorpus.length - failed}/${ayahCorpus.length} corpus ayat match`)
+
+let failedStops = 0
+
+for (const stop of stopCorpus) {
+  const [surah, number] = stop.ref.split(':').map(Number)
+  const text = getAyah(surah, number)?.text ?? ''
+  const word = text.split(' ')[stop.word - 1] ?? ''
+  const actual = waqfForm(word, text)
+
+  if (actual.text !== stop.stopForm || actual.change !== stop.change) {
+    failedStops++
+    console.error(`✗ ${stop.ref} word ${stop.word} stop form`)
+    console.error(`  expected ${stop.stopForm} (${stop.change})`)
+    console.error(`  actual   ${actual.text} (${actual.change})`)
+  }
+}
+
+console.log(`${stopCorpus.length - failedStops}/${stopCorpus.length} corpus stops match`)
+
+let failedSearches = 0
+
+for (const search of searchCorpus) {
+  const [surah, number] = search.ref.split(':').map(Number)
+  const ayah = getAyah(surah, number)
+  // As GET /api/examples?source=quran searches the ayat
+  const actual = queryExamples(ayahExamples(ayah ? [ayah] : []), { rule: search.rule }, 50).map(({ word }) => word)
+
+  if (JSON.stringify(actual) !== JSON.stringify(search.words)) {
+    failedSearches++
+    console.error(`✗ ${search.ref} ${search.rule} search`)
+    console.error(`  expected ${JSON.stringify(search.words)}`)
+    console.error(`  actual   ${JSON.stringify(actual)}`)
+  }
+}
+
+console.log(`${searchCorpus.length - failedSearches}/${searchCorpus.length} corpus searches match`)
+
+let failedFixtures = 0
+const chapter = tajweedContent.chapters.find((chapter) => chapter.id === 'rules-and-regulations-of-tajweed')
+
+for (const fixture of tafkheemFixtures) {
+  const section = chapter?.sections.find((section) => section.id === fixture.section)
+  const quoted = !!section && sectionLines(section).some((line) => line.includes(fixture.text))
+  const actual = annotateTafkheem(fixture.text).map(({ letter, weight, reason }) => ({ letter, weight, reason }))
+
+  if (!quoted) {
+    failedFixtures++
+    console.error(`✗ ${fixture.text} is no longer quoted in section ${fixture.section}`)
+  } else if (JSON.stringify(actual) !== JSON.stringify(fixture.letters)) {
+    failedFixtures++
+    console.error(`✗ ${fixture.text} tafkheem`)
+    console.error(`  expected ${JSON.stringify(fixture.letters)}`)
+    console.error(`  actual   ${JSON.stringify(actual)}`)
+  }
+}
+
+console.log(`${tafkheemFixtures.length - failedFixtures}/${tafkheemFixtures.length} tafkheem examples match`)
+
+const alphabetIssues: string[] = []
+const PAIRS: Sifah[][] = [
+  ['hams', 'jahr'],
+  ['shiddah', 'tawassut', 'rikhawah'],
+  ['istila', 'istifal'],
+  ['itbaq', 'infitah'],
+  ['idhlaq', 'ismat'],
+]
+const GROUPS: [Sifah, string[]][] = [
+  ['istila', ISTILA_LETTERS],
+  ['qalqalah', QALQALAH_LETTERS],
+]
+
+if (new Set(ALPHABET.map(({ letter }) => letter)).size !== 29) alphabetIssues.push('the alphabet should have 29 distinct letters')
+for (const { letter, sifat } of ALPHABET) {
+  for (const pair of PAIRS) {
+    if (pair.filter((sifah) => sifat.includes(sifah)).length !== 1) alphabetIssues.push(`${letter} needs one of ${pair.join('/')}`)
+  }
+}
+for (const [sifah, letters] of GROUPS) {
+  const withSifah = ALPHABET.filter(({ sifat }) => sifat.includes(sifah)).map(({ letter }) => letter)
+  if ([...withSifah].sort().join() !== [...letters].sort().join()) {
+    alphabetIssues.push(`${sifah}: ${withSifah.join(' ')} in the alphabet, ${letters.join(' ')} in letters.ts`)
+  }
+}
+
+for (const issue of alphabetIssues) console.error(`✗ ${issue}`)
+console.log(`${ALPHABET.length} letters in the alphabet, ${alphabetIssues.length} issues`)
+
+if (failed > 0 || failedStops > 0 || failedSearches > 0 || failedFixtures > 0 || alphabetIssues.length > 0) {
+  process.exit(1)
+}
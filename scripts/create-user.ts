@@ -0,0 +1,25 @@
+import { db } from '@/lib/db'
+import { hashPassword } from '@/lib/auth/password'
+import { ROLES, isRole } from '@/lib/auth/roles'
+import { signUpSchema } from '@/lib/auth/credentials'
+
+// Creates an account, or resets its password and role, from the command
+// line; the way to make the first admin. Also available as
+// `bun run user:create <email> <password> [role] [name]`.
+const [email, password, role = 'admin', name = email] = process.argv.slice(2)
+
+const parsed = signUpSchema.safeParse({ name, email, password })
+if (!parsed.success || !isRole(role)) {
+  console.error(`usage: bun scripts/create-user.ts <email> <password> [${ROLES.join('|')}] [name]`)
+  for (const issue of parsed.error?.issues ?? []) console.error(`  - ${issue.path.join('.')}: ${issue.message}`)
+  process.exit(1)
+}
+
+const passwordHash = await hashPassword(parsed.data.password)
+const user = await db.user.upsert({
+  where: { email: parsed.data.email },
+  create: { email: parsed.data.email, name: parsed.data.name, passwordHash, role },
+  update: { passwordHash, role },
+})
+console.log(`✓ ${user.email} (${role})`)
+await db.$disconnect()
@@ -0,0 +1,24 @@
+import { db } from '@/lib/db'
+import { topicsListSource, topicSources } from '@/lib/content/sources'
+import { parseTopicContent, parseTopicsList } from '@/lib/content/validate'
+import { importTopic } from '@/lib/content/store'
+
+// Copies the topics in src/data into the database, which the app reads
+// content from once it has been imported. Topics already in the database
+// are skipped, since editors may have changed them there; `--replace`
+// overwrites them with the files, recording a revision for every section
+// that differs. Also available as `bun run content:import`.
+const replace = process.argv.includes('--replace')
+const topicsList = parseTopicsList(topicsListSource.file, topicsListSource.data, Object.keys(topicSources))
+
+for (const topic of topicsList.topics) {
+  const { file, data } = topicSources[topic.id]
+  if (!replace && (await db.topic.findUnique({ where: { id: topic.id }, select: { id: true } }))) {
+    console.log(`- ${topic.id}: already imported (--replace to overwrite it with ${file})`)
+    continue
+  }
+  await importTopic(topic, parseTopicContent(file, data), file)
+  console.log(`✓ ${topic.id} (${file})`)
+}
+
+await db.$disconnect()
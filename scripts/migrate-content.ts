@@ -0,0 +1,67 @@
+import { writeFile } from 'node:fs/promises'
+import { topicSources, unlistedSources } from '@/lib/content/sources'
+import { migrateTopicContent } from '@/lib/content/migrate'
+import type { TopicContent } from '@/lib/content/schema'
+import { parseTopicContent, validateTopicContent } from '@/lib/content/validate'
+
+// Converts the dash-separated strings in the topic data files into typed
+// content blocks (see src/lib/content/migrate.ts), listing the sections it
+// changes. Nothing is written without `--write`; afterwards, `bun run
+// content:import --replace` brings the database up to date. Also available
+// as `bun run content:migrate`. With `--check`, it fails when any section is
+// left to migrate, so a second run over migrated files is known to change
+// nothing (`bun run content:migrate:check`).
+const write = process.argv.includes('--write')
+const check = process.argv.includes('--check')
+const sources = [
+  ...Object.values(topicSources),
+  ...Object.entries(unlistedSources).map(([file, data]) => ({ file, data })),
+]
+
+// Short lists of strings, such as quiz options, on one line
+const INLINE_ARRAY = /\[\n\s*((?:"(?:[^"\\\n]|\\.)*",?\n\s*)+)\]/g
+const INLINE_WIDTH = 80
+
+// tajweed-content.ts is a module exporting the object, which is written
+// back as one
+function serialize(file: string, data: unknown): string {
+  const json = JSON.stringify(data, null, 2)
+  if (file.endsWith('.json')) return `${json}\n`
+  const object = json
+    .replace(/^(\s*)"([A-Za-z_$][\w$]*)":/gm, '$1$2:')
+    .replace(INLINE_ARRAY, (array, items: string) => {
+      const inline = `[${items.trim().split(/,\n\s*/).join(', ')}]`
+      return inline.length <= INLINE_WIDTH ? inline : array
+    })
+  return `import type { TopicContent } from "@/lib/content/schema";\n\nexport const tajweedContent = ${object} satisfies TopicContent;\n`
+}
+
+let failed = false
+let pending = false
+
+for (const { file, data } of sources) {
+  // The raw data rather than what parsing returns, so the files keep their
+  // key order
+  parseTopicContent(file, data)
+  const { content, report } = migrateTopicContent(data as TopicContent)
+  console.log(`${report.migrated.length > 0 ? '✓' : '-'} ${file}`)
+  for (const path of report.migrated) console.log(`  ${path}`)
+  for (const path of report.translated) console.log(`  ${path}: skipped, its content is translated entry for entry`)
+
+  const issues = validateTopicContent(content)
+  if (issues.length > 0) {
+    failed = true
+    for (const issue of issues) console.error(`  - ${issue}`)
+    continue
+  }
+  if (report.migrated.length > 0) pending = true
+  if (write && report.migrated.length > 0) await writeFile(file, serialize(file, content))
+}
+
+if (check && pending) {
+  console.error('\nSome sections are left to migrate; run `bun run content:migrate --write`.')
+  failed = true
+} else if (!write && !check) {
+  console.log('\nNothing written; run again with --write to save these changes.')
+}
+if (failed) process.exit(1)
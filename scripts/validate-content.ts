@@ -0,0 +1,30 @@
+import { topicsListSource, topicSources, unlistedSources } from '@/lib/content/sources'
+import { validateTopicContent, validateTopicsList } from '@/lib/content/validate'
+
+// Validates the topics list and every topic data file, reporting all
+// problems at once. Runs before `next build`; also available as
+// `bun run content:validate`.
+const reports: [string, string[]][] = [
+  [topicsListSource.file, validateTopicsList(topicsListSource.data, Object.keys(topicSources))],
+  ...Object.values(topicSources).map(({ file, data }): [string, string[]] => [file, validateTopicContent(data)]),
+  ...Object.entries(unlistedSources).map(([file, data]): [string, string[]] => [file, validateTopicContent(data)]),
+]
+
+let failed = false
+
+for (const [source, issues] of reports) {
+  if (issues.length === 0) {
+    console.log(`✓ ${source}`)
+    continue
+  }
+
+  failed = true
+  console.error(`✗ ${source}`)
+  for (const issue of issues) {
+    console.error(`  - ${issue}`)
+  }
+}
+
+if (failed) {
+  process.exit(1)
+}
@@ -0,0 +1,33 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { getChapter, getSection, getTopic } from '@/lib/content'
+import { sectionLines } from '@/lib/content/blocks'
+
+type SectionPageProps = {
+  params: Promise<{ topic: string; chapter: string; section: string }>
+}
+
+// Drafts too, so reviewers can preview them; learners get a 404 until they
+// are published. Sections added since the build are rendered on request.
+export async function generateStaticParams({ params }: { params: { topic: string; chapter: string } }) {
+  return ((await getChapter(params.topic, params.chapter, true))?.sections ?? []).map((section) => ({ section: section.id }))
+}
+
+export async function generateMetadata({ params }: SectionPageProps): Promise<Metadata> {
+  const { topic: topicId, chapter: chapterId, section: sectionId } = await params
+  const [topic, section] = await Promise.all([getTopic(topicId), getSection(topicId, chapterId, sectionId)])
+  if (!topic || !section) return {}
+
+  return {
+    title: `${section.title} - ${section.subtitle} | ${topic.title}`,
+    description: sectionLines(section)[0] ?? topic.description,
+  }
+}
+
+// Rendered by the reader in the topic layout
+export default async function SectionPage({ params }: SectionPageProps) {
+  const { topic, chapter, section } = await params
+  if (!(await getSection(topic, chapter, section))) notFound()
+
+  return null
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { getChapter, getTopic, getTopicContent } from '@/lib/content'
+
+type ChapterPageProps = {
+  params: Promise<{ topic: string; chapter: string }>
+}
+
+// Drafts too, so reviewers can preview them; learners get a 404 until they
+// are published. Chapters added since the build are rendered on request.
+export async function generateStaticParams({ params }: { params: { topic: string } }) {
+  return ((await getTopicContent(params.topic, true))?.chapters ?? []).map((chapter) => ({ chapter: chapter.id }))
+}
+
+export async function generateMetadata({ params }: ChapterPageProps): Promise<Metadata> {
+  const { topic: topicId, chapter: chapterId } = await params
+  const [topic, chapter] = await Promise.all([getTopic(topicId), getChapter(topicId, chapterId)])
+  if (!topic || !chapter) return {}
+
+  return {
+    title: `${chapter.title} - ${chapter.subtitle} | ${topic.title}`,
+    description: topic.description,
+  }
+}
+
+// Rendered by the reader in the topic layout
+export default async function ChapterPage({ params }: ChapterPageProps) {
+  const { topic, chapter } = await params
+  if (!(await getChapter(topic, chapter))) notFound()
+
+  return null
+}
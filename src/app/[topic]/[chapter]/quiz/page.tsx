@@ -0,0 +1,55 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { getLocale } from 'next-intl/server'
+import { ChapterQuiz } from '@/components/chapter-quiz'
+import { getChapter, getTopic, getTopicContent } from '@/lib/content'
+import { localizeContent } from '@/lib/content/localize'
+import { getAyat, versesCitedIn } from '@/lib/quran'
+import { buildChapterQuiz, hasQuiz } from '@/lib/quiz'
+import { ayahExamples, contentExamples } from '@/lib/search'
+
+type QuizPageProps = {
+  params: Promise<{ topic: string; chapter: string }>
+}
+
+// Surahs of the 30th juz (78–114), familiar to most students, for generated
+// questions beyond the examples in the lessons
+const JUZ_AMMA = Array.from({ length: 37 }, (_, index) => 78 + index)
+
+export async function generateMetadata({ params }: QuizPageProps): Promise<Metadata> {
+  const { topic: topicId, chapter: chapterId } = await params
+  const [topic, chapter] = await Promise.all([getTopic(topicId), getChapter(topicId, chapterId)])
+  if (!topic || !chapter) return {}
+
+  return {
+    title: `کوئز: ${chapter.title} - ${chapter.subtitle} | ${topic.title}`,
+    description: topic.description,
+  }
+}
+
+// Shown by the reader in place of the chapter, like the other pages below
+// the topic layout
+export default async function QuizPage({ params }: QuizPageProps) {
+  const { topic: topicId, chapter: chapterId } = await params
+  const [topic, stored, locale] = await Promise.all([getTopic(topicId), getTopicContent(topicId), getLocale()])
+  const content = stored && localizeContent(stored, locale)
+  const chapter = content?.chapters.find(({ id }) => id === chapterId)
+  if (!topic || !content || !chapter || !hasQuiz(chapter)) notFound()
+
+  const questions = buildChapterQuiz(
+    topic,
+    chapter,
+    contentExamples(topic, content, versesCitedIn(content)),
+    ayahExamples(JUZ_AMMA.flatMap((surah) => getAyat(surah))),
+  )
+
+  return (
+    <ChapterQuiz
+      topicId={topic.id}
+      chapterId={chapter.id}
+      title={chapter.title}
+      questions={questions}
+      chapterHref={`${topic.route}/${chapter.id}`}
+    />
+  )
+}
@@ -0,0 +1,44 @@
+import { draftMode } from 'next/headers'
+import { notFound } from 'next/navigation'
+import { getLocale } from 'next-intl/server'
+import { PreviewBanner } from '@/components/preview-banner'
+import { TopicReader } from '@/components/topic-reader'
+import { getTopic, getTopicContent } from '@/lib/content'
+import { localizeContent } from '@/lib/content/localize'
+import { versesCitedIn } from '@/lib/quran'
+import { hasQuiz } from '@/lib/quiz'
+
+type TopicLayoutProps = {
+  children: React.ReactNode
+  params: Promise<{ topic: string }>
+}
+
+// The reader lives in the layout so it stays mounted (sidebar state,
+// transitions) while the chapter and section pages below change the URL.
+// Only the quiz page renders content of its own, which the reader places.
+export default async function TopicLayout({ children, params }: TopicLayoutProps) {
+  const { topic: topicId } = await params
+  const [topic, stored, draft, locale] = await Promise.all([
+    getTopic(topicId),
+    getTopicContent(topicId),
+    draftMode(),
+    getLocale(),
+  ])
+  if (!topic || !stored) notFound()
+  const content = localizeContent(stored, locale)
+
+  return (
+    <>
+      {draft.isEnabled && <PreviewBanner path={topic.route} />}
+      <TopicReader
+        topicId={topic.id}
+        content={content}
+        basePath={topic.route}
+        verses={versesCitedIn(content)}
+        quizChapters={content.chapters.filter(hasQuiz).map((chapter) => chapter.id)}
+      >
+        {children}
+      </TopicReader>
+    </>
+  )
+}
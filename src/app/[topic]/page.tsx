@@ -0,0 +1,26 @@
+import type { Metadata } from 'next'
+import { getTopic, getTopics } from '@/lib/content'
+
+type TopicPageProps = {
+  params: Promise<{ topic: string }>
+}
+
+// Topics known at build time are prerendered; the layout 404s unknown ones
+export async function generateStaticParams() {
+  return (await getTopics()).map((topic) => ({ topic: topic.id }))
+}
+
+export async function generateMetadata({ params }: TopicPageProps): Promise<Metadata> {
+  const topic = await getTopic((await params).topic)
+  if (!topic) return {}
+
+  return {
+    title: `${topic.title} - ${topic.subtitle}`,
+    description: topic.description,
+  }
+}
+
+// Rendered by the reader in the layout
+export default function TopicPage() {
+  return null
+}
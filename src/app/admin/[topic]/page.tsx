@@ -0,0 +1,41 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { ContentEditor } from '@/components/content-editor'
+import { requirePageUser } from '@/lib/auth/session'
+import { getTopic, getTopicContent } from '@/lib/content'
+import { getPendingSections, getSectionVersions } from '@/lib/content/store'
+import { versesCitedIn } from '@/lib/quran'
+
+type AdminTopicPageProps = {
+  params: Promise<{ topic: string }>
+}
+
+export async function generateMetadata({ params }: AdminTopicPageProps): Promise<Metadata> {
+  const topic = await getTopic((await params).topic)
+  return topic ? { title: `${topic.title} - مواد کی تدوین` } : {}
+}
+
+export default async function AdminTopicPage({ params }: AdminTopicPageProps) {
+  const { topic: topicId } = await params
+  await requirePageUser('editor', `/admin/${topicId}`)
+
+  // Read before the content, so a save made in between fails this editor's
+  // save rather than being overwritten by it
+  const versions = await getSectionVersions(topicId)
+  const [topic, content, pending] = await Promise.all([
+    getTopic(topicId),
+    getTopicContent(topicId, true),
+    getPendingSections(topicId),
+  ])
+  if (!topic || !content) notFound()
+
+  return (
+    <ContentEditor
+      topic={topic}
+      content={content}
+      versions={versions}
+      verses={versesCitedIn(content)}
+      pending={pending}
+    />
+  )
+}
@@ -0,0 +1,66 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { PencilRuler } from 'lucide-react'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { iconMap } from '@/components/topic-icons'
+import { UserMenu } from '@/components/user-menu'
+import { requirePageUser } from '@/lib/auth/session'
+import { getTopicContents } from '@/lib/content'
+
+export const metadata: Metadata = {
+  title: 'مواد کی تدوین | تجوید القرآن',
+}
+
+// Topics an editor can open in the content editor
+export default async function AdminPage() {
+  await requirePageUser('editor', '/admin')
+  const topics = await getTopicContents(true)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 dark:from-green-950 dark:via-emerald-950 dark:to-teal-950">
+      <header className="sticky top-0 z-50 border-b bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-green-600 to-emerald-700 dark:from-green-500 dark:to-emerald-600 flex items-center justify-center shadow-lg">
+              <PencilRuler className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-green-900 dark:text-green-100">مواد کی تدوین</h1>
+              <p className="text-xs text-green-700 dark:text-green-300 hidden sm:block">Content Editor</p>
+            </div>
+          </div>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 grid gap-4 md:grid-cols-2 xl:grid-cols-3" dir="rtl">
+        {topics.map(({ topic, content }) => {
+          const Icon = iconMap[topic.icon]
+          const sections = content.chapters.reduce((count, chapter) => count + chapter.sections.length, 0)
+          return (
+            <Link key={topic.id} href={`/admin/${topic.id}`}>
+              <Card className="h-full border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 transition-all duration-300 hover:shadow-xl hover:border-green-400 dark:hover:border-green-600">
+                <CardHeader>
+                  <div className="flex items-start gap-4">
+                    <div className="p-3 rounded-xl bg-gradient-to-br from-green-100 to-emerald-200 dark:from-green-900/50 dark:to-emerald-900/50">
+                      <Icon className="h-6 w-6 text-green-700 dark:text-green-300" />
+                    </div>
+                    <div className="flex-1 space-y-2">
+                      <CardTitle className="text-xl font-bold text-green-900 dark:text-green-100">{topic.title}</CardTitle>
+                      <CardDescription className="text-green-700 dark:text-green-300">{topic.subtitle}</CardDescription>
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="secondary">{content.chapters.length} ابواب</Badge>
+                        <Badge variant="secondary">{sections} حصے</Badge>
+                      </div>
+                    </div>
+                  </div>
+                </CardHeader>
+              </Card>
+            </Link>
+          )
+        })}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { SectionReviewer } from '@/components/section-review'
+import { requirePageUser } from '@/lib/auth/session'
+import { getSectionReview } from '@/lib/content/store'
+import { reviewPath } from '@/lib/content/workflow'
+
+type SectionReviewPageProps = {
+  params: Promise<{ topic: string; section: string }>
+}
+
+export const metadata: Metadata = {
+  title: 'نظرِ ثانی | تجوید القرآن',
+}
+
+export default async function SectionReviewPage({ params }: SectionReviewPageProps) {
+  const { topic: topicId, section: sectionId } = await params
+  const user = await requirePageUser('teacher', reviewPath(topicId, sectionId))
+
+  const review = await getSectionReview(topicId, sectionId)
+  if (!review) notFound()
+
+  return <SectionReviewer review={review} role={user.role} userId={user.id} />
+}
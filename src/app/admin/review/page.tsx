@@ -0,0 +1,92 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { ClipboardList, MessageSquare } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { SectionStatusBadge } from '@/components/section-review'
+import { UserMenu } from '@/components/user-menu'
+import { requirePageUser } from '@/lib/auth/session'
+import { getPendingSections } from '@/lib/content/store'
+import { reviewPath, type PendingSection } from '@/lib/content/workflow'
+
+export const metadata: Metadata = {
+  title: 'نظرِ ثانی | تجوید القرآن',
+}
+
+const GROUPS: { status: PendingSection['status']; title: string; description: string }[] = [
+  { status: 'review', title: 'نظرِ ثانی کے منتظر', description: 'منظوری کے بعد یہ متن طلبہ کو نظر آئے گا' },
+  { status: 'draft', title: 'مسودے', description: 'مدیر ابھی ان پر کام کر رہے ہیں' },
+]
+
+// Sections whose latest revision is not published yet: those sent for
+// review first, then drafts
+export default async function ReviewQueuePage() {
+  await requirePageUser('teacher', '/admin/review')
+  const pending = await getPendingSections()
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 dark:from-green-950 dark:via-emerald-950 dark:to-teal-950">
+      <header className="sticky top-0 z-50 border-b bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-green-600 to-emerald-700 dark:from-green-500 dark:to-emerald-600 flex items-center justify-center shadow-lg">
+              <ClipboardList className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-green-900 dark:text-green-100">نظرِ ثانی</h1>
+              <p className="text-xs text-green-700 dark:text-green-300 hidden sm:block">Review Queue</p>
+            </div>
+          </div>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-4xl px-4 py-6 space-y-4" dir="rtl">
+        {GROUPS.map(({ status, title, description }) => {
+          const sections = pending.filter((section) => section.status === status)
+          return (
+            <Card
+              key={status}
+              className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90"
+            >
+              <CardHeader>
+                <CardTitle className="text-xl font-bold text-green-900 dark:text-green-100">
+                  {title} ({sections.length})
+                </CardTitle>
+                <CardDescription className="text-green-700 dark:text-green-300">{description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {sections.length === 0 && <p className="text-sm text-muted-foreground">کوئی حصہ نہیں۔</p>}
+                {sections.map((section) => (
+                  <Link
+                    key={`${section.topicId}/${section.sectionId}`}
+                    href={reviewPath(section.topicId, section.sectionId)}
+                    className="flex flex-wrap items-center justify-between gap-2 rounded-lg p-3 transition-colors hover:bg-green-50 dark:hover:bg-green-950/40"
+                  >
+                    <div>
+                      <p className="font-semibold text-green-900 dark:text-green-100">{section.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {section.topicTitle} · ورژن {section.version} ·{' '}
+                        <span dir="ltr">{format(new Date(section.updatedAt), 'yyyy-MM-dd')}</span>
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {section.openComments > 0 && (
+                        <Badge variant="outline">
+                          <MessageSquare className="h-3 w-3 me-1" />
+                          {section.openComments}
+                        </Badge>
+                      )}
+                      <SectionStatusBadge status={section.status} />
+                    </div>
+                  </Link>
+                ))}
+              </CardContent>
+            </Card>
+          )
+        })}
+      </main>
+    </div>
+  )
+}
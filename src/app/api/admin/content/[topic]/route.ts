@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { badRequest, notFound } from '@/lib/api'
+import { hasRole } from '@/lib/auth/roles'
+import { requireUser } from '@/lib/auth/session'
+import { ContentValidationError, getTopic, getTopicContent, parseTopicContent } from '@/lib/content'
+import { saveTopicContent } from '@/lib/content/store'
+
+type ContentRouteContext = {
+  params: Promise<{ topic: string }>
+}
+
+const versionsSchema = z.object({
+  // The version of each section the editor loaded, so a change saved
+  // meanwhile is not overwritten unseen
+  versions: z.record(z.string(), z.number().int().min(1)),
+})
+
+// PUT /api/admin/content/[topic]  { meta, chapters, versions }  (editor)
+//
+// Replaces a topic's content with the body once it validates; a 400 lists
+// the same issues `bun run content:validate` would, and a 409 the sections
+// saved by someone else since `versions` were loaded. Every section whose
+// text changed gets a draft revision, shown to learners once a reviewer
+// publishes it. Only section text is reviewed: the topic's details,
+// chapters, the order of sections and deletions apply at once, so deleting
+// a published section is left to admins (403 for anyone else). Answers with
+// the content as saved, i.e. trimmed, and the sections' new versions.
+export async function PUT(request: Request, { params }: ContentRouteContext) {
+  const user = await requireUser('editor')
+  if (user instanceof Response) return user
+
+  const { topic: topicId } = await params
+  if (!(await getTopic(topicId))) return notFound(`unknown topic "${topicId}"`)
+
+  const body = await request.json().catch(() => undefined)
+  const parsed = versionsSchema.safeParse(body)
+  if (!parsed.success) return badRequest(parsed.error, 'body')
+
+  let content
+  try {
+    content = parseTopicContent(topicId, body)
+  } catch (error) {
+    if (error instanceof ContentValidationError) return NextResponse.json({ error: error.issues }, { status: 400 })
+    throw error
+  }
+
+  const kept = new Set(content.chapters.flatMap((chapter) => chapter.sections.map((section) => section.id)))
+  const removed = ((await getTopicContent(topicId, false))?.chapters ?? [])
+    .flatMap((chapter) => chapter.sections.map((section) => section.id))
+    .filter((id) => !kept.has(id))
+  if (removed.length > 0 && !hasRole(user.role, 'admin')) {
+    return NextResponse.json(
+      { error: [`published sections can only be deleted by an admin: ${removed.join(', ')}`] },
+      { status: 403 },
+    )
+  }
+
+  const outcome = await saveTopicContent(topicId, content, { authorId: user.id }, parsed.data.versions)
+  if (!outcome) {
+    return NextResponse.json(
+      { error: [`topic "${topicId}" is not in the database yet; run \`bun run content:import\``] },
+      { status: 409 },
+    )
+  }
+  if (!outcome.saved) {
+    return NextResponse.json(
+      { error: [`changed since you loaded them: ${outcome.changed.join(', ')}; reload the page`] },
+      { status: 409 },
+    )
+  }
+  // Pages were rendered from the old content (or its old order)
+  revalidatePath('/', 'layout')
+  return NextResponse.json({ content, versions: outcome.versions })
+}
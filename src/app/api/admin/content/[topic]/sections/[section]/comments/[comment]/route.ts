@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { badRequest, notFound } from '@/lib/api'
+import { requireUser } from '@/lib/auth/session'
+import { getSectionReview, setReviewCommentResolved } from '@/lib/content/store'
+
+type CommentRouteContext = {
+  params: Promise<{ topic: string; section: string; comment: string }>
+}
+
+const bodySchema = z.object({
+  resolved: z.boolean(),
+})
+
+// PATCH /api/admin/content/tajweed/sections/nun-ahkam/comments/[comment]  { "resolved": true }  (teacher)
+//
+// Marks a comment as dealt with, or reopens it. Answers with the section's
+// review.
+export async function PATCH(request: Request, { params }: CommentRouteContext) {
+  const user = await requireUser('teacher')
+  if (user instanceof Response) return user
+
+  const { topic: topicId, section: sectionId, comment: commentId } = await params
+  const parsed = bodySchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) return badRequest(parsed.error, 'body')
+
+  if (!(await setReviewCommentResolved(topicId, sectionId, commentId, parsed.data.resolved))) {
+    return notFound(`no comment "${commentId}" on section "${sectionId}" in topic "${topicId}"`)
+  }
+  return NextResponse.json(await getSectionReview(topicId, sectionId))
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { badRequest, notFound } from '@/lib/api'
+import { requireUser } from '@/lib/auth/session'
+import { addReviewComment, getSectionReview } from '@/lib/content/store'
+
+type CommentsRouteContext = {
+  params: Promise<{ topic: string; section: string }>
+}
+
+const bodySchema = z.object({
+  // Index into the section's content; null for the whole section
+  paragraph: z.number().int().min(0).nullable(),
+  body: z.string().trim().min(1, 'must not be empty').max(2000),
+})
+
+// POST /api/admin/content/tajweed/sections/nun-ahkam/comments  { "paragraph": 2, "body": "..." }  (teacher)
+//
+// Comments on a paragraph of the section's latest revision, or on the whole
+// section. Answers with the section's review.
+export async function POST(request: Request, { params }: CommentsRouteContext) {
+  const user = await requireUser('teacher')
+  if (user instanceof Response) return user
+
+  const { topic: topicId, section: sectionId } = await params
+  const parsed = bodySchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) return badRequest(parsed.error, 'body')
+
+  const review = await getSectionReview(topicId, sectionId)
+  if (!review) return notFound(`unknown section "${sectionId}" in topic "${topicId}"`)
+
+  const { paragraph, body } = parsed.data
+  if (paragraph !== null && paragraph >= review.current.content.length) {
+    return NextResponse.json(
+      { error: [`paragraph: version ${review.version} has ${review.current.content.length} paragraphs`] },
+      { status: 400 },
+    )
+  }
+
+  await addReviewComment(topicId, sectionId, { version: review.version, paragraph, body, authorId: user.id })
+  return NextResponse.json(await getSectionReview(topicId, sectionId), { status: 201 })
+}
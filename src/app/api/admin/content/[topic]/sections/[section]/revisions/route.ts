@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { badRequest, notFound } from '@/lib/api'
+import { requireUser } from '@/lib/auth/session'
+import { getTopicContent } from '@/lib/content'
+import { getSectionRevisions, restoreSectionRevision } from '@/lib/content/store'
+
+type RevisionsRouteContext = {
+  params: Promise<{ topic: string; section: string }>
+}
+
+// GET /api/admin/content/tajweed/sections/nun-ahkam/revisions  (editor)
+//
+// Every revision of a section, newest first, each with the section's text
+// as of that revision.
+export async function GET(_request: Request, { params }: RevisionsRouteContext) {
+  const user = await requireUser('editor')
+  if (user instanceof Response) return user
+
+  const { topic: topicId, section: sectionId } = await params
+  const revisions = await getSectionRevisions(topicId, sectionId)
+  if (!revisions) return notFound(`unknown section "${sectionId}" in topic "${topicId}"`)
+  return NextResponse.json(revisions)
+}
+
+const bodySchema = z.object({
+  restore: z.number().int().min(1),
+})
+
+// POST /api/admin/content/tajweed/sections/nun-ahkam/revisions  { "restore": 3 }  (editor)
+//
+// Makes an earlier revision the section's text again, recorded as a new
+// revision, and answers with the topic's content.
+export async function POST(request: Request, { params }: RevisionsRouteContext) {
+  const user = await requireUser('editor')
+  if (user instanceof Response) return user
+
+  const { topic: topicId, section: sectionId } = await params
+  const parsed = bodySchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) return badRequest(parsed.error, 'body')
+
+  const { restore } = parsed.data
+  if (!(await restoreSectionRevision(topicId, sectionId, restore, user.id))) {
+    return notFound(`no revision ${restore} of section "${sectionId}" in topic "${topicId}"`)
+  }
+  revalidatePath('/', 'layout')
+  return NextResponse.json(await getTopicContent(topicId, true))
+}
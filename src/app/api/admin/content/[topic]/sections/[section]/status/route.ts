@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { badRequest, forbidden, notFound } from '@/lib/api'
+import { requireUser } from '@/lib/auth/session'
+import { getSectionReview, setSectionStatus } from '@/lib/content/store'
+import { SECTION_STATUSES, canChangeStatus } from '@/lib/content/workflow'
+
+type StatusRouteContext = {
+  params: Promise<{ topic: string; section: string }>
+}
+
+const bodySchema = z.object({
+  status: z.enum(SECTION_STATUSES),
+  // The revision the user decided on, so a change saved meanwhile is not
+  // approved unseen
+  version: z.number().int().min(1),
+})
+
+// PUT /api/admin/content/tajweed/sections/nun-ahkam/status  { "status": "published", "version": 4 }  (teacher)
+//
+// Moves a section's latest revision through the review workflow (see
+// `@/lib/content/workflow`): editors send drafts for review, teachers
+// publish them or send them back. Answers with the section's review.
+export async function PUT(request: Request, { params }: StatusRouteContext) {
+  const user = await requireUser('teacher')
+  if (user instanceof Response) return user
+
+  const { topic: topicId, section: sectionId } = await params
+  const parsed = bodySchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) return badRequest(parsed.error, 'body')
+
+  const review = await getSectionReview(topicId, sectionId)
+  if (!review) return notFound(`unknown section "${sectionId}" in topic "${topicId}"`)
+
+  const { status, version } = parsed.data
+  if (version !== review.version || !canChangeStatus('admin', review.status, status)) {
+    return NextResponse.json(
+      { error: [`version ${review.version} of the section is ${review.status}; reload it`] },
+      { status: 409 },
+    )
+  }
+  if (!canChangeStatus(user.role, review.status, status)) return forbidden()
+  if (status === 'published' && review.authorId === user.id) {
+    return NextResponse.json({ error: ['a revision must be approved by someone other than its author'] }, { status: 403 })
+  }
+
+  await setSectionStatus(topicId, sectionId, status, user.id)
+  // Learners see the newly published text
+  if (status === 'published') revalidatePath('/', 'layout')
+  return NextResponse.json(await getSectionReview(topicId, sectionId))
+}
@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { z } from 'zod'
+import { badRequest } from '@/lib/api'
+import { getTopicContents } from '@/lib/content'
+import { getAyat, versesCitedIn } from '@/lib/quran'
+import { ayahExamples, contentExamples, queryExamples } from '@/lib/search'
+import { TAJWEED_CATEGORIES } from '@/lib/tajweed'
+
+// GET /api/examples?q=من&rule=iqlab&letter=ن&source=content|quran&surah=2&limit=50
+//
+// Finds Quran examples by skeleton text (harakat ignored), tajweed rule and
+// sakin letter; at least one of `q`, `rule` and `letter` is required.
+// `source=content` (default) searches the examples quoted in the topics,
+// `source=quran` the bundled mushaf, optionally one surah of it.
+// `bun run tajweed:check` runs ayat of the bundled mushaf through the same
+// search (searchCorpus in src/lib/tajweed/corpus.ts).
+const querySchema = z
+  .object({
+    q: z.string().trim().optional(),
+    rule: z.enum(TAJWEED_CATEGORIES).optional(),
+    letter: z.string().trim().length(1, 'must be a single letter').optional(),
+    source: z.enum(['content', 'quran']).default('content'),
+    surah: z.coerce.number().int().min(1).max(114).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(50),
+  })
+  .refine((query) => query.q || query.rule || query.letter, { error: 'give at least one of q, rule and letter' })
+
+const examplesInContent = async () =>
+  (await getTopicContents()).flatMap(({ topic, content }) => contentExamples(topic, content, versesCitedIn(content)))
+
+export async function GET(request: NextRequest) {
+  const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!parsed.success) return badRequest(parsed.error)
+
+  const { q, rule, letter, source, surah, limit } = parsed.data
+  const examples = source === 'quran' ? ayahExamples(getAyat(surah)) : await examplesInContent()
+  const matches = queryExamples(examples, { skeleton: q, rule, sakinLetter: letter }, limit)
+
+  return NextResponse.json({
+    matches: matches.map(({ example, start, end, text, word, rules }) => ({
+      reference: example.reference,
+      href: example.href,
+      example: example.text,
+      start,
+      end,
+      text,
+      word,
+      rules,
+    })),
+  })
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { badRequest } from '@/lib/api'
+import { currentLearnerId, getFlashcardProgress, recordFlashcardReviews, recordForLearner } from '@/lib/progress'
+
+const bodySchema = z.object({
+  reviews: z
+    .array(
+      z.object({
+        cardId: z.string().min(1),
+        grade: z.literal([0, 1, 2, 3, 4, 5]),
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a yyyy-MM-dd day'),
+      }),
+    )
+    .min(1)
+    .max(5000),
+})
+
+// GET /api/flashcards
+//
+// The learner's flashcard progress by card id, replayed from their reviews.
+export async function GET() {
+  const learnerId = await currentLearnerId()
+  return NextResponse.json(learnerId ? await getFlashcardProgress(learnerId) : {})
+}
+
+// POST /api/flashcards  { "reviews": [{ "cardId": "tajweed:letter-ق", "grade": 4, "date": "2026-10-19" }] }
+//
+// Records reviews, oldest first; a batch uploads history kept in the
+// browser before. Answers with the updated progress.
+export async function POST(request: Request) {
+  const parsed = bodySchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) return badRequest(parsed.error, 'body')
+
+  const progress = await recordForLearner(async (learnerId) => {
+    await recordFlashcardReviews(learnerId, parsed.data.reviews)
+    return getFlashcardProgress(learnerId)
+  })
+  return progress instanceof Response ? progress : NextResponse.json(progress)
+}
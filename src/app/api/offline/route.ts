@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { getTopicContents } from '@/lib/content'
+import { offlineManifest } from '@/lib/offline'
+
+// GET /api/offline
+//
+// What the service worker caches for reading offline, and a version that
+// changes with each deployment and each published change. Only published
+// content, even during a draft preview.
+export async function GET() {
+  const manifest = await offlineManifest(await getTopicContents(false))
+  return NextResponse.json(manifest, { headers: { 'Cache-Control': 'no-store' } })
+}
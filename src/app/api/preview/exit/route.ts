@@ -0,0 +1,12 @@
+import { draftMode } from 'next/headers'
+import { redirect } from 'next/navigation'
+import { safeCallbackUrl } from '@/lib/auth/redirect'
+
+// GET /api/preview/exit?path=/tajweed
+//
+// Back to the published content. Signing out comes through here too.
+export async function GET(request: Request) {
+  const draft = await draftMode()
+  draft.disable()
+  redirect(safeCallbackUrl(new URL(request.url).searchParams.get('path')))
+}
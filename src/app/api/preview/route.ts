@@ -0,0 +1,17 @@
+import { draftMode } from 'next/headers'
+import { redirect } from 'next/navigation'
+import { requireUser } from '@/lib/auth/session'
+import { safeCallbackUrl } from '@/lib/auth/redirect'
+
+// GET /api/preview?path=/tajweed/nun-sakin/nun-ahkam  (teacher)
+//
+// Turns on draft preview for this browser, so the reader shows the latest
+// revision of every section instead of the published one, and opens `path`.
+export async function GET(request: Request) {
+  const user = await requireUser('teacher')
+  if (user instanceof Response) return user
+
+  const draft = await draftMode()
+  draft.enable()
+  redirect(safeCallbackUrl(new URL(request.url).searchParams.get('path')))
+}
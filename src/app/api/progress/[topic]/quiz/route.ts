@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { badRequest, notFound } from '@/lib/api'
+import { getChapter, getTopic } from '@/lib/content'
+import { getTopicProgress, recordForLearner, recordQuizAttempt } from '@/lib/progress'
+
+type QuizRouteContext = {
+  params: Promise<{ topic: string }>
+}
+
+const bodySchema = z
+  .object({
+    chapter: z.string(),
+    score: z.number().int().min(0),
+    total: z.number().int().min(1),
+  })
+  .refine((body) => body.score <= body.total, { path: ['score'], error: 'must not exceed total' })
+
+// POST /api/progress/tajweed/quiz  { "chapter": "nun-sakin", "score": 8, "total": 10 }
+//
+// Records a finished round of a chapter quiz and answers with the learner's
+// updated topic progress.
+export async function POST(request: Request, { params }: QuizRouteContext) {
+  const { topic: topicId } = await params
+  if (!(await getTopic(topicId))) return notFound(`unknown topic "${topicId}"`)
+
+  const parsed = bodySchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) return badRequest(parsed.error, 'body')
+  const { chapter, score, total } = parsed.data
+  if (!(await getChapter(topicId, chapter))) return notFound(`unknown chapter "${chapter}"`)
+
+  const progress = await recordForLearner(async (learnerId) => {
+    await recordQuizAttempt(learnerId, topicId, chapter, score, total)
+    return getTopicProgress(learnerId, topicId)
+  })
+  return progress instanceof Response ? progress : NextResponse.json(progress)
+}
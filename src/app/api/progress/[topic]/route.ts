@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { notFound } from '@/lib/api'
+import { getTopic } from '@/lib/content'
+import { currentLearnerId, emptyTopicProgress, getTopicProgress } from '@/lib/progress'
+
+type ProgressRouteContext = {
+  params: Promise<{ topic: string }>
+}
+
+// GET /api/progress/tajweed
+//
+// The requesting learner's progress through a topic: sections read, the
+// last one to continue from and best quiz scores. Empty for a learner who
+// has not recorded any.
+export async function GET(_request: Request, { params }: ProgressRouteContext) {
+  const { topic: topicId } = await params
+  if (!(await getTopic(topicId))) return notFound(`unknown topic "${topicId}"`)
+
+  const learnerId = await currentLearnerId()
+  return NextResponse.json(learnerId ? await getTopicProgress(learnerId, topicId) : emptyTopicProgress)
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { badRequest, notFound } from '@/lib/api'
+import { getSection, getTopic } from '@/lib/content'
+import { getTopicProgress, recordForLearner, recordSectionRead } from '@/lib/progress'
+
+type SectionsRouteContext = {
+  params: Promise<{ topic: string }>
+}
+
+const bodySchema = z.object({
+  chapter: z.string(),
+  section: z.string(),
+})
+
+// POST /api/progress/tajweed/sections  { "chapter": "nun-sakin", "section": "nun-ahkam" }
+//
+// Records that the learner opened a section and answers with their updated
+// topic progress.
+export async function POST(request: Request, { params }: SectionsRouteContext) {
+  const { topic: topicId } = await params
+  if (!(await getTopic(topicId))) return notFound(`unknown topic "${topicId}"`)
+
+  const parsed = bodySchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) return badRequest(parsed.error, 'body')
+  const { chapter, section } = parsed.data
+  if (!(await getSection(topicId, chapter, section))) return notFound(`unknown section "${chapter}/${section}"`)
+
+  const progress = await recordForLearner(async (learnerId) => {
+    await recordSectionRead(learnerId, topicId, chapter, section)
+    return getTopicProgress(learnerId, topicId)
+  })
+  return progress instanceof Response ? progress : NextResponse.json(progress)
+}
@@ -1,5 +1,12 @@
-import { NextResponse } from "next/server";
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/auth/session'
 
+// GET /api
+//
+// Who the request is signed in as: 401 without a session.
 export async function GET() {
-  return NextResponse.json({ message: "Hello, world!" });
-}
\ No newline at end of file
+  const user = await requireUser()
+  if (user instanceof Response) return user
+
+  return NextResponse.json({ id: user.id, email: user.email, name: user.name, role: user.role })
+}
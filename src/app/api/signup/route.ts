@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { badRequest } from '@/lib/api'
+import { signUpSchema } from '@/lib/auth/credentials'
+import { hashPassword } from '@/lib/auth/password'
+import { db } from '@/lib/db'
+import { anonymousLearnerId } from '@/lib/progress/learner'
+
+const emailTaken = () =>
+  NextResponse.json({ error: ['email: an account with this email already exists'] }, { status: 409 })
+
+// POST /api/signup  { "name": "…", "email": "…", "password": "…" }
+//
+// Creates a student account; the client then signs in through NextAuth.
+// Progress recorded anonymously in this browser becomes the account's.
+export async function POST(request: Request) {
+  const parsed = signUpSchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) return badRequest(parsed.error, 'body')
+  const { name, email, password } = parsed.data
+
+  if (await db.user.findUnique({ where: { email }, select: { id: true } })) return emailTaken()
+
+  const data = { name, email, passwordHash: await hashPassword(password) }
+  const anonymousId = await anonymousLearnerId()
+  let user
+  try {
+    user = anonymousId
+      ? await db.user.update({ where: { id: anonymousId }, data })
+      : await db.user.create({ data })
+  } catch (error) {
+    // Taken by a sign-up made since the check above
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return emailTaken()
+    throw error
+  }
+
+  return NextResponse.json({ id: user.id, email: user.email, name: user.name, role: user.role }, { status: 201 })
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { badRequest, notFound } from '@/lib/api'
+import { ROLES } from '@/lib/auth/roles'
+import { requireUser } from '@/lib/auth/session'
+import { db } from '@/lib/db'
+
+type UserRouteContext = {
+  params: Promise<{ id: string }>
+}
+
+const bodySchema = z.object({
+  role: z.enum(ROLES),
+})
+
+// PATCH /api/users/[id]  { "role": "teacher" }  (admin)
+//
+// Changes an account's role; it applies from the user's next request.
+// Admins cannot change their own role, so there is always one left.
+export async function PATCH(request: Request, { params }: UserRouteContext) {
+  const admin = await requireUser('admin')
+  if (admin instanceof Response) return admin
+
+  const { id } = await params
+  const parsed = bodySchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) return badRequest(parsed.error, 'body')
+  if (id === admin.id) {
+    return NextResponse.json({ error: ['role: cannot change your own role'] }, { status: 400 })
+  }
+
+  const user = await db.user.findFirst({ where: { id, email: { not: null } }, select: { id: true } })
+  if (!user) return notFound(`unknown user "${id}"`)
+
+  const updated = await db.user.update({
+    where: { id },
+    data: { role: parsed.data.role },
+    select: { id: true, email: true, name: true, role: true },
+  })
+  return NextResponse.json(updated)
+}
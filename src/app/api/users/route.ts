@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/auth/session'
+import { db } from '@/lib/db'
+
+// GET /api/users  (admin)
+//
+// Every account, newest first; anonymous learners are left out.
+export async function GET() {
+  const admin = await requireUser('admin')
+  if (admin instanceof Response) return admin
+
+  const users = await db.user.findMany({
+    where: { email: { not: null } },
+    select: { id: true, email: true, name: true, role: true, createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  })
+  return NextResponse.json({ users })
+}
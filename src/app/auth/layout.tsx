@@ -0,0 +1,13 @@
+import Link from 'next/link'
+
+// Sign-in and sign-up: the form centred on the app's background
+export default function AuthLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-4 px-4 py-10 bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 dark:from-green-950 dark:via-emerald-950 dark:to-teal-950">
+      {children}
+      <Link href="/" className="text-sm text-green-700 underline dark:text-green-300">
+        تجوید القرآن
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { AuthForm } from '@/components/auth-form'
+import { safeCallbackUrl } from '@/lib/auth/redirect'
+import { getCurrentUser } from '@/lib/auth/session'
+
+export const metadata: Metadata = {
+  title: 'سائن ان | تجوید القرآن',
+}
+
+type SignInPageProps = {
+  searchParams: Promise<{ callbackUrl?: string; error?: string }>
+}
+
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const { callbackUrl, error } = await searchParams
+  // Signed-in users only need this page to switch to an account allowed in
+  if (!error && (await getCurrentUser())) redirect(safeCallbackUrl(callbackUrl))
+
+  return <AuthForm mode="signin" callbackUrl={callbackUrl} error={error} />
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from 'next'
+import { AuthForm } from '@/components/auth-form'
+
+export const metadata: Metadata = {
+  title: 'نیا اکاؤنٹ | تجوید القرآن',
+}
+
+type SignUpPageProps = {
+  searchParams: Promise<{ callbackUrl?: string }>
+}
+
+export default async function SignUpPage({ searchParams }: SignUpPageProps) {
+  const { callbackUrl } = await searchParams
+  return <AuthForm mode="signup" callbackUrl={callbackUrl} />
+}
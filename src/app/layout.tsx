@@ -1,7 +1,17 @@
-import type { Metadata } from "next";
-import { Geist, Geist_Mono } from "next/font/google";
+import type { Metadata, Viewport } from "next";
+import { Amiri_Quran, Geist, Geist_Mono, Noto_Naskh_Arabic, Noto_Nastaliq_Urdu } from "next/font/google";
+import { NextIntlClientProvider } from "next-intl";
+import { getLocale } from "next-intl/server";
 import "./globals.css";
 import { Toaster } from "@/components/ui/toaster";
+import { SearchProvider } from "@/components/search-command";
+import { AuthProvider } from "@/components/auth-provider";
+import { DirectionProvider } from "@/components/direction-provider";
+import { ServiceWorkerRegistration } from "@/components/service-worker-registration";
+import { getTopicContents } from "@/lib/content";
+import { localizeContent, localizeTopic } from "@/lib/content/localize";
+import { localeDirection } from "@/i18n/locales";
+import { buildSearchDocuments } from "@/lib/search";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -13,6 +23,24 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+// Urdu prose, Quranic Arabic and other Arabic, chosen per run of text (see
+// src/lib/typography). Downloaded at build time and served from this site.
+const nastaliq = Noto_Nastaliq_Urdu({
+  variable: "--font-nastaliq",
+  subsets: ["arabic"],
+});
+
+const quran = Amiri_Quran({
+  variable: "--font-amiri-quran",
+  weight: "400",
+  subsets: ["arabic"],
+});
+
+const naskh = Noto_Naskh_Arabic({
+  variable: "--font-naskh",
+  subsets: ["arabic"],
+});
+
 export const metadata: Metadata = {
   title: "تجوید القرآن - Tajweed-ul-Quran",
   description: "A comprehensive guide to the rules of Tajweed for proper Quranic recitation. Learn Quranic pronunciation rules in Urdu.",
@@ -28,6 +56,10 @@ export const metadata: Metadata = {
     siteName: "Tajweed-ul-Quran",
     type: "website",
   },
+  appleWebApp: {
+    capable: true,
+    title: "تجوید القرآن",
+  },
   twitter: {
     card: "summary_large_image",
     title: "تجوید القرآن - Tajweed-ul-Quran",
@@ -35,18 +67,38 @@ export const metadata: Metadata = {
   },
 };
 
-export default function RootLayout({
+export const viewport: Viewport = {
+  themeColor: "#15803d",
+};
+
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+  // Search finds what the reader shows: the translations where there are any
+  const searchDocuments = buildSearchDocuments(
+    (await getTopicContents()).map(({ topic, content }) => ({
+      topic: localizeTopic(topic, locale),
+      content: localizeContent(content, locale),
+    })),
+  );
+
   return (
-    <html lang="en" suppressHydrationWarning>
+    <html lang={locale} dir={localeDirection(locale)} suppressHydrationWarning>
       <body
-        className={`${geistSans.variable} ${geistMono.variable} antialiased bg-background text-foreground`}
+        className={`${geistSans.variable} ${geistMono.variable} ${nastaliq.variable} ${quran.variable} ${naskh.variable} antialiased bg-background text-foreground`}
       >
-        {children}
-        <Toaster />
+        <NextIntlClientProvider>
+          <DirectionProvider dir={localeDirection(locale)}>
+            <AuthProvider>
+              <SearchProvider documents={searchDocuments}>{children}</SearchProvider>
+            </AuthProvider>
+            <Toaster />
+          </DirectionProvider>
+          <ServiceWorkerRegistration />
+        </NextIntlClientProvider>
       </body>
     </html>
   );
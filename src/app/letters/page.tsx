@@ -0,0 +1,31 @@
+import type { Metadata } from 'next'
+import { getLocale, getTranslations } from 'next-intl/server'
+import { LetterChart, type LessonLinks } from '@/components/letter-chart'
+import { getTopicContents } from '@/lib/content'
+import { localizeContent } from '@/lib/content/localize'
+import { alphabetLessons, lessonKey } from '@/lib/tajweed'
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations('Letters')
+  return { title: `${t('title')} | تجوید القرآن`, description: t('description') }
+}
+
+// Each lesson the chart refers to is linked in the first topic teaching it
+export default async function LettersPage() {
+  const [topics, locale, t] = await Promise.all([getTopicContents(), getLocale(), getTranslations('Letters')])
+  const localized = topics.map(({ topic, content }) => ({ topic, content: localizeContent(content, locale) }))
+
+  const lessons: LessonLinks = {}
+  for (const lesson of alphabetLessons()) {
+    for (const { topic, content } of localized) {
+      const section = content.chapters
+        .find((chapter) => chapter.id === lesson.chapter)
+        ?.sections.find((section) => section.id === lesson.section)
+      if (!section) continue
+      lessons[lessonKey(lesson)] = { href: `${topic.route}/${lesson.chapter}/${lesson.section}`, title: section.title }
+      break
+    }
+  }
+
+  return <LetterChart title={t('button')} subtitle={t('title')} lessons={lessons} />
+}
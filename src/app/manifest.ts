@@ -0,0 +1,22 @@
+import type { MetadataRoute } from 'next'
+
+// Lets the reader be installed and opened like an app; public/sw.js keeps
+// it working offline
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'تجوید القرآن - Tajweed-ul-Quran',
+    short_name: 'تجوید القرآن',
+    description: 'A comprehensive guide to the rules of Tajweed for proper Quranic recitation, in Urdu.',
+    lang: 'ur',
+    dir: 'rtl',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#f0fdf4',
+    theme_color: '#15803d',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+    ],
+  }
+}
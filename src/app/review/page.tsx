@@ -0,0 +1,19 @@
+import type { Metadata } from 'next'
+import { getLocale, getTranslations } from 'next-intl/server'
+import { FlashcardReview } from '@/components/flashcard-review'
+import { getTopicContents } from '@/lib/content'
+import { localizeContent } from '@/lib/content/localize'
+import { buildFlashcards } from '@/lib/flashcards'
+
+export const metadata: Metadata = {
+  title: 'دہرائی - Flashcard Review | تجوید القرآن',
+  description: 'Daily spaced-repetition review of letter groups, tajweed rules and waqf signs',
+}
+
+// Cards from every topic; the review history itself stays in the browser
+export default async function ReviewPage() {
+  const [topics, locale, t] = await Promise.all([getTopicContents(), getLocale(), getTranslations('Flashcards')])
+  const cards = topics.flatMap(({ topic, content }) => buildFlashcards(topic, localizeContent(content, locale)))
+
+  return <FlashcardReview title={t('button')} subtitle="Flashcard Review" cards={cards} />
+}
@@ -0,0 +1,160 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { signIn } from 'next-auth/react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { AlertCircle, LogIn, UserPlus } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { signInSchema, signUpSchema, type SignUpValues } from '@/lib/auth/credentials'
+import { SIGN_IN_PAGE, SIGN_UP_PAGE } from '@/lib/auth/pages'
+import { safeCallbackUrl } from '@/lib/auth/redirect'
+
+type AuthFormProps = {
+  mode: 'signin' | 'signup'
+  callbackUrl?: string
+  // `error` from the URL: NextAuth's, or AccessDenied from `requirePageUser`
+  error?: string
+}
+
+const errorMessages: Record<string, string> = {
+  AccessDenied: 'اس صفحے کے لیے آپ کے اکاؤنٹ کو اجازت نہیں۔ کسی دوسرے اکاؤنٹ سے سائن ان کریں۔',
+  CredentialsSignin: 'ای میل یا پاس ورڈ درست نہیں۔',
+}
+
+// Email and password form for signing in or creating an account. Signing up
+// signs the new account in straight away.
+export function AuthForm({ mode, callbackUrl, error }: AuthFormProps) {
+  const router = useRouter()
+  const [failure, setFailure] = useState(error ? (errorMessages[error] ?? 'سائن ان نہیں ہو سکا۔') : null)
+  const form = useForm<SignUpValues>({
+    // Sign-in has no name field, which stays empty
+    resolver: zodResolver(mode === 'signup' ? signUpSchema : signInSchema.extend({ name: z.string() })),
+    defaultValues: { name: '', email: '', password: '' },
+  })
+  const redirectTo = safeCallbackUrl(callbackUrl)
+  const otherPage = `${mode === 'signin' ? SIGN_UP_PAGE : SIGN_IN_PAGE}${callbackUrl ? `?${new URLSearchParams({ callbackUrl })}` : ''}`
+
+  const onSubmit = async (values: SignUpValues) => {
+    setFailure(null)
+    if (mode === 'signup') {
+      const response = await fetch('/api/signup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      })
+      if (response.status === 409) {
+        form.setError('email', { message: 'اس ای میل سے اکاؤنٹ پہلے سے موجود ہے۔' })
+        return
+      }
+      if (!response.ok) {
+        setFailure('اکاؤنٹ نہیں بن سکا، دوبارہ کوشش کریں۔')
+        return
+      }
+    }
+
+    const result = await signIn('credentials', { email: values.email, password: values.password, redirect: false })
+    if (!result?.ok) {
+      setFailure(errorMessages[result?.error ?? ''] ?? 'سائن ان نہیں ہو سکا۔')
+      return
+    }
+    router.push(redirectTo)
+    router.refresh()
+  }
+
+  return (
+    <Card className="w-full max-w-md border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 backdrop-blur" dir="rtl">
+      <CardHeader className="text-center">
+        <div className="w-16 h-16 mx-auto mb-2 rounded-full bg-gradient-to-br from-green-600 to-emerald-700 dark:from-green-500 dark:to-emerald-600 flex items-center justify-center shadow-xl">
+          {mode === 'signin' ? <LogIn className="h-8 w-8 text-white" /> : <UserPlus className="h-8 w-8 text-white" />}
+        </div>
+        <CardTitle className="text-2xl font-bold text-green-900 dark:text-green-100">
+          {mode === 'signin' ? 'سائن ان' : 'نیا اکاؤنٹ'}
+        </CardTitle>
+        <CardDescription className="text-green-700 dark:text-green-300">
+          {mode === 'signin'
+            ? 'اپنی پیش رفت ہر آلے پر دیکھنے کے لیے سائن ان کریں'
+            : 'اس براؤزر میں اب تک کی پیش رفت نئے اکاؤنٹ میں محفوظ ہو جائے گی'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {failure && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{failure}</AlertDescription>
+          </Alert>
+        )}
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {mode === 'signup' && (
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>نام</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>ای میل</FormLabel>
+                  <FormControl>
+                    <Input type="email" dir="ltr" autoComplete="email" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>پاس ورڈ</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      dir="ltr"
+                      autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="submit"
+              disabled={form.formState.isSubmitting}
+              className="w-full bg-green-700 hover:bg-green-800 text-white"
+            >
+              {mode === 'signin' ? 'سائن ان کریں' : 'اکاؤنٹ بنائیں'}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+      <CardFooter className="justify-center gap-1 text-sm text-slate-600 dark:text-slate-400">
+        {mode === 'signin' ? 'اکاؤنٹ نہیں ہے؟' : 'پہلے سے اکاؤنٹ ہے؟'}
+        <Link href={otherPage} className="text-green-700 underline dark:text-green-300">
+          {mode === 'signin' ? 'نیا اکاؤنٹ بنائیں' : 'سائن ان کریں'}
+        </Link>
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,8 @@
+'use client'
+
+import { SessionProvider } from 'next-auth/react'
+
+// Makes the NextAuth session available to `useSession` in client components
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  return <SessionProvider>{children}</SessionProvider>
+}
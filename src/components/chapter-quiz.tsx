@@ -0,0 +1,191 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { ArrowLeft, CheckCircle2, ClipboardCheck, RotateCcw, XCircle } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { ScriptText } from '@/components/script-text'
+import { saveQuizAttempt } from '@/hooks/use-topic-progress'
+import { QUIZ_ROUND_LENGTH, drawQuizRound, type QuizQuestion } from '@/lib/quiz'
+import { cn } from '@/lib/utils'
+
+type ChapterQuizProps = {
+  topicId: string
+  chapterId: string
+  title: string
+  // Every question of the chapter; each round draws some of them
+  questions: QuizQuestion[]
+  chapterHref: string
+}
+
+// Self-test for a chapter: a round of randomly drawn questions, each marked
+// as soon as it is answered, with the explanation and a link to the section
+// that teaches it.
+export function ChapterQuiz({ topicId, chapterId, title, questions, chapterHref }: ChapterQuizProps) {
+  const t = useTranslations('Quiz')
+  const [round, setRound] = useState<QuizQuestion[] | null>(null)
+  const [index, setIndex] = useState(0)
+  const [selected, setSelected] = useState<number | null>(null)
+  const [score, setScore] = useState(0)
+
+  const startRound = () => {
+    setRound(drawQuizRound(questions))
+    setIndex(0)
+    setSelected(null)
+    setScore(0)
+  }
+
+  const handleAnswer = (option: number) => {
+    if (!round || selected !== null) return
+    setSelected(option)
+    if (option === round[index].answer) setScore(score + 1)
+  }
+
+  const handleNext = () => {
+    if (round && index + 1 === round.length) saveQuizAttempt(topicId, chapterId, score, round.length)
+    setIndex(index + 1)
+    setSelected(null)
+  }
+
+  const question = round?.[index]
+  const finished = round !== null && index >= round.length
+
+  return (
+    <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 backdrop-blur">
+      <CardHeader>
+        <div className="flex items-center gap-4">
+          <div className="p-4 rounded-xl bg-gradient-to-br from-green-600 to-emerald-700 dark:from-green-500 dark:to-emerald-600">
+            <ClipboardCheck className="h-8 w-8 text-white" />
+          </div>
+          <div className="flex-1">
+            <CardTitle className="text-3xl font-bold text-green-900 dark:text-green-100 mb-1">{t('title', { chapter: title })}</CardTitle>
+            <CardDescription className="text-green-700 dark:text-green-300">
+              {round && !finished
+                ? t('progress', { current: index + 1, total: round.length })
+                : t('pool', { count: questions.length })}
+            </CardDescription>
+          </div>
+          <Link href={chapterHref}>
+            <Button
+              variant="outline"
+              className="border-green-300 text-green-700 hover:bg-green-100 dark:border-green-700 dark:text-green-300 dark:hover:bg-green-900/30"
+            >
+              <ArrowLeft className="h-4 w-4 me-2 rtl:rotate-180" />
+              {t('back')}
+            </Button>
+          </Link>
+        </div>
+        {round && !finished && <Progress value={(index / round.length) * 100} className="mt-4" />}
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {!round && (
+          <div className="space-y-4 text-center">
+            <p className="text-lg text-slate-700 dark:text-slate-300">
+              {t('intro', { count: Math.min(questions.length, QUIZ_ROUND_LENGTH) })}
+            </p>
+            <Button onClick={startRound} className="bg-green-700 hover:bg-green-800 text-white">
+              {t('start')}
+            </Button>
+          </div>
+        )}
+
+        {question && (
+          <motion.div
+            key={question.id}
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ duration: 0.3 }}
+            className="space-y-4"
+          >
+            <p className="text-xl font-semibold leading-loose text-green-900 dark:text-green-100">
+              <ScriptText text={question.prompt} />
+            </p>
+            {question.example && (
+              // Plain text: the rule colours would give the answer away
+              <p lang="ar" className="font-quran text-center text-4xl leading-loose text-slate-800 dark:text-slate-200">
+                {question.example}
+                {question.reference && (
+                  <span className="ms-2 text-sm text-slate-500 dark:text-slate-400" dir="ltr">
+                    ({question.reference})
+                  </span>
+                )}
+              </p>
+            )}
+
+            <div className="grid gap-2 sm:grid-cols-2">
+              {question.options.map((option, optionIndex) => {
+                const answered = selected !== null
+                const isAnswer = optionIndex === question.answer
+                return (
+                  <Button
+                    key={option}
+                    variant="outline"
+                    onClick={() => handleAnswer(optionIndex)}
+                    disabled={answered && !isAnswer && optionIndex !== selected}
+                    className={cn(
+                      'h-auto justify-start whitespace-normal py-3 text-start text-base',
+                      answered && isAnswer && 'border-green-600 bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100',
+                      answered && optionIndex === selected && !isAnswer && 'border-red-500 bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-100',
+                    )}
+                  >
+                    {answered && isAnswer && <CheckCircle2 className="h-4 w-4 me-2 text-green-700" />}
+                    {answered && optionIndex === selected && !isAnswer && <XCircle className="h-4 w-4 me-2 text-red-600" />}
+                    {option}
+                  </Button>
+                )
+              })}
+            </div>
+
+            {selected !== null && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="space-y-3 rounded-lg bg-gradient-to-r rtl:bg-gradient-to-l from-green-50 to-emerald-50 dark:from-green-950/30 dark:to-emerald-950/30 p-4"
+              >
+                <p className="font-bold text-slate-800 dark:text-slate-200">
+                  {selected === question.answer
+                    ? t('correct')
+                    : t('correctAnswer', { answer: question.options[question.answer] })}
+                </p>
+                {question.explanation && (
+                  <p className="leading-loose text-slate-700 dark:text-slate-300">
+                    <ScriptText text={question.explanation} />
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <Link href={question.href} className="text-sm text-green-700 underline dark:text-green-300">
+                    {t('reread', { section: question.sectionTitle })}
+                  </Link>
+                  <Button onClick={handleNext} className="bg-green-700 hover:bg-green-800 text-white">
+                    {index + 1 < (round?.length ?? 0) ? t('next') : t('results')}
+                  </Button>
+                </div>
+              </motion.div>
+            )}
+          </motion.div>
+        )}
+
+        {finished && (
+          <div className="space-y-4 text-center">
+            <p className="text-2xl font-bold text-green-900 dark:text-green-100">
+              {t('score', { score, total: round.length })}
+            </p>
+            <Progress value={(score / round.length) * 100} />
+            <p className="text-slate-700 dark:text-slate-300">
+              {score === round.length ? t('perfect') : t('tryAgainHint')}
+            </p>
+            <Button onClick={startRound} className="bg-green-700 hover:bg-green-800 text-white">
+              <RotateCcw className="h-4 w-4 me-2" />
+              {t('tryAgain')}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
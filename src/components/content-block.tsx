@@ -0,0 +1,106 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { Info, TriangleAlert } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table'
+import { TajweedText } from '@/components/tajweed-text'
+import { toBlock } from '@/lib/content/blocks'
+import type { ContentEntry } from '@/lib/content/schema'
+import type { TajweedCategory } from '@/lib/tajweed'
+import { cn } from '@/lib/utils'
+
+type ContentBlockProps = {
+  entry: ContentEntry
+  // Rules the section teaches, highlighted wherever they occur
+  highlight: TajweedCategory[]
+}
+
+// One `content` or `notes` entry, inside the box `SectionContent` draws
+// around it. All text goes through `TajweedText`, so examples are coloured
+// and {{surah:ayah}} citations shown in every kind of block.
+export function ContentBlock({ entry, highlight }: ContentBlockProps) {
+  const t = useTranslations('Section')
+  const block = toBlock(entry)
+  const text = (value: string) => <TajweedText text={value} highlight={highlight} />
+
+  switch (block.type) {
+    case 'paragraph':
+      return <p>{text(block.text)}</p>
+
+    case 'example':
+      return (
+        <div className="space-y-2">
+          <Badge variant="outline" className="border-green-300 text-green-800 dark:border-green-700 dark:text-green-300">
+            {t('example')}
+          </Badge>
+          <p dir="rtl" className="text-[1.25em] leading-loose">
+            {text(block.arabic)}
+          </p>
+          {block.explanation && <p>{text(block.explanation)}</p>}
+        </div>
+      )
+
+    case 'list':
+      return (
+        <ol start={block.start} className="list-decimal space-y-2 ps-6">
+          {block.items.map((item, index) => (
+            <li key={index}>{text(item)}</li>
+          ))}
+        </ol>
+      )
+
+    case 'letters':
+      return (
+        <div lang="ar" dir="rtl" className="flex flex-wrap gap-2">
+          {block.letters.map((letter, index) => (
+            <span
+              key={index}
+              className="font-quran min-w-12 rounded-lg border border-green-300 bg-white px-3 py-1 text-center text-[1.5em] text-green-900 dark:border-green-700 dark:bg-slate-900 dark:text-green-100"
+            >
+              {letter}
+            </span>
+          ))}
+        </div>
+      )
+
+    case 'table':
+      return (
+        <Table className="text-[1em]">
+          <TableBody>
+            {block.rows.map((cells, row) => (
+              <TableRow key={row} className="border-green-200 hover:bg-transparent dark:border-green-800">
+                {cells.map((cell, index) => (
+                  <TableCell
+                    key={index}
+                    className={cn('whitespace-normal text-start align-top', index === 0 && 'font-semibold')}
+                  >
+                    {text(cell)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )
+
+    case 'callout': {
+      const tone = block.tone ?? 'note'
+      const Icon = tone === 'warning' ? TriangleAlert : Info
+      return (
+        <div className="flex items-start gap-3">
+          <Icon className="mt-1 h-5 w-5 shrink-0" aria-label={t(tone)} />
+          <p>{text(block.text)}</p>
+        </div>
+      )
+    }
+
+    case 'verse':
+      return (
+        <div className="space-y-2">
+          <p>{text(`{{${block.reference}}}`)}</p>
+          {block.explanation && <p>{text(block.explanation)}</p>}
+        </div>
+      )
+  }
+}
@@ -0,0 +1,674 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core'
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { ArrowLeft, ClipboardList, Eye, GripVertical, MessageSquare, PencilRuler, Plus, RotateCcw, Save, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Separator } from '@/components/ui/separator'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { iconMap } from '@/components/topic-icons'
+import { SectionContent } from '@/components/section-content'
+import { SectionHistory } from '@/components/section-history'
+import { SectionStatusBadge } from '@/components/section-review'
+import { UserMenu } from '@/components/user-menu'
+import { toast } from '@/hooks/use-toast'
+import { ICON_KEYS, type IconKey, type Topic, type TopicContent } from '@/lib/content/schema'
+import { validateTopicContent } from '@/lib/content/validate'
+import {
+  emptyChapter,
+  emptySection,
+  fromDraft,
+  fromDraftSection,
+  toDraft,
+  type DraftChapter,
+  type DraftSection,
+  type TopicDraft,
+} from '@/lib/content/draft'
+import type { SectionVersions } from '@/lib/content/revisions'
+import { reviewPath, type PendingSection } from '@/lib/content/workflow'
+import { cn } from '@/lib/utils'
+
+// What the form and preview show: the topic's details, a chapter or a
+// section, by draft key
+type Selection = { chapter: string; section?: string } | null
+
+// Content as the editor would save it, to tell whether there are changes
+const normalized = (content: TopicContent) => JSON.stringify(fromDraft(toDraft(content)))
+
+// The list after dragging `active` onto `over`
+function reorder<T extends { key: string }>(items: T[], { active, over }: DragEndEvent): T[] {
+  if (!over || active.id === over.id) return items
+  const from = items.findIndex((item) => item.key === active.id)
+  const to = items.findIndex((item) => item.key === over.id)
+  return from < 0 || to < 0 ? items : arrayMove(items, from, to)
+}
+
+type ContentEditorProps = {
+  topic: Topic
+  content: TopicContent
+  // Of the sections in `content`, sent back when saving
+  versions: SectionVersions
+  // Ayat the saved content cites; ones cited for the first time show in the
+  // preview after saving
+  verses: Record<string, string>
+  // Saved sections not yet published; any other saved section is
+  pending: PendingSection[]
+}
+
+// Editor for one topic: chapters and their sections in a tree that can be
+// reordered by dragging, a form for the selected entry and a preview drawn
+// by the reader's own section renderer. Saving is refused until the
+// content passes the same validation as `bun run content:validate`, and
+// saved changes are drafts until reviewed.
+export function ContentEditor({ topic, content, versions: loadedVersions, verses, pending }: ContentEditorProps) {
+  const router = useRouter()
+  const [draft, setDraft] = useState<TopicDraft>(() => toDraft(content))
+  const [saved, setSaved] = useState(content)
+  const [versions, setVersions] = useState(loadedVersions)
+  const [selection, setSelection] = useState<Selection>(null)
+  const [serverIssues, setServerIssues] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const edited = fromDraft(draft)
+  const issues = validateTopicContent(edited)
+  const dirty = JSON.stringify(edited) !== normalized(saved)
+
+  // Leaving with unsaved changes asks first
+  useEffect(() => {
+    if (!dirty) return
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault()
+    window.addEventListener('beforeunload', warn)
+    return () => window.removeEventListener('beforeunload', warn)
+  }, [dirty])
+
+  const selectedChapter = draft.chapters.find((chapter) => chapter.key === selection?.chapter)
+  const selectedSection = selectedChapter?.sections.find((section) => section.key === selection?.section)
+  const selectedPending = pending.find((section) => section.sectionId === selectedSection?.id)
+
+  const updateChapters = (update: (chapters: DraftChapter[]) => DraftChapter[]) =>
+    setDraft((current) => ({ ...current, chapters: update(current.chapters) }))
+
+  const updateChapter = (key: string, change: Partial<DraftChapter>) =>
+    updateChapters((chapters) => chapters.map((chapter) => (chapter.key === key ? { ...chapter, ...change } : chapter)))
+
+  const updateSections = (chapterKey: string, update: (sections: DraftSection[]) => DraftSection[]) =>
+    updateChapters((chapters) =>
+      chapters.map((chapter) => (chapter.key === chapterKey ? { ...chapter, sections: update(chapter.sections) } : chapter)),
+    )
+
+  const updateSection = (chapterKey: string, sectionKey: string, change: Partial<DraftSection>) =>
+    updateSections(chapterKey, (sections) =>
+      sections.map((section) => (section.key === sectionKey ? { ...section, ...change } : section)),
+    )
+
+  const addChapter = () => {
+    const chapter = emptyChapter()
+    updateChapters((chapters) => [...chapters, chapter])
+    setSelection({ chapter: chapter.key })
+  }
+
+  const addSection = (chapterKey: string) => {
+    const section = emptySection()
+    updateSections(chapterKey, (sections) => [...sections, section])
+    setSelection({ chapter: chapterKey, section: section.key })
+  }
+
+  const deleteChapter = (key: string) => {
+    updateChapters((chapters) => chapters.filter((chapter) => chapter.key !== key))
+    setSelection(null)
+  }
+
+  const deleteSection = (chapterKey: string, sectionKey: string) => {
+    updateSections(chapterKey, (sections) => sections.filter((section) => section.key !== sectionKey))
+    setSelection({ chapter: chapterKey })
+  }
+
+  // Moves a section to the end of another chapter
+  const moveSection = (fromKey: string, section: DraftSection, toKey: string) => {
+    updateChapters((chapters) =>
+      chapters.map((chapter) =>
+        chapter.key === fromKey
+          ? { ...chapter, sections: chapter.sections.filter(({ key }) => key !== section.key) }
+          : chapter.key === toKey
+            ? { ...chapter, sections: [...chapter.sections, section] }
+            : chapter,
+      ),
+    )
+    setSelection({ chapter: toKey, section: section.key })
+  }
+
+  // Starts over from `content`, keeping the same chapter or section open
+  const resetTo = (content: TopicContent) => {
+    const next = toDraft(content)
+    const chapter = next.chapters.find(({ id }) => id === selectedChapter?.id)
+    const section = chapter?.sections.find(({ id }) => id === selectedSection?.id)
+    setSaved(content)
+    setDraft(next)
+    setSelection(chapter ? { chapter: chapter.key, section: section?.key } : null)
+    setServerIssues([])
+  }
+
+  const discardChanges = () => resetTo(saved)
+
+  const handleSave = async () => {
+    setSaving(true)
+    setServerIssues([])
+    try {
+      const response = await fetch(`/api/admin/content/${topic.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...edited, versions }),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        setServerIssues(body.error ?? [])
+        return
+      }
+      setSaved(body.content)
+      setVersions(body.versions)
+      toast({ title: 'محفوظ ہو گیا', description: `${topic.title} کا مواد محفوظ کر دیا گیا۔` })
+      router.refresh()
+    } catch {
+      setServerIssues(['سرور سے رابطہ نہیں ہو سکا، دوبارہ کوشش کریں۔'])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 dark:from-green-950 dark:via-emerald-950 dark:to-teal-950">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-green-600 to-emerald-700 dark:from-green-500 dark:to-emerald-600 flex items-center justify-center shadow-lg">
+              <PencilRuler className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-green-900 dark:text-green-100">{topic.title}</h1>
+              <p className="text-xs text-green-700 dark:text-green-300 hidden sm:block">Content Editor</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={discardChanges} disabled={!dirty || saving}>
+              <RotateCcw className="h-4 w-4 me-2" />
+              <span className="hidden sm:inline">تبدیلیاں واپس لیں</span>
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={!dirty || issues.length > 0 || saving}
+              className="bg-green-700 hover:bg-green-800 text-white"
+            >
+              <Save className="h-4 w-4 me-2" />
+              {saving ? 'محفوظ ہو رہا ہے…' : 'محفوظ کریں'}
+            </Button>
+            {/* The reader with the saved drafts */}
+            <a href={`/api/preview?${new URLSearchParams({ path: topic.route })}`} target="_blank" rel="noopener">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+              >
+                <Eye className="h-4 w-4 me-2" />
+                <span className="hidden sm:inline">دیکھیں</span>
+              </Button>
+            </a>
+            <UserMenu />
+            <Link href="/admin">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+              >
+                <ArrowLeft className="h-4 w-4 me-2 rtl:rotate-180" />
+                <span className="hidden sm:inline">Topics</span>
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-6 space-y-4" dir="rtl">
+        {(issues.length > 0 || serverIssues.length > 0) && (
+          <Alert variant="destructive" className="bg-white/90 dark:bg-slate-900/90">
+            <AlertTitle>محفوظ کرنے سے پہلے یہ مسائل درست کریں</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc ps-4 space-y-1" dir="ltr">
+                {[...serverIssues, ...issues].map((issue) => (
+                  <li key={issue} className="text-start font-mono text-xs">
+                    {issue}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 lg:grid-cols-[18rem_1fr_1fr]">
+          {/* Chapters and sections */}
+          <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 lg:max-h-[calc(100vh-8rem)] lg:sticky lg:top-20">
+            <CardHeader className="pb-2">
+              <button
+                type="button"
+                onClick={() => setSelection(null)}
+                className={cn(
+                  'rounded-md p-2 text-start font-bold text-green-900 dark:text-green-100',
+                  selection === null && 'bg-green-100 dark:bg-green-900/40',
+                )}
+              >
+                {draft.meta.title || 'موضوع'}
+              </button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <ScrollArea className="lg:h-[calc(100vh-17rem)]">
+                <ChapterTree
+                  chapters={draft.chapters}
+                  selection={selection}
+                  onSelect={setSelection}
+                  onReorderChapters={(event) => updateChapters((chapters) => reorder(chapters, event))}
+                  onReorderSections={(chapterKey, event) =>
+                    updateSections(chapterKey, (sections) => reorder(sections, event))
+                  }
+                />
+              </ScrollArea>
+              <Button variant="outline" size="sm" onClick={addChapter} className="w-full">
+                <Plus className="h-4 w-4 me-2" />
+                نیا باب
+              </Button>
+              {/* Only section text goes through review */}
+              <p className="text-xs text-muted-foreground">
+                ابواب، حصوں کی ترتیب اور موضوع کی تفصیل محفوظ کرتے ہی قارئین تک پہنچ جاتی ہیں؛ نظرِ ثانی صرف حصوں کے
+                متن کی ہوتی ہے۔ شائع شدہ حصہ صرف ایڈمن حذف کر سکتے ہیں۔
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Form */}
+          <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90">
+            <CardContent className="space-y-4 pt-6">
+              {selectedChapter && selectedSection ? (
+                <>
+                  <TextField
+                    label="شناخت (id)"
+                    value={selectedSection.id}
+                    dir="ltr"
+                    onChange={(id) => updateSection(selectedChapter.key, selectedSection.key, { id })}
+                  />
+                  <TextField
+                    label="عنوان"
+                    value={selectedSection.title}
+                    onChange={(title) => updateSection(selectedChapter.key, selectedSection.key, { title })}
+                  />
+                  <TextField
+                    label="ذیلی عنوان"
+                    value={selectedSection.subtitle}
+                    onChange={(subtitle) => updateSection(selectedChapter.key, selectedSection.key, { subtitle })}
+                  />
+                  <div className="space-y-2">
+                    <Label>باب</Label>
+                    <Select
+                      value={selectedChapter.key}
+                      onValueChange={(key) => moveSection(selectedChapter.key, selectedSection, key)}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {draft.chapters.map((chapter) => (
+                          <SelectItem key={chapter.key} value={chapter.key}>
+                            {chapter.title || chapter.id || 'نیا باب'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <ParagraphsField
+                    label="تفصیل"
+                    value={selectedSection.content}
+                    onChange={(content) => updateSection(selectedChapter.key, selectedSection.key, { content })}
+                  />
+                  <ParagraphsField
+                    label="نوٹس"
+                    value={selectedSection.notes}
+                    onChange={(notes) => updateSection(selectedChapter.key, selectedSection.key, { notes })}
+                  />
+                  {saved.chapters.some(({ sections }) => sections.some(({ id }) => id === selectedSection.id)) && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <SectionStatusBadge status={selectedPending?.status ?? 'published'} />
+                      {!!selectedPending?.openComments && (
+                        <Badge variant="outline">
+                          <MessageSquare className="h-3 w-3 me-1" />
+                          {selectedPending.openComments}
+                        </Badge>
+                      )}
+                      <SectionHistory
+                        topicId={topic.id}
+                        sectionId={selectedSection.id}
+                        canRestore={!dirty}
+                        onRestored={(content) => {
+                          resetTo(content)
+                          // Restoring made the section's next revision
+                          setVersions((current) => ({ ...current, [selectedSection.id]: current[selectedSection.id] + 1 }))
+                          router.refresh()
+                        }}
+                      />
+                      <Link href={reviewPath(topic.id, selectedSection.id)}>
+                        <Button variant="outline" size="sm">
+                          <ClipboardList className="h-4 w-4 me-2" />
+                          نظرِ ثانی
+                        </Button>
+                      </Link>
+                    </div>
+                  )}
+                  {selectedSection.quiz && (
+                    <p className="text-sm text-slate-600 dark:text-slate-400">
+                      اس حصے کے {selectedSection.quiz.length} کوئز سوالات بغیر تبدیلی کے محفوظ رہیں گے۔
+                    </p>
+                  )}
+                  {selectedSection.translations && (
+                    <p className="text-sm text-slate-600 dark:text-slate-400">
+                      اس حصے کے ترجمے ({Object.keys(selectedSection.translations).join('، ')}) بھی محفوظ رہیں گے؛ وہ
+                      پیراگراف کی ترتیب سے جڑے ہیں، اس لیے پیراگراف کی ترتیب بدلنے پر ترجمہ بھی درست کریں۔
+                    </p>
+                  )}
+                  <Separator />
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => deleteSection(selectedChapter.key, selectedSection.key)}
+                    disabled={selectedChapter.sections.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4 me-2" />
+                    حصہ حذف کریں
+                  </Button>
+                </>
+              ) : selectedChapter ? (
+                <>
+                  <TextField
+                    label="شناخت (id)"
+                    value={selectedChapter.id}
+                    dir="ltr"
+                    onChange={(id) => updateChapter(selectedChapter.key, { id })}
+                  />
+                  <TextField
+                    label="عنوان"
+                    value={selectedChapter.title}
+                    onChange={(title) => updateChapter(selectedChapter.key, { title })}
+                  />
+                  <TextField
+                    label="ذیلی عنوان"
+                    value={selectedChapter.subtitle}
+                    onChange={(subtitle) => updateChapter(selectedChapter.key, { subtitle })}
+                  />
+                  <div className="space-y-2">
+                    <Label>آئیکن</Label>
+                    <Select
+                      value={selectedChapter.icon}
+                      onValueChange={(icon) => updateChapter(selectedChapter.key, { icon: icon as IconKey })}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ICON_KEYS.map((key) => {
+                          const Icon = iconMap[key]
+                          return (
+                            <SelectItem key={key} value={key}>
+                              <Icon className="h-4 w-4" />
+                              {key}
+                            </SelectItem>
+                          )
+                        })}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Separator />
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => addSection(selectedChapter.key)}>
+                      <Plus className="h-4 w-4 me-2" />
+                      نیا حصہ
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => deleteChapter(selectedChapter.key)}
+                      disabled={draft.chapters.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4 me-2" />
+                      باب حذف کریں
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <TextField
+                    label="عنوان"
+                    value={draft.meta.title}
+                    onChange={(title) => setDraft({ ...draft, meta: { ...draft.meta, title } })}
+                  />
+                  <TextField
+                    label="ذیلی عنوان"
+                    value={draft.meta.subtitle}
+                    onChange={(subtitle) => setDraft({ ...draft, meta: { ...draft.meta, subtitle } })}
+                  />
+                  <TextField
+                    label="تعارف"
+                    value={draft.meta.description}
+                    onChange={(description) => setDraft({ ...draft, meta: { ...draft.meta, description } })}
+                  />
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Preview */}
+          <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90">
+            <CardHeader className="text-center">
+              <Badge variant="secondary" className="mx-auto">
+                پیش نظارہ
+              </Badge>
+              <CardTitle className="text-2xl font-bold text-green-900 dark:text-green-100">
+                {(selectedSection ?? selectedChapter ?? draft.meta).title}
+              </CardTitle>
+              <CardDescription className="text-green-700 dark:text-green-300">
+                {(selectedSection ?? selectedChapter ?? draft.meta).subtitle}
+              </CardDescription>
+            </CardHeader>
+            <Separator className="bg-green-200 dark:bg-green-800" />
+            <CardContent className="p-6">
+              {selectedChapter && selectedSection ? (
+                <SectionContent
+                  key={selectedSection.key}
+                  content={edited}
+                  basePath={topic.route}
+                  verses={verses}
+                  chapterId={selectedChapter.id}
+                  section={fromDraftSection(selectedSection)}
+                />
+              ) : selectedChapter ? (
+                <ol className="list-decimal ps-6 space-y-1 text-slate-700 dark:text-slate-300">
+                  {selectedChapter.sections.map((section) => (
+                    <li key={section.key}>{section.title}</li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-center text-slate-700 dark:text-slate-300">{draft.meta.description}</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
+
+type ChapterTreeProps = {
+  chapters: DraftChapter[]
+  selection: Selection
+  onSelect: (selection: Selection) => void
+  onReorderChapters: (event: DragEndEvent) => void
+  onReorderSections: (chapterKey: string, event: DragEndEvent) => void
+}
+
+// Sections are reordered within their chapter; the section form moves one
+// to another chapter
+function ChapterTree({ chapters, selection, onSelect, onReorderChapters, onReorderSections }: ChapterTreeProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates }),
+  )
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={onReorderChapters}>
+      <SortableContext items={chapters.map((chapter) => chapter.key)} strategy={verticalListSortingStrategy}>
+        <ol className="space-y-2 p-1">
+          {chapters.map((chapter) => (
+            <SortableRow
+              key={chapter.key}
+              id={chapter.key}
+              label={chapter.title || chapter.id || 'نیا باب'}
+              selected={selection?.chapter === chapter.key && !selection.section}
+              onSelect={() => onSelect({ chapter: chapter.key })}
+              className="font-semibold"
+            >
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCenter}
+                onDragEnd={(event) => onReorderSections(chapter.key, event)}
+              >
+                <SortableContext
+                  items={chapter.sections.map((section) => section.key)}
+                  strategy={verticalListSortingStrategy}
+                >
+                  <ol className="mt-1 space-y-1 ps-5">
+                    {chapter.sections.map((section) => (
+                      <SortableRow
+                        key={section.key}
+                        id={section.key}
+                        label={section.title || section.id || 'نیا حصہ'}
+                        selected={selection?.section === section.key}
+                        onSelect={() => onSelect({ chapter: chapter.key, section: section.key })}
+                        className="text-sm"
+                      />
+                    ))}
+                  </ol>
+                </SortableContext>
+              </DndContext>
+            </SortableRow>
+          ))}
+        </ol>
+      </SortableContext>
+    </DndContext>
+  )
+}
+
+type SortableRowProps = {
+  id: string
+  label: string
+  selected: boolean
+  onSelect: () => void
+  className?: string
+  children?: React.ReactNode
+}
+
+// A tree entry dragged by its handle, so clicking the label still selects it
+function SortableRow({ id, label, selected, onSelect, className, children }: SortableRowProps) {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({ id })
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn(isDragging && 'relative z-10 opacity-80')}
+    >
+      <div
+        className={cn(
+          'flex items-center gap-1 rounded-md',
+          selected
+            ? 'bg-gradient-to-r rtl:bg-gradient-to-l from-green-600 to-emerald-700 text-white'
+            : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300',
+        )}
+      >
+        <button
+          type="button"
+          ref={setActivatorNodeRef}
+          {...attributes}
+          {...listeners}
+          aria-label={`${label} کو منتقل کریں`}
+          className="cursor-grab touch-none p-2 opacity-60 hover:opacity-100"
+        >
+          <GripVertical className="h-4 w-4" />
+        </button>
+        <button type="button" onClick={onSelect} className={cn('flex-1 truncate py-2 pe-2 text-start', className)}>
+          {label}
+        </button>
+      </div>
+      {children}
+    </li>
+  )
+}
+
+type TextFieldProps = {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  dir?: 'ltr' | 'rtl'
+}
+
+function TextField({ label, value, onChange, dir = 'rtl' }: TextFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Input value={value} dir={dir} onChange={(event) => onChange(event.target.value)} />
+    </div>
+  )
+}
+
+// Paragraphs and blocks are separated by a blank line; see `entryMarkup`
+// for how a block is written
+function ParagraphsField({ label, value, onChange }: Omit<TextFieldProps, 'dir'>) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Textarea
+        value={value}
+        dir="rtl"
+        rows={8}
+        onChange={(event) => onChange(event.target.value)}
+        className="text-base leading-relaxed"
+      />
+      <p className="text-xs text-muted-foreground">
+        ہر پیراگراف کے بعد ایک خالی سطر چھوڑیں۔ آیت کا حوالہ یوں لکھیں: {'{{14:4}}'}۔ مثال، فہرست یا جدول کے
+        لیے پہلی سطر میں <span dir="ltr">::example</span>، <span dir="ltr">::list</span>،{' '}
+        <span dir="ltr">::letters</span>، <span dir="ltr">::table</span>، <span dir="ltr">::callout</span> یا{' '}
+        <span dir="ltr">::verse 2:255</span> لکھیں۔
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+'use client'
+
+import { DirectionProvider as RadixDirectionProvider, useDirection } from '@radix-ui/react-direction'
+
+// Tells the Radix primitives behind the shadcn components which way the
+// page reads, so menus align, sliders fill and arrow keys move from the
+// right in Urdu and Arabic. Set by the root layout from the locale, like
+// the `dir` attribute on <html>.
+export function DirectionProvider({ dir, children }: { dir: 'ltr' | 'rtl'; children: React.ReactNode }) {
+  return <RadixDirectionProvider dir={dir}>{children}</RadixDirectionProvider>
+}
+
+// The sign of an x offset towards the start of a line: negative (left) in
+// LTR, positive (right) in RTL. For animations that slide in from the side.
+export function useStartSign(): 1 | -1 {
+  return useDirection() === 'rtl' ? 1 : -1
+}
@@ -0,0 +1,293 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { CalendarCheck, Home, Layers, RotateCcw } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { ScriptText } from '@/components/script-text'
+import { SearchButton } from '@/components/search-command'
+import { UserMenu } from '@/components/user-menu'
+import { LanguageSwitcher } from '@/components/language-switcher'
+import { OfflineIndicator } from '@/components/offline-indicator'
+import { useFlashcardProgress } from '@/hooks/use-flashcard-progress'
+import {
+  PASSING_GRADE,
+  dayKey,
+  flashcardDeckNames,
+  learnedCount,
+  nextInterval,
+  reviewForecast,
+  reviewQueue,
+  type Flashcard,
+  type FlashcardDeck,
+  type ReviewGrade,
+} from '@/lib/flashcards'
+import { REVIEW_SEGMENT } from '@/lib/content/schema'
+import { cn } from '@/lib/utils'
+
+// The four answers offered, mapped onto SM-2 grades
+const GRADES: { grade: ReviewGrade; label: 'forgot' | 'hard' | 'good' | 'easy'; className: string }[] = [
+  { grade: 1, label: 'forgot', className: 'border-red-400 text-red-700 hover:bg-red-50 dark:text-red-300 dark:hover:bg-red-950/40' },
+  { grade: 3, label: 'hard', className: 'border-amber-400 text-amber-700 hover:bg-amber-50 dark:text-amber-300 dark:hover:bg-amber-950/40' },
+  { grade: 4, label: 'good', className: 'border-green-500 text-green-700 hover:bg-green-50 dark:text-green-300 dark:hover:bg-green-950/40' },
+  { grade: 5, label: 'easy', className: 'border-sky-400 text-sky-700 hover:bg-sky-50 dark:text-sky-300 dark:hover:bg-sky-950/40' },
+]
+
+const DECKS = Object.keys(flashcardDeckNames) as FlashcardDeck[]
+
+type FlashcardReviewProps = {
+  title: string
+  subtitle: string
+  cards: Flashcard[]
+}
+
+// Daily flashcard review: today's due and new cards, optionally from one
+// deck, each answered by how well it was remembered. Cards forgotten come
+// back at the end of the session.
+export function FlashcardReview({ title, subtitle, cards }: FlashcardReviewProps) {
+  const t = useTranslations('Flashcards')
+  const tNavigation = useTranslations('Navigation')
+  const { progress, review } = useFlashcardProgress()
+  const [today] = useState(() => dayKey(new Date()))
+  const [deck, setDeck] = useState<FlashcardDeck | null>(null)
+  const [session, setSession] = useState<Flashcard[] | null>(null)
+  const [position, setPosition] = useState(0)
+  const [revealed, setRevealed] = useState(false)
+
+  const deckCards = deck ? cards.filter((card) => card.deck === deck) : cards
+  const queue = reviewQueue(deckCards, progress, today)
+  const forecast = reviewForecast(deckCards, progress, today)
+  const learned = learnedCount(deckCards, progress)
+
+  const startSession = () => {
+    setSession([...queue.due, ...queue.fresh])
+    setPosition(0)
+    setRevealed(false)
+  }
+
+  const handleGrade = (card: Flashcard, grade: ReviewGrade) => {
+    if (!session) return
+    review(card.id, grade)
+    if (grade < PASSING_GRADE) setSession([...session, card])
+    setPosition(position + 1)
+    setRevealed(false)
+  }
+
+  const card = session?.[position]
+  const finished = session !== null && position >= session.length
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 dark:from-green-950 dark:via-emerald-950 dark:to-teal-950">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-green-600 to-emerald-700 dark:from-green-500 dark:to-emerald-600 flex items-center justify-center shadow-lg">
+              <Layers className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-green-900 dark:text-green-100">{title}</h1>
+              <p className="text-xs text-green-700 dark:text-green-300 hidden sm:block">{subtitle}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <OfflineIndicator />
+            <SearchButton />
+            <LanguageSwitcher />
+            <UserMenu />
+            <Link href="/">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+              >
+                <Home className="h-4 w-4 me-2" />
+                <span className="hidden sm:inline">{tNavigation('home')}</span>
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto max-w-3xl px-4 py-6 space-y-6">
+        {!session && (
+          <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 backdrop-blur">
+            <CardHeader>
+              <CardTitle className="text-2xl font-bold text-green-900 dark:text-green-100">{t('title')}</CardTitle>
+              <CardDescription className="text-green-700 dark:text-green-300">
+                {t('description')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant={deck === null ? 'default' : 'outline'}
+                  onClick={() => setDeck(null)}
+                  className={cn(deck === null && 'bg-green-700 hover:bg-green-800 text-white')}
+                >
+                  {t('allDecks')}
+                </Button>
+                {DECKS.map((option) => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant={deck === option ? 'default' : 'outline'}
+                    onClick={() => setDeck(option)}
+                    className={cn(deck === option && 'bg-green-700 hover:bg-green-800 text-white')}
+                  >
+                    {t(`decks.${option}`)}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-3 gap-3 text-center">
+                {[
+                  { label: t('due'), value: queue.due.length },
+                  { label: t('fresh'), value: queue.fresh.length },
+                  { label: t('learned'), value: `${learned} / ${deckCards.length}` },
+                ].map(({ label, value }) => (
+                  <div key={label} className="rounded-lg bg-green-50 dark:bg-green-950/40 p-3">
+                    <p className="text-2xl font-bold text-green-900 dark:text-green-100">{value}</p>
+                    <p className="text-sm text-green-700 dark:text-green-300">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-semibold text-slate-700 dark:text-slate-300">{t('upcoming')}</p>
+                <div className="flex flex-wrap gap-2">
+                  {forecast.map(({ date, count }, index) => (
+                    <Badge key={date} variant="outline" className="border-green-300 dark:border-green-700">
+                      {t('inDays', { days: index + 1 })}: {count}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              {queue.due.length + queue.fresh.length > 0 ? (
+                <Button onClick={startSession} className="w-full bg-green-700 hover:bg-green-800 text-white">
+                  <CalendarCheck className="h-4 w-4 me-2" />
+                  {t('start', { count: queue.due.length + queue.fresh.length })}
+                </Button>
+              ) : (
+                <p className="text-center text-slate-700 dark:text-slate-300">
+                  {t('nothingDue')}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {card && (
+          <motion.div
+            key={`${card.id}-${position}`}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.3 }}
+          >
+            <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 backdrop-blur">
+              <CardHeader className="space-y-3">
+                <div className="flex items-center justify-between gap-2 text-sm text-green-700 dark:text-green-300">
+                  <Badge variant="secondary">{t(`decks.${card.deck}`)}</Badge>
+                  <span>
+                    {position + 1} / {session.length}
+                  </span>
+                </div>
+                <Progress value={(position / session.length) * 100} />
+              </CardHeader>
+              <CardContent className="space-y-6 text-center">
+                <p className="text-slate-600 dark:text-slate-400">{card.prompt}</p>
+                <p
+                  lang={card.arabic ? 'ar' : undefined}
+                  className={cn(
+                    'font-bold text-green-900 dark:text-green-100',
+                    card.arabic ? 'font-quran text-6xl leading-loose' : 'text-3xl',
+                  )}
+                >
+                  {card.front}
+                </p>
+
+                {!revealed ? (
+                  <Button onClick={() => setRevealed(true)} className="bg-green-700 hover:bg-green-800 text-white">
+                    {t('showAnswer')}
+                  </Button>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="rounded-lg bg-gradient-to-r rtl:bg-gradient-to-l from-green-50 to-emerald-50 dark:from-green-950/30 dark:to-emerald-950/30 p-4 text-start">
+                      <p className="text-lg leading-loose text-slate-800 dark:text-slate-200">
+                        <ScriptText text={card.back} />
+                      </p>
+                      <Link href={card.href} className="mt-2 inline-block text-sm text-green-700 underline dark:text-green-300">
+                        {t('readLesson', { section: card.sectionTitle })}
+                      </Link>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                      {GRADES.map(({ grade, label, className }) => {
+                        const days = nextInterval(progress[card.id], grade)
+                        return (
+                          <Button
+                            key={grade}
+                            variant="outline"
+                            onClick={() => handleGrade(card, grade)}
+                            className={cn('h-auto flex-col py-2', className)}
+                          >
+                            <span className="font-bold">{t(label)}</span>
+                            <span className="text-xs opacity-80">
+                              {grade < PASSING_GRADE ? t('againToday') : t('inDays', { days })}
+                            </span>
+                          </Button>
+                        )
+                      })}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {finished && (
+          <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 backdrop-blur">
+            <CardContent className="space-y-4 py-8 text-center">
+              <p className="text-2xl font-bold text-green-900 dark:text-green-100">{t('done')}</p>
+              <p className="text-slate-700 dark:text-slate-300">
+                {t('summary', {
+                  answers: session.length,
+                  learned: learnedCount(deckCards, progress),
+                  total: deckCards.length,
+                })}
+              </p>
+              <Button onClick={() => setSession(null)} className="bg-green-700 hover:bg-green-800 text-white">
+                <RotateCcw className="h-4 w-4 me-2" />
+                {t('back')}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
+
+export function ReviewButton() {
+  const t = useTranslations('Flashcards')
+
+  return (
+    <Link href={`/${REVIEW_SEGMENT}`}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+      >
+        <Layers className="h-4 w-4 me-2" />
+        <span className="hidden sm:inline">{t('button')}</span>
+      </Button>
+    </Link>
+  )
+}
@@ -0,0 +1,55 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useLocale, useTranslations } from 'next-intl'
+import { Check, Languages } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { LOCALES, LOCALE_COOKIE, localeNames, type Locale } from '@/i18n/locales'
+import { cn } from '@/lib/utils'
+
+// A year, so the choice outlasts the session
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365
+
+function storeLocale(locale: Locale) {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${COOKIE_MAX_AGE}; samesite=lax`
+}
+
+// Switches the interface and the content between Urdu and its translations.
+// The language is kept in a cookie the server reads, so the page is
+// rendered again in the new one.
+export function LanguageSwitcher() {
+  const router = useRouter()
+  const locale = useLocale()
+  const t = useTranslations('Language')
+
+  const select = (next: Locale) => {
+    if (next === locale) return
+    storeLocale(next)
+    router.refresh()
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label={t('label')}
+          className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+        >
+          <Languages className="h-4 w-4 me-2" />
+          <span className="hidden sm:inline">{localeNames[locale]}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {LOCALES.map((option) => (
+          <DropdownMenuItem key={option} lang={option} onSelect={() => select(option)}>
+            <Check className={cn('h-4 w-4', option !== locale && 'invisible')} />
+            {localeNames[option]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
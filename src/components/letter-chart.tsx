@@ -0,0 +1,249 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { BookOpen, Home, LayoutGrid } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { TajweedSwatch } from '@/components/tajweed-text'
+import { SearchButton } from '@/components/search-command'
+import { UserMenu } from '@/components/user-menu'
+import { LanguageSwitcher } from '@/components/language-switcher'
+import { OfflineIndicator } from '@/components/offline-indicator'
+import {
+  ALPHABET,
+  followingLetterRules,
+  lessonKey,
+  letterWeightClass,
+  makhrajGroups,
+  sifahInfo,
+  urduLetter,
+  type LessonRef,
+  type LetterWeightClass,
+  type MakhrajGroup,
+} from '@/lib/tajweed'
+import { LETTERS_SEGMENT } from '@/lib/content/schema'
+import { cn } from '@/lib/utils'
+
+// The sections the chart links to, keyed by `lessonKey`; a section no
+// topic has is left out
+export type LessonLinks = Record<string, { href: string; title: string }>
+
+const groupTiles: Record<MakhrajGroup, string> = {
+  jawf: 'border-sky-300 bg-sky-50 text-sky-900 dark:border-sky-800 dark:bg-sky-950/40 dark:text-sky-100',
+  halq: 'border-amber-300 bg-amber-50 text-amber-900 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-100',
+  lisan: 'border-green-300 bg-green-50 text-green-900 dark:border-green-800 dark:bg-green-950/40 dark:text-green-100',
+  shafatan: 'border-rose-300 bg-rose-50 text-rose-900 dark:border-rose-800 dark:bg-rose-950/40 dark:text-rose-100',
+}
+
+const GROUPS = Object.keys(makhrajGroups) as MakhrajGroup[]
+
+const weightBadges: Record<LetterWeightClass, string> = {
+  heavy: 'bg-green-800 text-white hover:bg-green-800',
+  light: 'bg-slate-200 text-slate-800 hover:bg-slate-200 dark:bg-slate-700 dark:text-slate-100',
+  varies: 'bg-amber-200 text-amber-900 hover:bg-amber-200 dark:bg-amber-800 dark:text-amber-100',
+}
+
+type LetterChartProps = {
+  title: string
+  subtitle: string
+  lessons: LessonLinks
+}
+
+// The 29 letters, coloured by where they are pronounced. Picking one shows
+// its makhraj, sifat and the rules it decides as the next letter, each
+// linked to the section teaching it.
+export function LetterChart({ title, subtitle, lessons }: LetterChartProps) {
+  const t = useTranslations('Letters')
+  const tNavigation = useTranslations('Navigation')
+  const [selected, setSelected] = useState(ALPHABET[0].letter)
+
+  const info = ALPHABET.find(({ letter }) => letter === selected) ?? ALPHABET[0]
+  const group = makhrajGroups[info.makhraj]
+  const weight = letterWeightClass(info.letter)
+  const rules = followingLetterRules(info.letter)
+
+  const lessonLink = (lesson: LessonRef | undefined) => {
+    const link = lesson && lessons[lessonKey(lesson)]
+    return (
+      link && (
+        <Link
+          href={link.href}
+          className="inline-flex items-center gap-1 text-sm text-green-700 underline-offset-4 hover:underline dark:text-green-300"
+        >
+          <BookOpen className="h-3.5 w-3.5" />
+          {t('readLesson', { section: link.title })}
+        </Link>
+      )
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 dark:from-green-950 dark:via-emerald-950 dark:to-teal-950">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-green-600 to-emerald-700 dark:from-green-500 dark:to-emerald-600 flex items-center justify-center shadow-lg">
+              <LayoutGrid className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-green-900 dark:text-green-100">{title}</h1>
+              <p className="text-xs text-green-700 dark:text-green-300 hidden sm:block">{subtitle}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <OfflineIndicator />
+            <SearchButton />
+            <LanguageSwitcher />
+            <UserMenu />
+            <Link href="/">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+              >
+                <Home className="h-4 w-4 me-2" />
+                <span className="hidden sm:inline">{tNavigation('home')}</span>
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto max-w-5xl px-4 py-6">
+        <div className="grid gap-6 lg:grid-cols-[1fr_24rem] lg:items-start">
+          <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 backdrop-blur">
+            <CardHeader>
+              <CardTitle className="text-2xl font-bold text-green-900 dark:text-green-100">{t('title')}</CardTitle>
+              <CardDescription className="text-green-700 dark:text-green-300">{t('description')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-3">
+                {GROUPS.map((key) => (
+                  <span key={key} className="flex items-center gap-1.5 text-sm text-slate-700 dark:text-slate-300">
+                    <span className={cn('h-3 w-3 rounded-full border', groupTiles[key])} />
+                    {makhrajGroups[key].name}
+                    <span className="text-xs text-muted-foreground" dir="ltr">
+                      {makhrajGroups[key].english}
+                    </span>
+                  </span>
+                ))}
+              </div>
+              <div lang="ar" dir="rtl" className="grid grid-cols-5 gap-2 sm:grid-cols-7">
+                {ALPHABET.map(({ letter, name, makhraj }) => (
+                  <button
+                    key={letter}
+                    type="button"
+                    onClick={() => setSelected(letter)}
+                    aria-pressed={letter === selected}
+                    aria-label={name}
+                    className={cn(
+                      'flex flex-col items-center rounded-lg border-2 py-2 transition-transform hover:scale-105 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-green-600',
+                      groupTiles[makhraj],
+                      letter === selected && 'ring-2 ring-green-700 ring-offset-2 dark:ring-green-400 dark:ring-offset-slate-900',
+                    )}
+                  >
+                    <span className="font-quran text-3xl leading-relaxed">{urduLetter(letter)}</span>
+                    <span className="text-xs opacity-80">{name}</span>
+                  </button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card
+            aria-live="polite"
+            className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 backdrop-blur lg:sticky lg:top-20"
+          >
+            <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+              <span
+                lang="ar"
+                className={cn('font-quran flex h-20 w-20 shrink-0 items-center justify-center rounded-xl border-2 text-5xl', groupTiles[info.makhraj])}
+              >
+                {urduLetter(info.letter)}
+              </span>
+              <div className="space-y-2">
+                <CardTitle className="text-2xl text-green-900 dark:text-green-100">{info.name}</CardTitle>
+                <Badge className={weightBadges[weight]}>{t(weight)}</Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <section className="space-y-1">
+                <h2 className="text-sm font-semibold text-muted-foreground">{t('makhraj')}</h2>
+                <p className="font-bold text-slate-800 dark:text-slate-200">
+                  {group.name} <span className="text-xs font-normal text-muted-foreground" dir="ltr">{group.english}</span>
+                </p>
+                <p className="text-slate-700 dark:text-slate-300">{info.point}</p>
+                {lessonLink(group.lesson)}
+              </section>
+
+              <section className="space-y-2">
+                <h2 className="text-sm font-semibold text-muted-foreground">{t('sifat')}</h2>
+                <div className="flex flex-wrap gap-2">
+                  {info.sifat.map((sifah) => {
+                    const { name, english, lesson } = sifahInfo[sifah]
+                    const link = lesson && lessons[lessonKey(lesson)]
+                    const badge = (
+                      <Badge variant="outline" className="gap-1.5 border-green-300 dark:border-green-700">
+                        {name}
+                        <span className="text-muted-foreground" dir="ltr">
+                          {english}
+                        </span>
+                      </Badge>
+                    )
+                    return link ? (
+                      <Link key={sifah} href={link.href} title={link.title} className="hover:opacity-80">
+                        {badge}
+                      </Link>
+                    ) : (
+                      <span key={sifah}>{badge}</span>
+                    )
+                  })}
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h2 className="text-sm font-semibold text-muted-foreground">{t('asFollowingLetter')}</h2>
+                {rules.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t('noRules')}</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {rules.map((rule) => (
+                      <li key={rule.name} className="space-y-1">
+                        <div className="flex items-center gap-2 text-slate-800 dark:text-slate-200">
+                          {rule.category && <TajweedSwatch category={rule.category} />}
+                          {rule.name}
+                        </div>
+                        {lessonLink(rule.lesson)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
+
+export function LetterChartButton() {
+  const t = useTranslations('Letters')
+
+  return (
+    <Link href={`/${LETTERS_SEGMENT}`}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+      >
+        <LayoutGrid className="h-4 w-4 me-2" />
+        <span className="hidden sm:inline">{t('button')}</span>
+      </Button>
+    </Link>
+  )
+}
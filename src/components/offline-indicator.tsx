@@ -0,0 +1,26 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { WifiOff } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { useOnlineStatus } from '@/hooks/use-online-status'
+
+// Shown in the header while offline, when pages come from the service
+// worker's cache
+export function OfflineIndicator() {
+  const online = useOnlineStatus()
+  const t = useTranslations('Offline')
+
+  if (online) return null
+
+  return (
+    <Badge
+      variant="outline"
+      title={t('hint')}
+      className="border-amber-400 bg-amber-50 text-amber-800 dark:border-amber-700 dark:bg-amber-950/40 dark:text-amber-300"
+    >
+      <WifiOff className="h-3 w-3 me-1" />
+      {t('label')}
+    </Badge>
+  )
+}
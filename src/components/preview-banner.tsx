@@ -0,0 +1,23 @@
+import { Eye } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+// Shown above the reader while draft preview is on (`/api/preview`), since
+// the text may differ from what learners see
+export function PreviewBanner({ path }: { path: string }) {
+  return (
+    <div className="bg-amber-100 text-amber-900 dark:bg-amber-950 dark:text-amber-100" dir="rtl">
+      <div className="container mx-auto px-4 py-2 flex items-center justify-between gap-3 text-sm">
+        <span className="flex items-center gap-2">
+          <Eye className="h-4 w-4" />
+          مسودے دکھائے جا رہے ہیں: یہ متن ابھی طلبہ کو نظر نہیں آتا۔
+        </span>
+        {/* A route handler, not a page, so a plain link */}
+        <a href={`/api/preview/exit?${new URLSearchParams({ path })}`}>
+          <Button variant="outline" size="sm" className="border-amber-400 bg-transparent">
+            شائع شدہ متن دیکھیں
+          </Button>
+        </a>
+      </div>
+    </div>
+  )
+}
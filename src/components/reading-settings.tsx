@@ -0,0 +1,58 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { ALargeSmall } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Slider } from '@/components/ui/slider'
+import { ScriptText } from '@/components/script-text'
+import { useReadingSettings } from '@/hooks/use-reading-settings'
+import { FONT_SIZE_RANGE, LINE_HEIGHT_RANGE, readingStyle } from '@/lib/typography'
+
+// Font size and line height of lesson text, with a sample set in them
+export function ReadingSettingsButton() {
+  const t = useTranslations('Reading')
+  const { settings, update, reset } = useReadingSettings()
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label={t('title')}
+          className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+        >
+          <ALargeSmall className="h-4 w-4 me-2" />
+          <span className="hidden sm:inline">{t('button')}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <p className="font-semibold">{t('title')}</p>
+        <div className="space-y-2">
+          <Label>{t('fontSize')}</Label>
+          <Slider
+            {...FONT_SIZE_RANGE}
+            value={[settings.fontSize]}
+            onValueChange={([fontSize]) => update({ fontSize })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>{t('lineHeight')}</Label>
+          <Slider
+            {...LINE_HEIGHT_RANGE}
+            value={[settings.lineHeight]}
+            onValueChange={([lineHeight]) => update({ lineHeight })}
+          />
+        </div>
+        <p dir="auto" className="rounded-md border p-2" style={readingStyle(settings)}>
+          <ScriptText text={`${t('sample')} بِسْمِ اللّٰهِ الرَّحْمٰنِ الرَّحِيْمِ`} />
+        </p>
+        <Button variant="outline" size="sm" onClick={reset} className="w-full">
+          {t('reset')}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,28 @@
+'use client'
+
+import { useMemo } from 'react'
+import { scriptRuns, type Script, type ScriptRun } from '@/lib/typography'
+
+const scriptFonts: Record<Exclude<Script, 'other'>, { lang: string; className: string }> = {
+  quran: { lang: 'ar', className: 'font-quran' },
+  urdu: { lang: 'ur', className: 'font-urdu' },
+  arabic: { lang: 'ar', className: 'font-arabic' },
+}
+
+// One run of text in its script's font; `children` stand in for the text,
+// e.g. a Quranic run coloured by tajweed rule
+export function ScriptRunText({ run, children }: { run: ScriptRun; children?: React.ReactNode }) {
+  if (run.script === 'other') return children ?? run.text
+  const { lang, className } = scriptFonts[run.script]
+  return (
+    <span lang={lang} dir="rtl" className={className}>
+      {children ?? run.text}
+    </span>
+  )
+}
+
+// Text with every stretch of Urdu, Arabic or Quranic Arabic in its own font
+export function ScriptText({ text }: { text: string }) {
+  const runs = useMemo(() => scriptRuns(text), [text])
+  return runs.map((run, index) => <ScriptRunText key={index} run={run} />)
+}
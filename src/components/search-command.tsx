@@ -0,0 +1,132 @@
+'use client'
+
+import { createContext, useContext, useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { createSearchIndex, searchContent, type HighlightRange, type SearchDocument } from '@/lib/search'
+
+const SearchContext = createContext<() => void>(() => {})
+
+function Highlighted({ text, ranges }: { text: string; ranges: HighlightRange[] }) {
+  const parts: React.ReactNode[] = []
+  let position = 0
+  for (const [start, end] of ranges) {
+    if (start > position) parts.push(text.slice(position, start))
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-700/60">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    position = end
+  }
+  if (position < text.length) parts.push(text.slice(position))
+  return <>{parts}</>
+}
+
+// Command palette searching every topic, opened with Ctrl/⌘+K or a
+// `SearchButton`. The documents are built on the server and searched here,
+// so results come as fast as the user types.
+export function SearchProvider({ documents, children }: { documents: SearchDocument[]; children: React.ReactNode }) {
+  const router = useRouter()
+  const t = useTranslations('Search')
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const index = useMemo(() => createSearchIndex(documents), [documents])
+  const results = searchContent(index, query)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setOpen((current) => !current)
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const handleSelect = (href: string) => {
+    setOpen(false)
+    router.push(href)
+  }
+
+  return (
+    <SearchContext.Provider value={() => setOpen(true)}>
+      {children}
+      <CommandDialog
+        open={open}
+        onOpenChange={setOpen}
+        shouldFilter={false}
+        title={t('title')}
+        description={t('description')}
+        className="sm:max-w-2xl"
+      >
+        <CommandInput value={query} onValueChange={setQuery} placeholder={t('placeholder')} dir="auto" />
+        <CommandList className="max-h-[60vh]">
+          <CommandEmpty>
+            {query.trim() ? t('noResults') : t('hint')}
+          </CommandEmpty>
+          {results.length > 0 && (
+            <CommandGroup heading={t('results')}>
+              {results.map(({ document, titleHighlights, subtitleHighlights, snippet }) => (
+                <CommandItem
+                  key={document.href}
+                  value={document.href}
+                  onSelect={handleSelect}
+                  className="flex-col items-stretch gap-1 text-start"
+                >
+                  <div className="flex flex-wrap items-baseline gap-x-2">
+                    <span className="font-bold text-green-900 dark:text-green-100">
+                      <Highlighted text={document.title} ranges={titleHighlights} />
+                    </span>
+                    <span className="text-xs text-muted-foreground" dir="ltr">
+                      <Highlighted text={document.subtitle} ranges={subtitleHighlights} />
+                    </span>
+                  </div>
+                  {document.breadcrumb.length > 0 && (
+                    <span className="text-xs text-muted-foreground">{document.breadcrumb.join(' › ')}</span>
+                  )}
+                  {snippet && (
+                    <p className="text-sm leading-relaxed text-slate-600 dark:text-slate-400">
+                      <Highlighted text={snippet.text} ranges={snippet.highlights} />
+                    </p>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </SearchContext.Provider>
+  )
+}
+
+export function SearchButton() {
+  const openSearch = useContext(SearchContext)
+  const t = useTranslations('Search')
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={openSearch}
+      className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+    >
+      <Search className="h-4 w-4 me-2" />
+      <span className="hidden sm:inline">{t('button')}</span>
+      <kbd className="ms-2 hidden rounded border px-1.5 font-mono text-[0.625rem] text-muted-foreground md:inline">
+        Ctrl K
+      </kbd>
+    </Button>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { ScrollText, Sparkles } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { ContentBlock } from '@/components/content-block'
+import { QuranVersesProvider, TajweedLegend, TajweedRulesProvider } from '@/components/tajweed-text'
+import { WaqfSimulator } from '@/components/waqf-simulator'
+import { useReadingSettings } from '@/hooks/use-reading-settings'
+import { tajweedCategoriesIn, tajweedCategoriesTaughtIn, teachesWaqf } from '@/lib/tajweed'
+import { findQuranReferences, quranReferenceKey } from '@/lib/quran/references'
+import { readingStyle } from '@/lib/typography'
+import { sectionLines, toBlock } from '@/lib/content/blocks'
+import type { CalloutTone, Section, TopicContent } from '@/lib/content/schema'
+import { cn } from '@/lib/utils'
+
+type SectionContentProps = {
+  content: TopicContent
+  basePath: string
+  // Text of the ayat the section cites, keyed by `quranReferenceKey`
+  verses: Record<string, string>
+  chapterId: string
+  section: Section
+}
+
+// Callouts in the content stand out from the paragraphs around them
+const calloutBoxes: Record<CalloutTone, string> = {
+  note: 'text-sky-900 dark:text-sky-200 bg-sky-50 dark:bg-sky-950/30 border-sky-200 dark:border-sky-800',
+  warning: 'text-red-900 dark:text-red-200 bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-800',
+}
+
+// A section's paragraphs, blocks and notes as the reader shows them, with the
+// tajweed colouring, cited ayat and, where the section teaches waqf, the
+// simulator, in the learner's font size and line height. Also the content
+// editor's preview.
+export function SectionContent({ content, basePath, verses, chapterId, section }: SectionContentProps) {
+  const t = useTranslations('Section')
+  const { settings } = useReadingSettings()
+  // Tajweed rules coloured somewhere in the section, for the legend
+  const sectionText = sectionLines(section).join('\n')
+  const citedVerses = findQuranReferences(sectionText).flatMap(({ reference }) =>
+    reference ? (verses[quranReferenceKey(reference)] ?? []) : [],
+  )
+  const sectionCategories = tajweedCategoriesIn([sectionText, ...citedVerses].join('\n'))
+  const sectionHighlight = tajweedCategoriesTaughtIn(chapterId, section.id)
+
+  return (
+    <TajweedRulesProvider content={content} basePath={basePath}>
+      <QuranVersesProvider verses={verses}>
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.2 }}
+          className="space-y-6"
+        >
+          {/* Main Content */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-bold text-green-900 dark:text-green-100 flex items-center gap-2">
+              <ScrollText className="h-5 w-5" />
+              {t('details')}
+            </h3>
+            {sectionCategories.length > 0 && <TajweedLegend categories={sectionCategories} />}
+            <div className="space-y-3">
+              {section.content.map((entry, index) => {
+                const block = toBlock(entry)
+                return (
+                  <motion.div
+                    key={index}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ duration: 0.3, delay: 0.1 * index }}
+                    className={cn(
+                      'text-start p-4 rounded-lg border',
+                      block.type === 'callout'
+                        ? calloutBoxes[block.tone ?? 'note']
+                        : 'text-slate-700 dark:text-slate-300 bg-gradient-to-r rtl:bg-gradient-to-l from-green-50 to-emerald-50 dark:from-green-950/30 dark:to-emerald-950/30 border-green-200 dark:border-green-800',
+                    )}
+                    style={readingStyle(settings)}
+                    dir="auto"
+                  >
+                    <ContentBlock entry={block} highlight={sectionHighlight} />
+                  </motion.div>
+                )
+              })}
+            </div>
+          </div>
+
+          {teachesWaqf(chapterId, section.id) && (
+            <WaqfSimulator content={content} />
+          )}
+
+          {/* Notes Section */}
+          {section.notes && section.notes.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-lg font-bold text-green-900 dark:text-green-100 flex items-center gap-2">
+                <Sparkles className="h-5 w-5" />
+                {t('notes')}
+              </h3>
+              <div className="space-y-2">
+                {section.notes.map((note, index) => (
+                  <motion.div
+                    key={index}
+                    initial={{ opacity: 0, scale: 0.9 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    transition={{ duration: 0.3, delay: 0.1 * index }}
+                    className="flex items-start gap-3 p-4 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800"
+                    dir="auto"
+                  >
+                    <Badge variant="secondary" className="bg-amber-200 text-amber-900 dark:bg-amber-900/50 dark:text-amber-300 shrink-0">
+                      {index + 1}
+                    </Badge>
+                    <div className="flex-1 text-amber-900 dark:text-amber-300" style={readingStyle(settings, 0.9)}>
+                      <ContentBlock entry={note} highlight={sectionHighlight} />
+                    </div>
+                  </motion.div>
+                ))}
+              </div>
+            </div>
+          )}
+        </motion.div>
+      </QuranVersesProvider>
+    </TajweedRulesProvider>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { History, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
+import { diffSections, type DiffLine, type SectionDiff, type SectionRevisionSummary } from '@/lib/content/revisions'
+import type { TopicContent } from '@/lib/content/schema'
+import { cn } from '@/lib/utils'
+
+type SectionHistoryProps = {
+  topicId: string
+  sectionId: string
+  // Restoring replaces the saved text, so it waits until the editor's
+  // changes are saved or discarded
+  canRestore: boolean
+  onRestored: (content: TopicContent) => void
+}
+
+// A section's revisions, any two of them compared paragraph by paragraph,
+// and restoring an earlier one
+export function SectionHistory({ topicId, sectionId, canRestore, onRestored }: SectionHistoryProps) {
+  const [revisions, setRevisions] = useState<SectionRevisionSummary[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<number | null>(null)
+  const [compareWith, setCompareWith] = useState<number | null>(null)
+  const [restoring, setRestoring] = useState(false)
+
+  const url = `/api/admin/content/${topicId}/sections/${sectionId}/revisions`
+
+  // A revision is first compared with the one before it
+  const select = (list: SectionRevisionSummary[], version: number | null) => {
+    setSelected(version)
+    setCompareWith(list.find((revision) => version !== null && revision.version < version)?.version ?? null)
+  }
+
+  // Loaded on every opening, so revisions saved meanwhile show up
+  const load = (open: boolean) => {
+    if (!open) return
+    setRevisions(null)
+    setError(null)
+    fetch(url)
+      .then(async (response) => {
+        const body = await response.json()
+        if (!response.ok) throw new Error(body.error?.join(', '))
+        setRevisions(body)
+        select(body, body[0]?.version ?? null)
+      })
+      .catch(() => setError('تاریخچہ لوڈ نہیں ہو سکا۔'))
+  }
+
+  const restore = async (version: number) => {
+    setRestoring(true)
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ restore: version }),
+      })
+      if (!response.ok) throw new Error()
+      onRestored(await response.json())
+      load(true)
+    } catch {
+      setError('ورژن بحال نہیں ہو سکا۔')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const after = revisions?.find((revision) => revision.version === selected)
+  const before = revisions?.find((revision) => revision.version === compareWith)
+  const diff = after && before ? diffSections(before.section, after.section) : null
+  const latest = revisions?.[0]?.version
+
+  return (
+    <Sheet onOpenChange={load}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="h-4 w-4 me-2" />
+          تاریخچہ
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="end" className="w-full sm:max-w-2xl" dir="rtl">
+        <SheetHeader>
+          <SheetTitle>تاریخچہ: {sectionId}</SheetTitle>
+          <SheetDescription>ہر محفوظ کی گئی تبدیلی ایک نیا ورژن ہے۔</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] px-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {!revisions && !error && <p className="text-sm text-muted-foreground">لوڈ ہو رہا ہے…</p>}
+
+          {revisions && (
+            <div className="space-y-4 pb-6">
+              <ol className="space-y-1">
+                {revisions.map((revision) => (
+                  <li key={revision.version}>
+                    <button
+                      type="button"
+                      onClick={() => select(revisions, revision.version)}
+                      className={cn(
+                        'w-full rounded-md p-2 text-start text-sm',
+                        revision.version === selected
+                          ? 'bg-green-100 dark:bg-green-900/40'
+                          : 'hover:bg-slate-100 dark:hover:bg-slate-800',
+                      )}
+                    >
+                      <span className="font-semibold">ورژن {revision.version}</span>
+                      {revision.version === latest && (
+                        <Badge variant="secondary" className="ms-2">
+                          موجودہ
+                        </Badge>
+                      )}
+                      <span className="block text-xs text-muted-foreground" dir="ltr">
+                        {format(new Date(revision.createdAt), 'yyyy-MM-dd HH:mm')} · {revision.author ?? 'import'}
+                        {revision.message && ` · ${revision.message}`}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+
+              {after && (
+                <div className="space-y-3 rounded-lg border p-3">
+                  <div className="flex flex-wrap items-end gap-3">
+                    <div className="space-y-1">
+                      <Label>موازنہ</Label>
+                      <Select
+                        value={compareWith === null ? '' : String(compareWith)}
+                        onValueChange={(value) => setCompareWith(Number(value))}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue placeholder="ورژن چنیں" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {revisions
+                            .filter((revision) => revision.version !== after.version)
+                            .map((revision) => (
+                              <SelectItem key={revision.version} value={String(revision.version)}>
+                                ورژن {revision.version}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <span className="pb-2 text-sm">← ورژن {after.version}</span>
+                    {after.version !== latest && (
+                      <Button
+                        size="sm"
+                        onClick={() => restore(after.version)}
+                        disabled={!canRestore || restoring}
+                        className="ms-auto bg-green-700 hover:bg-green-800 text-white"
+                      >
+                        <RotateCcw className="h-4 w-4 me-2" />
+                        یہ ورژن بحال کریں
+                      </Button>
+                    )}
+                  </div>
+                  {!canRestore && after.version !== latest && (
+                    <p className="text-xs text-muted-foreground">
+                      بحال کرنے سے پہلے اپنی تبدیلیاں محفوظ کریں یا واپس لیں۔
+                    </p>
+                  )}
+
+                  {diff ? (
+                    <SectionDiffView diff={diff} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">یہ پہلا ورژن ہے۔</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+// What changed between two revisions of a section
+export function SectionDiffView({ diff }: { diff: SectionDiff }) {
+  return (
+    <div className="space-y-3">
+      {diff.fields.map(({ field, before, after }) => (
+        <DiffLines
+          key={field}
+          title={field === 'title' ? 'عنوان' : 'ذیلی عنوان'}
+          lines={[
+            { type: 'removed', text: before },
+            { type: 'added', text: after },
+          ]}
+        />
+      ))}
+      <DiffLines title="تفصیل" lines={diff.content} />
+      <DiffLines title="نوٹس" lines={diff.notes} />
+      {diff.quizChanged && <p className="text-sm">کوئز سوالات بدلے گئے۔</p>}
+      {diff.translationsChanged && <p className="text-sm">ترجمے بدلے گئے۔</p>}
+    </div>
+  )
+}
+
+function DiffLines({ title, lines }: { title: string; lines: DiffLine[] }) {
+  if (lines.length === 0) return null
+  const unchanged = lines.every((line) => line.type === 'same')
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-semibold">
+        {title}
+        {unchanged && <span className="font-normal text-muted-foreground"> (کوئی تبدیلی نہیں)</span>}
+      </p>
+      {!unchanged &&
+        lines.map((line, index) => (
+          <p
+            key={index}
+            className={cn(
+              'rounded px-2 py-1 text-sm leading-relaxed whitespace-pre-line',
+              line.type === 'added' && 'bg-green-100 text-green-900 dark:bg-green-950/50 dark:text-green-200',
+              line.type === 'removed' && 'bg-red-100 text-red-900 line-through dark:bg-red-950/50 dark:text-red-200',
+              line.type === 'same' && 'text-muted-foreground',
+            )}
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '− ' : ''}
+            {line.text}
+          </p>
+        ))}
+    </div>
+  )
+}
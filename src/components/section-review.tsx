@@ -0,0 +1,346 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { ArrowLeft, CheckCircle2, ClipboardList, Eye, MessageSquarePlus, PencilRuler, Send, Undo2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { SectionDiffView } from '@/components/section-history'
+import { UserMenu } from '@/components/user-menu'
+import { toast } from '@/hooks/use-toast'
+import { hasRole, type Role } from '@/lib/auth/roles'
+import { entryMarkup } from '@/lib/content/blocks'
+import { diffSections } from '@/lib/content/revisions'
+import {
+  canChangeStatus,
+  statusNames,
+  type ReviewComment,
+  type SectionReview,
+  type SectionStatus,
+} from '@/lib/content/workflow'
+import { cn } from '@/lib/utils'
+
+const STATUS_STYLES: Record<SectionStatus, string> = {
+  draft: 'bg-slate-200 text-slate-800 dark:bg-slate-800 dark:text-slate-200',
+  review: 'bg-amber-100 text-amber-900 dark:bg-amber-950 dark:text-amber-100',
+  published: 'bg-green-100 text-green-900 dark:bg-green-900/50 dark:text-green-100',
+}
+
+export function SectionStatusBadge({ status }: { status: SectionStatus }) {
+  return (
+    <Badge variant="secondary" className={STATUS_STYLES[status]}>
+      {statusNames[status]}
+    </Badge>
+  )
+}
+
+// The moves offered from each status, in the order they are shown
+const ACTIONS: { from: SectionStatus; to: SectionStatus; label: string; icon: typeof Send }[] = [
+  { from: 'draft', to: 'review', label: 'نظرِ ثانی کے لیے بھیجیں', icon: Send },
+  { from: 'review', to: 'published', label: 'منظور کر کے شائع کریں', icon: CheckCircle2 },
+  { from: 'review', to: 'draft', label: 'مسودے میں واپس بھیجیں', icon: Undo2 },
+]
+
+type SectionReviewerProps = {
+  review: SectionReview
+  role: Role
+  userId: string
+}
+
+// Review of one section's latest revision: its paragraphs with the
+// comments on each, what changed since the published revision, and the
+// workflow moves the user's role allows
+export function SectionReviewer({ review: initialReview, role, userId }: SectionReviewerProps) {
+  const [review, setReview] = useState(initialReview)
+  const [commenting, setCommenting] = useState<number | 'section' | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const { topicId, sectionId, chapterId, current, published } = review
+  const sectionUrl = `/api/admin/content/${topicId}/sections/${sectionId}`
+  const readerPath = `/${topicId}/${chapterId}/${sectionId}`
+
+  // Sends a change and shows the review it answers with
+  const send = async (path: string, method: string, body: unknown): Promise<boolean> => {
+    setBusy(true)
+    try {
+      const response = await fetch(`${sectionUrl}/${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        toast({ variant: 'destructive', title: 'نہیں ہو سکا', description: result.error?.join('، ') })
+        return false
+      }
+      setReview(result)
+      return true
+    } catch {
+      toast({ variant: 'destructive', title: 'سرور سے رابطہ نہیں ہو سکا، دوبارہ کوشش کریں۔' })
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const changeStatus = async (status: SectionStatus) => {
+    if (await send('status', 'PUT', { status, version: review.version })) {
+      toast({ title: statusNames[status], description: `${current.title}، ورژن ${review.version}` })
+    }
+  }
+
+  const addComment = async (paragraph: number | null, body: string) => {
+    if (await send('comments', 'POST', { paragraph, body })) setCommenting(null)
+  }
+
+  const toggleResolved = (comment: ReviewComment) =>
+    send(`comments/${comment.id}`, 'PATCH', { resolved: !comment.resolved })
+
+  // Comments on a paragraph of this revision sit under it; the rest (on
+  // the whole section, or on paragraphs of earlier revisions) below
+  const onParagraph = (index: number) =>
+    review.comments.filter((comment) => comment.version === review.version && comment.paragraph === index)
+  const general = review.comments.filter(
+    (comment) => comment.paragraph === null || comment.version !== review.version,
+  )
+
+  const actions = ACTIONS.filter(({ from, to }) => from === review.status && canChangeStatus(role, from, to))
+  const ownRevision = review.authorId === userId
+  const diff = published && published.version !== review.version ? diffSections(published.section, current) : null
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 dark:from-green-950 dark:via-emerald-950 dark:to-teal-950">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-green-600 to-emerald-700 dark:from-green-500 dark:to-emerald-600 flex items-center justify-center shadow-lg">
+              <ClipboardList className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-green-900 dark:text-green-100">{current.title}</h1>
+              <p className="text-xs text-green-700 dark:text-green-300 hidden sm:block">Review</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <UserMenu />
+            <Link href="/admin/review">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+              >
+                <ArrowLeft className="h-4 w-4 me-2 rtl:rotate-180" />
+                <span className="hidden sm:inline">Queue</span>
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-6 grid gap-4 lg:grid-cols-[1fr_22rem]" dir="rtl">
+        <div className="space-y-4">
+          {/* Text */}
+          <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90">
+            <CardHeader>
+              <CardTitle className="text-2xl font-bold text-green-900 dark:text-green-100">{current.title}</CardTitle>
+              <CardDescription className="text-green-700 dark:text-green-300">{current.subtitle}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {current.content.map((entry, index) => (
+                <div key={index} className="space-y-2">
+                  <div className="group flex gap-3">
+                    <span className="mt-1 w-6 shrink-0 text-xs text-muted-foreground">{index + 1}</span>
+                    {/* Blocks as the editor writes them, so a comment points at what the author sees */}
+                    <p className="flex-1 whitespace-pre-line text-lg leading-relaxed text-slate-800 dark:text-slate-200">
+                      {entryMarkup(entry)}
+                    </p>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setCommenting(index)}
+                      aria-label="تبصرہ کریں"
+                      className="shrink-0 opacity-60 group-hover:opacity-100"
+                    >
+                      <MessageSquarePlus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="ms-9 space-y-2">
+                    {onParagraph(index).map((comment) => (
+                      <CommentItem key={comment.id} comment={comment} disabled={busy} onToggle={toggleResolved} />
+                    ))}
+                    {commenting === index && (
+                      <CommentForm
+                        disabled={busy}
+                        onSubmit={(body) => addComment(index, body)}
+                        onCancel={() => setCommenting(null)}
+                      />
+                    )}
+                  </div>
+                </div>
+              ))}
+              {current.notes.length > 0 && (
+                <div className="space-y-2 rounded-lg bg-green-50 p-4 dark:bg-green-950/40">
+                  <p className="text-sm font-semibold text-green-900 dark:text-green-100">نوٹس</p>
+                  {current.notes.map((note, index) => (
+                    <p key={index} className="whitespace-pre-line text-sm leading-relaxed text-slate-700 dark:text-slate-300">
+                      {entryMarkup(note)}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Comments on the whole section */}
+          <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90">
+            <CardHeader>
+              <CardTitle className="text-lg text-green-900 dark:text-green-100">تبصرے</CardTitle>
+              <CardDescription>پورے حصے پر، یا پچھلے ورژنوں کے پیراگراف پر</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {general.map((comment) => (
+                <CommentItem key={comment.id} comment={comment} disabled={busy} onToggle={toggleResolved} />
+              ))}
+              {commenting === 'section' ? (
+                <CommentForm
+                  disabled={busy}
+                  onSubmit={(body) => addComment(null, body)}
+                  onCancel={() => setCommenting(null)}
+                />
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => setCommenting('section')}>
+                  <MessageSquarePlus className="h-4 w-4 me-2" />
+                  تبصرہ کریں
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-4">
+          {/* Status and workflow */}
+          <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90">
+            <CardHeader className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-lg text-green-900 dark:text-green-100">ورژن {review.version}</CardTitle>
+                <SectionStatusBadge status={review.status} />
+              </div>
+              <CardDescription>{review.author ?? 'import'}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {actions.map(({ to, label, icon: Icon }) => (
+                <Button
+                  key={to}
+                  onClick={() => changeStatus(to)}
+                  disabled={busy || (to === 'published' && ownRevision)}
+                  variant={to === 'draft' ? 'outline' : 'default'}
+                  className={cn('w-full', to !== 'draft' && 'bg-green-700 hover:bg-green-800 text-white')}
+                >
+                  <Icon className="h-4 w-4 me-2" />
+                  {label}
+                </Button>
+              ))}
+              {review.status === 'review' && ownRevision && (
+                <p className="text-xs text-muted-foreground">اپنا لکھا ہوا ورژن کوئی اور استاد منظور کرے گا۔</p>
+              )}
+              <a href={`/api/preview?${new URLSearchParams({ path: readerPath })}`} target="_blank" rel="noopener">
+                <Button variant="outline" className="w-full">
+                  <Eye className="h-4 w-4 me-2" />
+                  ریڈر میں دیکھیں
+                </Button>
+              </a>
+              {hasRole(role, 'editor') && (
+                <Link href={`/admin/${topicId}`}>
+                  <Button variant="outline" className="w-full">
+                    <PencilRuler className="h-4 w-4 me-2" />
+                    تدوین کریں
+                  </Button>
+                </Link>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Changes since the published revision */}
+          <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90">
+            <CardHeader>
+              <CardTitle className="text-lg text-green-900 dark:text-green-100">شائع شدہ متن سے فرق</CardTitle>
+              {published && (
+                <CardDescription>طلبہ ورژن {published.version} دیکھ رہے ہیں</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              {!published ? (
+                <p className="text-sm text-muted-foreground">یہ حصہ ابھی تک شائع نہیں ہوا۔</p>
+              ) : diff ? (
+                <SectionDiffView diff={diff} />
+              ) : (
+                <p className="text-sm text-muted-foreground">یہی ورژن شائع شدہ ہے۔</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
+
+type CommentItemProps = {
+  comment: ReviewComment
+  disabled: boolean
+  onToggle: (comment: ReviewComment) => void
+}
+
+function CommentItem({ comment, disabled, onToggle }: CommentItemProps) {
+  return (
+    <div
+      className={cn(
+        'rounded-md border border-amber-200 bg-amber-50 p-3 text-sm dark:border-amber-900 dark:bg-amber-950/40',
+        comment.resolved && 'opacity-60',
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {comment.author} · <span dir="ltr">{format(new Date(comment.createdAt), 'yyyy-MM-dd HH:mm')}</span>
+          {comment.paragraph !== null && ` · ورژن ${comment.version}، پیراگراف ${comment.paragraph + 1}`}
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => onToggle(comment)} disabled={disabled} className="h-auto py-1">
+          {comment.resolved ? 'دوبارہ کھولیں' : 'حل ہو گیا'}
+        </Button>
+      </div>
+      <p className={cn('mt-1 whitespace-pre-line', comment.resolved && 'line-through')}>{comment.body}</p>
+    </div>
+  )
+}
+
+type CommentFormProps = {
+  disabled: boolean
+  onSubmit: (body: string) => void
+  onCancel: () => void
+}
+
+function CommentForm({ disabled, onSubmit, onCancel }: CommentFormProps) {
+  const [body, setBody] = useState('')
+
+  return (
+    <div className="space-y-2">
+      <Textarea value={body} onChange={(event) => setBody(event.target.value)} rows={3} autoFocus />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => onSubmit(body)}
+          disabled={disabled || !body.trim()}
+          className="bg-green-700 hover:bg-green-800 text-white"
+        >
+          تبصرہ شامل کریں
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          منسوخ
+        </Button>
+      </div>
+    </div>
+  )
+}
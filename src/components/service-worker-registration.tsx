@@ -0,0 +1,31 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// Registers public/sw.js, and asks it on every visit and on coming back
+// online to check for new content. Not under `next dev`, where cached pages
+// would hide code changes.
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+
+    const update = () => {
+      navigator.serviceWorker.ready
+        .then((registration) => registration.active?.postMessage({ type: 'update' }))
+        .catch(() => {})
+    }
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(update)
+      .catch((error) => console.warn('Service worker not registered:', String(error)))
+    window.addEventListener('online', update)
+    return () => window.removeEventListener('online', update)
+  }, [])
+
+  return null
+}
+
+// Drops the cached pages, e.g. on signing out
+export function clearOfflineCache() {
+  if ('serviceWorker' in navigator) navigator.serviceWorker.controller?.postMessage({ type: 'clear' })
+}
@@ -0,0 +1,260 @@
+'use client'
+
+import { createContext, useContext, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { Badge } from '@/components/ui/badge'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { ScriptRunText } from '@/components/script-text'
+import {
+  TAJWEED_CATEGORIES,
+  explainTajweedCategory,
+  segmentTajweed,
+  tajweedCategoryInfo,
+  type TajweedCategory,
+  type TajweedExplanation,
+} from '@/lib/tajweed'
+import type { TopicContent } from '@/lib/content/schema'
+import {
+  findQuranReferences,
+  formatQuranReference,
+  quranComUrl,
+  quranReferenceKey,
+  type QuranReference,
+} from '@/lib/quran/references'
+import { scriptRuns, type ScriptRun } from '@/lib/typography'
+import { cn } from '@/lib/utils'
+
+// Rule colours, close to the colour-coded mushaf
+const categoryColors: Record<TajweedCategory, { text: string; swatch: string; highlight: string }> = {
+  madd: { text: 'text-red-600 dark:text-red-400', swatch: 'bg-red-600 dark:bg-red-400', highlight: 'bg-red-100 dark:bg-red-900/40' },
+  iqlab: { text: 'text-fuchsia-600 dark:text-fuchsia-400', swatch: 'bg-fuchsia-600 dark:bg-fuchsia-400', highlight: 'bg-fuchsia-100 dark:bg-fuchsia-900/40' },
+  idgham: { text: 'text-slate-400 dark:text-slate-500', swatch: 'bg-slate-400 dark:bg-slate-500', highlight: 'bg-slate-200 dark:bg-slate-800' },
+  ikhfa: { text: 'text-orange-500 dark:text-orange-400', swatch: 'bg-orange-500 dark:bg-orange-400', highlight: 'bg-orange-100 dark:bg-orange-900/40' },
+  ghunnah: { text: 'text-green-600 dark:text-green-400', swatch: 'bg-green-600 dark:bg-green-400', highlight: 'bg-green-100 dark:bg-green-900/40' },
+  qalqalah: { text: 'text-sky-600 dark:text-sky-400', swatch: 'bg-sky-600 dark:bg-sky-400', highlight: 'bg-sky-100 dark:bg-sky-900/40' },
+  tafkheem: { text: 'text-blue-900 dark:text-blue-300', swatch: 'bg-blue-900 dark:bg-blue-300', highlight: 'bg-blue-100 dark:bg-blue-900/40' },
+}
+
+type RuleExplanations = Partial<Record<TajweedCategory, TajweedExplanation & { href: string }>>
+
+const TajweedRulesContext = createContext<RuleExplanations>({})
+
+// Supplies the rule explanations shown in tooltips, taken from the topic's
+// own sections
+export function TajweedRulesProvider({
+  content,
+  basePath,
+  children,
+}: {
+  content: TopicContent
+  basePath: string
+  children: React.ReactNode
+}) {
+  const explanations = useMemo(() => {
+    const result: RuleExplanations = {}
+    for (const category of TAJWEED_CATEGORIES) {
+      const explanation = explainTajweedCategory(content, category)
+      if (explanation) {
+        result[category] = {
+          ...explanation,
+          href: `${basePath}/${explanation.chapterId}/${explanation.sectionId}`,
+        }
+      }
+    }
+    return result
+  }, [content, basePath])
+
+  return <TajweedRulesContext.Provider value={explanations}>{children}</TajweedRulesContext.Provider>
+}
+
+function RuleMark({
+  text,
+  categories,
+  details,
+  counts,
+  highlighted,
+}: {
+  text: string
+  categories: TajweedCategory[]
+  details: string[]
+  counts?: number
+  highlighted?: TajweedCategory
+}) {
+  const t = useTranslations('Tajweed')
+  const explanations = useContext(TajweedRulesContext)
+  const [open, setOpen] = useState(false)
+  const shown = highlighted ?? categories[0]
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      {/* No padding, margin or border here: anything that breaks the inline
+          run would also break the joined letter forms */}
+      <PopoverTrigger asChild>
+        <span
+          role="button"
+          tabIndex={0}
+          className={cn(
+            'cursor-help',
+            categoryColors[shown].text,
+            highlighted && categoryColors[shown].highlight,
+            counts !== undefined && counts > 2 && 'relative',
+          )}
+          onMouseEnter={() => setOpen(true)}
+          onMouseLeave={() => setOpen(false)}
+        >
+          {text}
+          {/* Hold-for badge on lengthened (far'i) madd, positioned out of the
+              text flow so the letters stay joined */}
+          {counts !== undefined && counts > 2 && (
+            <span
+              aria-hidden
+              className="pointer-events-none absolute -top-3 left-1/2 -translate-x-1/2 rounded bg-red-600 px-1 font-sans text-[0.625rem] leading-tight text-white dark:bg-red-400 dark:text-red-950"
+            >
+              {counts}
+            </span>
+          )}
+        </span>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" dir="rtl" onMouseEnter={() => setOpen(true)} onMouseLeave={() => setOpen(false)}>
+        {details.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {details.map((detail) => (
+              <Badge key={detail} variant="secondary">
+                {detail}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {categories.map((category) => {
+          const explanation = explanations[category]
+          return (
+            <div key={category} className="space-y-1">
+              <div className="flex items-center gap-2 font-bold">
+                <TajweedSwatch category={category} />
+                {tajweedCategoryInfo[category].name}
+                <span className="text-xs font-normal text-muted-foreground" dir="ltr">
+                  {tajweedCategoryInfo[category].english}
+                </span>
+              </div>
+              {explanation && (
+                <>
+                  <p className="text-sm leading-relaxed">{explanation.text}</p>
+                  <Link href={explanation.href} className="text-xs text-green-700 underline dark:text-green-300">
+                    {t('readRule')}
+                  </Link>
+                </>
+              )}
+            </div>
+          )
+        })}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+// Text of the ayat a topic cites, keyed by `quranReferenceKey`. Resolved on
+// the server so the mushaf is not shipped to the browser.
+const QuranVersesContext = createContext<Record<string, string>>({})
+
+export function QuranVersesProvider({ verses, children }: { verses: Record<string, string>; children: React.ReactNode }) {
+  return <QuranVersesContext.Provider value={verses}>{children}</QuranVersesContext.Provider>
+}
+
+function TajweedSegments({ text, highlight }: { text: string; highlight: TajweedCategory[] }) {
+  return segmentTajweed(text).map((segment, index) =>
+    segment.categories.length > 0 ? (
+      <RuleMark
+        key={index}
+        text={segment.text}
+        categories={segment.categories}
+        details={segment.details}
+        counts={segment.counts}
+        highlighted={segment.categories.find((category) => highlight.includes(category))}
+      />
+    ) : (
+      segment.text
+    ),
+  )
+}
+
+// A {{14:4}} reference: the ayat on a line of their own, analyzed like any
+// other Arabic, followed by a link to the ayah on quran.com. Sized relative
+// to the paragraph, so it follows the reader's font size.
+function QuranCitation({ reference, highlight }: { reference: QuranReference; highlight: TajweedCategory[] }) {
+  const verses = useContext(QuranVersesContext)
+  const text = verses[quranReferenceKey(reference)]
+
+  return (
+    <span className="my-2 block text-center">
+      {text && (
+        <span lang="ar" dir="rtl" className="font-quran block text-[1.5em] leading-loose">
+          <TajweedSegments text={text} highlight={highlight} />
+        </span>
+      )}
+      <a
+        href={quranComUrl(reference)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-green-700 underline dark:text-green-300"
+      >
+        ({formatQuranReference(reference)})
+      </a>
+    </span>
+  )
+}
+
+type TextPart = ScriptRun | { text: string; reference: QuranReference }
+
+// Renders text with every vocalized Arabic stretch colour-coded by tajweed
+// rule and set in the Quranic font, the surrounding (unvocalized) Urdu or
+// Arabic in its own font, and {{14:4}} references replaced by the ayat they
+// cite. Letters under a
+// `highlight` rule take that rule's colour and a background, so the section
+// teaching a rule picks out its own examples.
+export function TajweedText({ text, highlight = [] }: { text: string; highlight?: TajweedCategory[] }) {
+  const parts = useMemo(() => {
+    const result: TextPart[] = []
+    let position = 0
+    // Unresolvable references stay as written; `content:validate` reports them
+    for (const { start, end, raw, reference } of findQuranReferences(text)) {
+      if (!reference) continue
+      result.push(...scriptRuns(text.slice(position, start)), { text: raw, reference })
+      position = end
+    }
+    result.push(...scriptRuns(text.slice(position)))
+    return result
+  }, [text])
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        'reference' in part ? (
+          <QuranCitation key={index} reference={part.reference} highlight={highlight} />
+        ) : (
+          <ScriptRunText key={index} run={part}>
+            {part.script === 'quran' ? <TajweedSegments text={part.text} highlight={highlight} /> : undefined}
+          </ScriptRunText>
+        ),
+      )}
+    </>
+  )
+}
+
+// The colour a rule is shown in
+export function TajweedSwatch({ category }: { category: TajweedCategory }) {
+  return <span className={cn('h-3 w-3 shrink-0 rounded-full', categoryColors[category].swatch)} />
+}
+
+export function TajweedLegend({ categories }: { categories: TajweedCategory[] }) {
+  return (
+    <div className="flex flex-wrap gap-3" dir="rtl">
+      {categories.map((category) => (
+        <span key={category} className="flex items-center gap-1.5 text-sm text-slate-700 dark:text-slate-300">
+          <TajweedSwatch category={category} />
+          {tajweedCategoryInfo[category].name}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+'use client'
+
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { ArrowRight, Library, Youtube } from 'lucide-react'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { iconMap } from '@/components/topic-icons'
+import { SearchButton } from '@/components/search-command'
+import { ReviewButton } from '@/components/flashcard-review'
+import { LetterChartButton } from '@/components/letter-chart'
+import { UserMenu } from '@/components/user-menu'
+import { LanguageSwitcher } from '@/components/language-switcher'
+import { OfflineIndicator } from '@/components/offline-indicator'
+import type { Topic } from '@/lib/content/schema'
+
+// Animation variants
+const containerVariants = {
+  hidden: { opacity: 0, x: 20 },
+  visible: {
+    opacity: 1,
+    x: 0,
+    transition: {
+      staggerChildren: 0.1,
+      delayChildren: 0.2
+    }
+  }
+}
+
+const itemVariants = {
+  hidden: { opacity: 0, x: 20 },
+  visible: {
+    opacity: 1,
+    x: 0,
+    transition: {
+      duration: 0.3
+    }
+  }
+}
+
+type TopicHubProps = {
+  title: string
+  subtitle: string
+  description: string
+  topics: Topic[]
+}
+
+// Landing page listing every topic from topics-list.json
+export function TopicHub({ title, subtitle, description, topics }: TopicHubProps) {
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 dark:from-green-950 dark:via-emerald-950 dark:to-teal-950">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            transition={{ duration: 0.3 }}
+            className="flex items-center gap-3"
+          >
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-green-600 to-emerald-700 dark:from-green-500 dark:to-emerald-600 flex items-center justify-center shadow-lg">
+              <Library className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-green-900 dark:text-green-100">
+                {title}
+              </h1>
+              <p className="text-xs text-green-700 dark:text-green-300 hidden sm:block">
+                {subtitle}
+              </p>
+            </div>
+          </motion.div>
+          <div className="flex items-center gap-2">
+            <OfflineIndicator />
+            <SearchButton />
+            <ReviewButton />
+            <LetterChartButton />
+            <LanguageSwitcher />
+            <UserMenu />
+            <a
+              href="https://www.youtube.com/@Lets_Learn_Quran_ZA"
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+              >
+                <Youtube className="h-4 w-4 me-2" />
+                <span className="hidden sm:inline">YouTube</span>
+              </Button>
+            </a>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-6 space-y-6">
+        <Card className="border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 backdrop-blur">
+          <CardHeader className="text-center pb-4">
+            <motion.div
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="w-20 h-20 mx-auto mb-4 rounded-full bg-gradient-to-br from-green-600 to-emerald-700 dark:from-green-500 dark:to-emerald-600 flex items-center justify-center shadow-xl"
+            >
+              <Library className="h-10 w-10 text-white" />
+            </motion.div>
+            <CardTitle className="text-3xl font-bold text-green-900 dark:text-green-100 mb-2">
+              {subtitle}
+            </CardTitle>
+            <CardDescription className="text-base text-green-700 dark:text-green-300 max-w-2xl mx-auto">
+              {description}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+
+        <motion.div
+          variants={containerVariants}
+          initial="hidden"
+          animate="visible"
+          className="grid gap-4 md:grid-cols-2 xl:grid-cols-3"
+        >
+          {topics.map((topic) => {
+            const Icon = iconMap[topic.icon]
+            return (
+              <motion.div
+                key={topic.id}
+                variants={itemVariants}
+                className="group"
+              >
+                <Link href={topic.route} className="block h-full">
+                  <motion.div
+                    whileHover={{ scale: 1.02, y: -2 }}
+                    whileTap={{ scale: 0.98 }}
+                    className="h-full"
+                  >
+                    <Card className="h-full border-2 border-green-200 dark:border-green-800 bg-white/90 dark:bg-slate-900/90 backdrop-blur transition-all duration-300 hover:shadow-xl hover:border-green-400 dark:hover:border-green-600">
+                      <CardHeader>
+                        <div className="flex items-start gap-4">
+                          <motion.div
+                            whileHover={{ rotate: 5 }}
+                            className="p-3 rounded-xl bg-gradient-to-br from-green-100 to-emerald-200 dark:from-green-900/50 dark:to-emerald-900/50"
+                          >
+                            <Icon className="h-6 w-6 text-green-700 dark:text-green-300" />
+                          </motion.div>
+                          <div className="flex-1">
+                            <CardTitle className="text-xl font-bold text-green-900 dark:text-green-100 mb-1">
+                              {topic.title}
+                            </CardTitle>
+                            <CardDescription className="text-green-700 dark:text-green-300">
+                              {topic.subtitle}
+                            </CardDescription>
+                            <p className="mt-3 text-sm text-slate-600 dark:text-slate-400" dir="auto">
+                              {topic.description}
+                            </p>
+                          </div>
+                          <ArrowRight className="h-5 w-5 rtl:rotate-180 text-green-600 dark:text-green-400 opacity-0 group-hover:opacity-100 transition-opacity" />
+                        </div>
+                      </CardHeader>
+                    </Card>
+                  </motion.div>
+                </Link>
+              </motion.div>
+            )
+          })}
+        </motion.div>
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t border-green-200 dark:border-green-800 bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4 text-center">
+          <p className="text-sm text-green-700 dark:text-green-300">
+            {title}
+          </p>
+        </div>
+      </footer>
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import type { ComponentType } from 'react'
+import { BookOpen, MapPin, Sparkles, Clock, Pause, Scale } from 'lucide-react'
+import type { IconKey } from '@/lib/content/schema'
+
+type IconComponent = ComponentType<{ className?: string }>
+
+const letterIcon = (letter: string): IconComponent =>
+  function LetterIcon({ className }) {
+    return <div className={`flex items-center justify-center ${className}`}>{letter}</div>
+  }
+
+// Icon mapping for the `icon` field of chapters and topics
+export const iconMap: Record<IconKey, IconComponent> = {
+  BookOpen,
+  MapPin,
+  Sparkles,
+  Clock,
+  Pause,
+  Scale,
+  N: letterIcon('ن'),
+  M: letterIcon('م'),
+  A: letterIcon('ء'),
+}
@@ -3,44 +3,42 @@
 import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import Link from 'next/link'
+import { useParams, useRouter, useSelectedLayoutSegments } from 'next/navigation'
+import { useTranslations } from 'next-intl'
 import {
   BookOpen,
-  MapPin,
-  Sparkles,
-  Clock,
-  Pause,
   X,
   Menu,
   ChevronRight,
   Home,
+  ArrowLeft,
   ArrowRight,
   ScrollText,
   Info,
   Youtube,
-  Scale
+  ClipboardCheck,
+  PlayCircle
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
 import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
 import { useIsMobile } from '@/hooks/use-mobile'
-
-// Import Fiqh content
-import fiqhContent from '@/data/fiqh-content.json'
-
-// Icon mapping
-const iconMap: Record<string, any> = {
-  BookOpen,
-  MapPin,
-  Sparkles,
-  N: ({ className }: { className?: string }) => <div className={`flex items-center justify-center ${className}`}>ن</div>,
-  M: ({ className }: { className?: string }) => <div className={`flex items-center justify-center ${className}`}>م</div>,
-  Clock,
-  Pause,
-  A: ({ className }: { className?: string }) => <div className={`flex items-center justify-center ${className}`}>ء</div>,
-  Scale,
-}
+import { useTopicProgress } from '@/hooks/use-topic-progress'
+import { iconMap } from '@/components/topic-icons'
+import { useStartSign } from '@/components/direction-provider'
+import { SectionContent } from '@/components/section-content'
+import { SearchButton } from '@/components/search-command'
+import { ReviewButton } from '@/components/flashcard-review'
+import { LetterChartButton } from '@/components/letter-chart'
+import { UserMenu } from '@/components/user-menu'
+import { LanguageSwitcher } from '@/components/language-switcher'
+import { OfflineIndicator } from '@/components/offline-indicator'
+import { ReadingSettingsButton } from '@/components/reading-settings'
+import { QUIZ_SEGMENT, type TopicContent } from '@/lib/content/schema'
+import { chapterCompletion } from '@/lib/progress/topic-progress'
 
 // Animation variants
 const containerVariants = {
@@ -66,8 +64,10 @@ const itemVariants = {
   }
 }
 
+// Slide in from the start of the line: pass the sign from `useStartSign`
+// as the motion `custom` prop
 const sidebarItemVariants = {
-  hidden: { opacity: 0, x: -20 },
+  hidden: (startSign: number) => ({ opacity: 0, x: 20 * startSign }),
   visible: {
     opacity: 1,
     x: 0,
@@ -77,33 +77,64 @@ const sidebarItemVariants = {
   }
 }
 
-export default function TajweedApp() {
-  const [selectedChapter, setSelectedChapter] = useState<string | null>(null)
-  const [selectedSection, setSelectedSection] = useState<string | null>(null)
+type TopicReaderProps = {
+  topicId: string
+  content: TopicContent
+  // Route of the topic, e.g. `/tajweed`; chapters and sections live below it
+  basePath: string
+  // Text of the ayat the content cites with {{surah:ayah}}, from `versesCitedIn`
+  verses: Record<string, string>
+  // Chapters with a quiz page (`/tajweed/[chapter]/quiz`)
+  quizChapters: string[]
+  // The page below the layout; only the quiz page renders anything
+  children: React.ReactNode
+}
+
+// Reader for a single topic: chapter index, chapter detail and section detail.
+// The selected chapter and section come from the URL
+// (`/tajweed/[chapter]/[section]`), so positions can be shared, survive a
+// refresh and work with the browser's back and forward buttons.
+export function TopicReader({ topicId, content, basePath, verses, quizChapters, children }: TopicReaderProps) {
+  const router = useRouter()
+  const t = useTranslations('Reader')
+  const tNavigation = useTranslations('Navigation')
+  const params = useParams<{ chapter?: string; section?: string }>()
+  const selectedChapter = params.chapter ?? null
+  const selectedSection = params.section ?? null
+  const quizOpen = useSelectedLayoutSegments()[1] === QUIZ_SEGMENT
   const [sidebarOpen, setSidebarOpen] = useState(true)
   const isMobile = useIsMobile()
+  const startSign = useStartSign()
+  const { progress, markSectionRead } = useTopicProgress(topicId)
 
   // Auto-close sidebar on mobile when a chapter is selected
   const sidebarShouldBeOpen = !isMobile || !selectedChapter
   const isSidebarOpen = sidebarOpen ? sidebarShouldBeOpen : false
 
   const handleChapterClick = (chapterId: string) => {
-    setSelectedChapter(chapterId)
-    setSelectedSection(null)
+    router.push(`${basePath}/${chapterId}`)
     if (isMobile) {
       setSidebarOpen(false)
     }
   }
 
   const handleSectionClick = (sectionId: string) => {
-    setSelectedSection(sectionId)
+    router.push(`${basePath}/${selectedChapter}/${sectionId}`)
+  }
+
+  const handleBackToHome = () => {
+    router.push(basePath)
   }
 
   const handleBackToChapters = () => {
-    setSelectedSection(null)
+    router.push(`${basePath}/${selectedChapter}`)
+  }
+
+  const handleQuizClick = () => {
+    router.push(`${basePath}/${selectedChapter}/${QUIZ_SEGMENT}`)
   }
 
-  const selectedChapterData = fiqhContent.chapters.find(
+  const selectedChapterData = content.chapters.find(
     (ch) => ch.id === selectedChapter
   )
 
@@ -111,8 +142,17 @@ export default function TajweedApp() {
     (sec) => sec.id === selectedSection
   )
 
+  // Opening a section counts as reading it
+  useEffect(() => {
+    if (selectedChapter && selectedSection && selectedSectionData) markSectionRead(selectedChapter, selectedSection)
+  }, [selectedChapter, selectedSection, selectedSectionData, markSectionRead])
+
+  // Where the learner left off, if that section still exists
+  const lastReadChapter = content.chapters.find((chapter) => chapter.id === progress.lastRead?.chapterId)
+  const lastReadSection = lastReadChapter?.sections.find((section) => section.id === progress.lastRead?.sectionId)
+
   // Sort chapters by order
-  const sortedChapters = [...fiqhContent.chapters].sort((a, b) => a.order - b.order)
+  const sortedChapters = [...content.chapters].sort((a, b) => a.order - b.order)
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 dark:from-green-950 dark:via-emerald-950 dark:to-teal-950">
@@ -139,15 +179,22 @@ export default function TajweedApp() {
               </div>
               <div>
                 <h1 className="text-xl font-bold text-green-900 dark:text-green-100">
-                  {fiqhContent.meta.title}
+                  {content.meta.title}
                 </h1>
                 <p className="text-xs text-green-700 dark:text-green-300 hidden sm:block">
-                  {fiqhContent.meta.subtitle}
+                  {content.meta.subtitle}
                 </p>
               </div>
             </motion.div>
           </div>
           <div className="flex items-center gap-2">
+            <OfflineIndicator />
+            <SearchButton />
+            <ReviewButton />
+            <LetterChartButton />
+            <ReadingSettingsButton />
+            <LanguageSwitcher />
+            <UserMenu />
             <a
               href="https://www.youtube.com/@Lets_Learn_Quran_ZA"
               target="_blank"
@@ -158,7 +205,7 @@ export default function TajweedApp() {
                 size="sm"
                 className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
               >
-                <Youtube className="h-4 w-4 mr-2" />
+                <Youtube className="h-4 w-4 me-2" />
                 <span className="hidden sm:inline">YouTube</span>
               </Button>
             </a>
@@ -168,8 +215,8 @@ export default function TajweedApp() {
                 size="sm"
                 className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
               >
-                <Home className="h-4 w-4 mr-2" />
-                <span className="hidden sm:inline">Home</span>
+                <Home className="h-4 w-4 me-2" />
+                <span className="hidden sm:inline">{tNavigation('home')}</span>
               </Button>
             </Link>
           </div>
@@ -196,16 +243,16 @@ export default function TajweedApp() {
           <AnimatePresence>
             {isSidebarOpen && (
               <motion.aside
-                initial={{ x: -300, opacity: 0 }}
+                initial={{ x: 300 * startSign, opacity: 0 }}
                 animate={{ x: 0, opacity: 1 }}
-                exit={{ x: -300, opacity: 0 }}
+                exit={{ x: 300 * startSign, opacity: 0 }}
                 transition={{ duration: 0.3 }}
-                className={`fixed lg:relative z-50 lg:z-auto w-80 lg:min-h-[calc(100vh-8rem)] lg:max-h-[calc(100vh-8rem)] bg-white dark:bg-slate-900 rounded-xl shadow-xl lg:shadow-lg border-2 lg:border border-green-200 dark:border-green-800 ${isMobile ? 'top-16 left-0 h-[calc(100vh-4rem)]' : ''}`}
+                className={`fixed lg:relative z-50 lg:z-auto w-80 lg:min-h-[calc(100vh-8rem)] lg:max-h-[calc(100vh-8rem)] bg-white dark:bg-slate-900 rounded-xl shadow-xl lg:shadow-lg border-2 lg:border border-green-200 dark:border-green-800 ${isMobile ? 'top-16 start-0 h-[calc(100vh-4rem)]' : ''}`}
               >
                 <div className="p-4 flex flex-col h-full lg:min-h-full lg:max-h-full">
                   <div className="flex items-center justify-between mb-4 shrink-0">
                     <h2 className="text-lg font-bold text-green-900 dark:text-green-100">
-                      فہرست
+                      {t('contents')}
                     </h2>
                     <Button
                       variant="ghost"
@@ -226,14 +273,16 @@ export default function TajweedApp() {
                     >
                       {sortedChapters.map((chapter) => {
                         const Icon = iconMap[chapter.icon]
+                        const completion = chapterCompletion(chapter, progress.readSections)
                         return (
                           <motion.button
                             key={chapter.id}
                             variants={sidebarItemVariants}
+                            custom={startSign}
                             onClick={() => handleChapterClick(chapter.id)}
-                            className={`w-full text-right p-3 rounded-lg transition-all duration-200 flex items-center gap-3 group ${
+                            className={`w-full text-start p-3 rounded-lg transition-all duration-200 flex items-center gap-3 group ${
                               selectedChapter === chapter.id
-                                ? 'bg-gradient-to-l from-green-600 to-emerald-700 text-white shadow-md'
+                                ? 'bg-gradient-to-r rtl:bg-gradient-to-l from-green-600 to-emerald-700 text-white shadow-md'
                                 : 'bg-slate-100 dark:bg-slate-800 hover:bg-green-100 dark:hover:bg-green-900/30 text-slate-700 dark:text-slate-300'
                             }`}
                           >
@@ -253,9 +302,18 @@ export default function TajweedApp() {
                               <div className="text-xs opacity-80">
                                 {chapter.subtitle}
                               </div>
+                              <div className="mt-1.5 flex items-center gap-2">
+                                <Progress
+                                  value={completion}
+                                  className={`h-1.5 flex-1 ${selectedChapter === chapter.id ? 'bg-white/30 [&>[data-slot=progress-indicator]]:bg-white' : ''}`}
+                                />
+                                <span className="text-xs opacity-80" dir="ltr">
+                                  {completion}%
+                                </span>
+                              </div>
                             </div>
                             {selectedChapter === chapter.id && (
-                              <ChevronRight className="h-4 w-4" />
+                              <ChevronRight className="h-4 w-4 rtl:rotate-180" />
                             )}
                           </motion.button>
                         )
@@ -296,12 +354,23 @@ export default function TajweedApp() {
                         <BookOpen className="h-10 w-10 text-white" />
                       </motion.div>
                       <CardTitle className="text-3xl font-bold text-green-900 dark:text-green-100 mb-2">
-                        {fiqhContent.meta.title}
+                        {content.meta.title}
                       </CardTitle>
                       <CardDescription className="text-base text-green-700 dark:text-green-300 max-w-2xl mx-auto">
-                        {fiqhContent.meta.description}
+                        {content.meta.description}
                       </CardDescription>
                     </CardHeader>
+                    {lastReadChapter && lastReadSection && (
+                      <CardContent className="flex justify-center">
+                        <Button
+                          onClick={() => router.push(`${basePath}/${lastReadChapter.id}/${lastReadSection.id}`)}
+                          className="bg-green-700 hover:bg-green-800 text-white"
+                        >
+                          <PlayCircle className="h-4 w-4 me-2" />
+                          {t('continue', { section: lastReadSection.title })}
+                        </Button>
+                      </CardContent>
+                    )}
                   </Card>
 
                   <motion.div
@@ -341,13 +410,13 @@ export default function TajweedApp() {
                                       {chapter.subtitle}
                                     </CardDescription>
                                   </div>
-                                  <ArrowRight className="h-5 w-5 text-green-600 dark:text-green-400 opacity-0 group-hover:opacity-100 transition-opacity" />
+                                  <ArrowRight className="h-5 w-5 rtl:rotate-180 text-green-600 dark:text-green-400 opacity-0 group-hover:opacity-100 transition-opacity" />
                                 </div>
                               </CardHeader>
                               <CardContent>
                                 <div className="flex flex-wrap gap-2">
                                   <Badge variant="secondary" className="bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-900/50 dark:text-green-300">
-                                    {chapter.sections.length} موضوعات
+                                    {t('sectionCount', { count: chapter.sections.length })}
                                   </Badge>
                                 </div>
                               </CardContent>
@@ -358,6 +427,17 @@ export default function TajweedApp() {
                     })}
                   </motion.div>
                 </motion.div>
+              ) : selectedChapterData && quizOpen ? (
+                // Chapter Quiz, rendered by the quiz page
+                <motion.div
+                  key={`${selectedChapter}-quiz`}
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                  transition={{ duration: 0.3 }}
+                >
+                  {children}
+                </motion.div>
               ) : selectedChapterData && !selectedSection ? (
                 // Chapter Detail - All Sections
                 <motion.div
@@ -387,15 +467,23 @@ export default function TajweedApp() {
                             {selectedChapterData.subtitle}
                           </CardDescription>
                         </div>
-                        <Link href="/">
+                        {selectedChapter && quizChapters.includes(selectedChapter) && (
                           <Button
-                            variant="outline"
-                            className="border-green-300 text-green-700 hover:bg-green-100 dark:border-green-700 dark:text-green-300 dark:hover:bg-green-900/30"
+                            onClick={handleQuizClick}
+                            className="bg-green-700 hover:bg-green-800 text-white"
                           >
-                            <ArrowRight className="h-4 w-4 mr-2 rotate-180" />
-                            واپس
+                            <ClipboardCheck className="h-4 w-4 me-2" />
+                            {t('quiz')}
                           </Button>
-                        </Link>
+                        )}
+                        <Button
+                          variant="outline"
+                          onClick={handleBackToHome}
+                          className="border-green-300 text-green-700 hover:bg-green-100 dark:border-green-700 dark:text-green-300 dark:hover:bg-green-900/30"
+                        >
+                          <ArrowLeft className="h-4 w-4 me-2 rtl:rotate-180" />
+                          {t('back')}
+                        </Button>
                       </div>
                     </CardHeader>
                   </Card>
@@ -428,7 +516,7 @@ export default function TajweedApp() {
                                     {section.subtitle}
                                   </CardDescription>
                                 </div>
-                                <ArrowRight className="h-6 w-6 text-green-600 dark:text-green-400" />
+                                <ArrowRight className="h-6 w-6 rtl:rotate-180 text-green-600 dark:text-green-400" />
                               </div>
                             </CardHeader>
                           </Card>
@@ -448,16 +536,15 @@ export default function TajweedApp() {
                   className="space-y-6"
                 >
                   <div className="flex items-center gap-2">
-                    <Link href="/">
-                      <Button
-                        variant="outline"
-                        className="border-green-300 text-green-700 hover:bg-green-100 dark:border-green-700 dark:text-green-300 dark:hover:bg-green-900/30"
-                      >
-                        <ArrowRight className="h-4 w-4 mr-2 rotate-180" />
-                        ہوم
-                      </Button>
-                    </Link>
-                    <ArrowRight className="h-4 w-4 text-green-600 dark:text-green-400" />
+                    <Button
+                      variant="outline"
+                      onClick={handleBackToHome}
+                      className="border-green-300 text-green-700 hover:bg-green-100 dark:border-green-700 dark:text-green-300 dark:hover:bg-green-900/30"
+                    >
+                      <ArrowLeft className="h-4 w-4 me-2 rtl:rotate-180" />
+                      {tNavigation('home')}
+                    </Button>
+                    <ArrowRight className="h-4 w-4 rtl:rotate-180 text-green-600 dark:text-green-400" />
                     <Button
                       variant="outline"
                       onClick={handleBackToChapters}
@@ -488,63 +575,13 @@ export default function TajweedApp() {
                     </CardHeader>
                     <Separator className="bg-green-200 dark:bg-green-800" />
                     <CardContent className="p-6">
-                      <motion.div
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ duration: 0.5, delay: 0.2 }}
-                        className="space-y-6"
-                      >
-                        {/* Main Content */}
-                        <div className="space-y-4">
-                          <h3 className="text-lg font-bold text-green-900 dark:text-green-100 flex items-center gap-2">
-                            <ScrollText className="h-5 w-5" />
-                            تفصیل
-                          </h3>
-                          <div className="space-y-3">
-                            {selectedSectionData.content.map((paragraph, index) => (
-                              <motion.p
-                                key={index}
-                                initial={{ opacity: 0, x: -20 }}
-                                animate={{ opacity: 1, x: 0 }}
-                                transition={{ duration: 0.3, delay: 0.1 * index }}
-                                className="text-lg text-right leading-relaxed text-slate-700 dark:text-slate-300 bg-gradient-to-l from-green-50 to-emerald-50 dark:from-green-950/30 dark:to-emerald-950/30 p-4 rounded-lg border border-green-200 dark:border-green-800"
-                                dir="rtl"
-                              >
-                                {paragraph}
-                              </motion.p>
-                            ))}
-                          </div>
-                        </div>
-
-                        {/* Notes Section */}
-                        {selectedSectionData.notes && selectedSectionData.notes.length > 0 && (
-                          <div className="space-y-3">
-                            <h3 className="text-lg font-bold text-green-900 dark:text-green-100 flex items-center gap-2">
-                              <Sparkles className="h-5 w-5" />
-                              نوٹس
-                            </h3>
-                            <div className="space-y-2">
-                              {selectedSectionData.notes.map((note, index) => (
-                                <motion.div
-                                  key={index}
-                                  initial={{ opacity: 0, scale: 0.9 }}
-                                  animate={{ opacity: 1, scale: 1 }}
-                                  transition={{ duration: 0.3, delay: 0.1 * index }}
-                                  className="flex items-start gap-3 p-4 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800"
-                                  dir="rtl"
-                                >
-                                  <Badge variant="secondary" className="bg-amber-200 text-amber-900 dark:bg-amber-900/50 dark:text-amber-300 shrink-0">
-                                    {index + 1}
-                                  </Badge>
-                                  <p className="text-base text-amber-900 dark:text-amber-300">
-                                    {note}
-                                  </p>
-                                </motion.div>
-                              ))}
-                            </div>
-                          </div>
-                        )}
-                      </motion.div>
+                      <SectionContent
+                        content={content}
+                        basePath={basePath}
+                        verses={verses}
+                        chapterId={selectedChapterData.id}
+                        section={selectedSectionData}
+                      />
                     </CardContent>
                   </Card>
                 </motion.div>
@@ -558,7 +595,7 @@ export default function TajweedApp() {
       <footer className="mt-auto border-t border-green-200 dark:border-green-800 bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
         <div className="container mx-auto px-4 py-4 text-center">
           <p className="text-sm text-green-700 dark:text-green-300">
-            {fiqhContent.meta.subtitle} - Learning Quranic Recitation Rules
+            {t('footer', { subtitle: content.meta.subtitle })}
           </p>
         </div>
       </footer>
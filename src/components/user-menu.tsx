@@ -0,0 +1,97 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { signOut, useSession } from 'next-auth/react'
+import { useTranslations } from 'next-intl'
+import { ClipboardList, LogIn, LogOut, PencilRuler, UserRound } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { clearOfflineCache } from '@/components/service-worker-registration'
+import { SIGN_IN_PAGE } from '@/lib/auth/pages'
+import { hasRole } from '@/lib/auth/roles'
+
+// Sign-in link, or the signed-in account with its role, the content editor
+// for editors, the review queue for teachers and a sign-out item
+export function UserMenu() {
+  const { data: session, status } = useSession()
+  const pathname = usePathname()
+  const t = useTranslations('Account')
+
+  if (status === 'loading') return null
+
+  if (!session) {
+    return (
+      <Link href={`${SIGN_IN_PAGE}?${new URLSearchParams({ callbackUrl: pathname })}`}>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+        >
+          <LogIn className="h-4 w-4 me-2" />
+          <span className="hidden sm:inline">{t('signIn')}</span>
+        </Button>
+      </Link>
+    )
+  }
+
+  const { user } = session
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-green-700 hover:text-green-900 dark:text-green-300 dark:hover:text-green-100"
+        >
+          <UserRound className="h-4 w-4 me-2" />
+          <span className="hidden max-w-32 truncate sm:inline">{user.name ?? user.email}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="space-y-1">
+          <p className="truncate">{user.name}</p>
+          <p className="truncate text-xs font-normal text-muted-foreground" dir="ltr">
+            {user.email}
+          </p>
+          <Badge variant="secondary">{t(`roles.${user.role}`)}</Badge>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {hasRole(user.role, 'editor') && (
+          <DropdownMenuItem asChild>
+            <Link href="/admin">
+              <PencilRuler className="h-4 w-4 me-2" />
+              {t('editor')}
+            </Link>
+          </DropdownMenuItem>
+        )}
+        {hasRole(user.role, 'teacher') && (
+          <DropdownMenuItem asChild>
+            <Link href="/admin/review">
+              <ClipboardList className="h-4 w-4 me-2" />
+              {t('review')}
+            </Link>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem
+          onSelect={() => {
+            clearOfflineCache()
+            // Through /api/preview/exit, so a reviewer's draft preview ends too
+            signOut({ callbackUrl: '/api/preview/exit?path=/' })
+          }}
+        >
+          <LogOut className="h-4 w-4 me-2" />
+          {t('signOut')}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
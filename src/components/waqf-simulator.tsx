@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslations } from 'next-intl'
+import { Hand } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  explainWaqfSign,
+  simulateWaqf,
+  waqfChangeText,
+  waqfPermissionText,
+  waqfPracticeAyat,
+  waqfSignInfo,
+  type WaqfPermission,
+} from '@/lib/tajweed'
+import type { TopicContent } from '@/lib/content/schema'
+import { cn } from '@/lib/utils'
+
+const permissionColors: Record<WaqfPermission, string> = {
+  required: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  preferred: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  allowed: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-300',
+  forbidden: 'bg-amber-100 text-amber-900 dark:bg-amber-900/40 dark:text-amber-300',
+  unmarked: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+}
+
+// Practice widget for the waqf sections: tap a word of an ayah to see how
+// it is read when stopping on it, and what the waqf sign there says
+export function WaqfSimulator({ content }: { content: TopicContent }) {
+  const t = useTranslations('Waqf')
+  const [ayahIndex, setAyahIndex] = useState(0)
+  const [wordIndex, setWordIndex] = useState<number | null>(null)
+
+  const words = simulateWaqf(waqfPracticeAyat[ayahIndex].text)
+  const word = wordIndex !== null ? words[wordIndex] : undefined
+  const signExplanation = word?.sign ? explainWaqfSign(content, word.sign) : undefined
+
+  return (
+    <div className="space-y-4 rounded-lg border border-green-200 dark:border-green-800 p-4">
+      <h3 className="text-lg font-bold text-green-900 dark:text-green-100 flex items-center gap-2">
+        <Hand className="h-5 w-5" />
+        {t('title')}
+      </h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        {t('instructions')}
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {waqfPracticeAyat.map((ayah, index) => (
+          <Button
+            key={ayah.ref}
+            variant={index === ayahIndex ? 'default' : 'outline'}
+            size="sm"
+            dir="ltr"
+            onClick={() => {
+              setAyahIndex(index)
+              setWordIndex(null)
+            }}
+          >
+            {ayah.ref}
+          </Button>
+        ))}
+      </div>
+
+      <p lang="ar" dir="rtl" className="font-quran text-2xl leading-loose text-slate-800 dark:text-slate-200">
+        {words.map((item, index) => (
+          <span key={`${ayahIndex}-${index}`}>
+            <button
+              type="button"
+              onClick={() => setWordIndex(index)}
+              className={cn(
+                'rounded px-1 transition-colors hover:bg-green-100 dark:hover:bg-green-900/40',
+                index === wordIndex && 'bg-green-200 dark:bg-green-800',
+              )}
+            >
+              {item.text}
+            </button>
+            {item.sign && (
+              <sup className="text-sm text-green-700 dark:text-green-400">{waqfSignInfo[item.sign].symbol}</sup>
+            )}{' '}
+          </span>
+        ))}
+      </p>
+
+      {word && (
+        <motion.div
+          key={`${ayahIndex}-${wordIndex}`}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.2 }}
+          className="space-y-3 rounded-lg bg-gradient-to-r rtl:bg-gradient-to-l from-green-50 to-emerald-50 dark:from-green-950/30 dark:to-emerald-950/30 p-4"
+        >
+          <div className="grid grid-cols-2 gap-4 text-center">
+            <div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{t('joined')}</p>
+              <p lang="ar" dir="rtl" className="font-quran text-3xl leading-loose text-slate-800 dark:text-slate-200">
+                {word.text}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{t('stopped')}</p>
+              <p lang="ar" dir="rtl" className="font-quran text-3xl leading-loose text-green-800 dark:text-green-300">
+                {word.stopForm}
+              </p>
+            </div>
+          </div>
+          <p className="text-sm text-slate-700 dark:text-slate-300" dir="auto">{waqfChangeText[word.change]}</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge className={permissionColors[word.permission]}>{waqfPermissionText[word.permission]}</Badge>
+            {signExplanation && <span className="text-sm text-slate-600 dark:text-slate-400">{signExplanation}</span>}
+          </div>
+        </motion.div>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { Pause } from "lucide-react";
+import type { TopicContent } from "@/lib/content/schema";
 
 export const tajweedContent = {
   meta: {
@@ -8,7 +8,7 @@ export const tajweedContent = {
   },
   chapters: [
     {
-      id: "Tajweed",
+      id: "tajweed",
       title: "تجوید",
       subtitle: "Tajweeed",
       icon: "BookOpen",
@@ -33,64 +33,144 @@ export const tajweedContent = {
             "تجوید قرآن کریم کو صحیح طریقے سے پڑھنے کی بنیاد ہے۔",
             "بغیر تجوید کے قرآن پڑھنا گناہ ہو سکتا ہے کیونکہ اس سے معنی کی تبدیلی ہو سکتی ہے۔",
             "سلف صالحین نے بھی تجوید پر بہت زور دیا ہے۔",
-            "ارشاد باری تعالیٰ ہے: ہم نے ہر رسول کو اس کی قوم کی زبان کے ساتھ بھیجا تاکہ انہیں واضح کرکے بتا دے۔ (سورت ابرہیم - آیت نمبر 4)",
-            "دوسری جگہ ارشاد فرمایا بے شک ہم نے قرآن کو عربی زبان میں نازل کیا تاکہ تم سمجھ سکو۔ (سورت یوسف - آیت نمبر 2)",
+            "ارشاد باری تعالیٰ ہے: {{14:4}} ہم نے ہر رسول کو اس کی قوم کی زبان کے ساتھ بھیجا تاکہ انہیں واضح کرکے بتا دے۔",
+            "دوسری جگہ ارشاد فرمایا: {{12:2}} بے شک ہم نے قرآن کو عربی زبان میں نازل کیا تاکہ تم سمجھ سکو۔"
           ],
           notes: [
             "قرآن مجید عربی زبان میں نازل ہوا کیونکہ عرب کے لوگوں کی زبان ھے لیکن ہم عجمی ہونے کی وجہ سے اپنی لا علمی اور دوسری زبان ہونے کی وجہ سے اسکی ادائیگی صحیح طریقے سے نہیں کر پاتے اور اس طرح بعض جگہ پر اس کا ترجمہ اور مفہوم بالکل بدل جاتا ھے لیکن بحثیت مسلمان ہمارا فرض ہے کہ قرآن مجید کو صحیح طریقے سے پڑھنا سیکھیں۔"
           ]
         },
         {
-          id: "Rights of the Quran",
+          id: "rights-of-the-quran",
           title: "قرآن کریم کے حقوق",
           subtitle: "Rights of the Quran",
           content: [
             "قرآن کی ادائیگی صحیح تلفظ سے کی جائے",
             "قرآن کے معنی اور مفہوم پر غور کیا جائے",
             "قرآن دوسروں تک پہنچایا جائے",
-            "قرآن پر عمل کیا جائے",
+            "قرآن پر عمل کیا جائے"
           ],
           notes: []
         }
       ]
     },
     {
-      id: "Rules and Regulations of Tajweed",
+      id: "rules-and-regulations-of-tajweed",
       title: "تجوید کے قوائد و ضوابط",
       subtitle: "Rules and Regulations of Tajweed",
       icon: "BookOpen",
       order: 2,
       sections: [
         {
-          id: "Heavy Letters",
+          id: "heavy-letters",
           title: "حروف مستعلیہ",
           subtitle: "Heavy Letters",
           content: [
             "تجوید کی بنیاد حروف تہجی ہے 'ا' سے 'ی' تک عربی کے کل 29 حروف تہجی ہیں ان میں سے سات حروف ہمیشہ موٹے پڑھے جاتے ہیں انہیں حروف مستعلیہ کہتے ہیں۔",
-            "ص - ض ـ ط ـ ظ - خ - غ - ق",
+            {
+              type: "letters",
+              letters: ["ص", "ض", "ط", "ظ", "خ", "غ", "ق"]
+            },
             "یہ حروف قران مجید میں جہاں بھی آئیں زبر زیر پیش کے ساتھ ہوں تو بھی موٹے ہی پڑھے جائیں گے یعنی بھاری اواز میں پڑھے جائیں گے۔"
           ],
-          notes: []
+          notes: [],
+          quiz: [
+            {
+              type: "multiple-choice",
+              question: "عربی کے کتنے حروف ہمیشہ موٹے پڑھے جاتے ہیں؟",
+              options: ["تین", "پانچ", "سات", "پندرہ"],
+              answer: "سات",
+              explanation: "ص - ض ـ ط ـ ظ - خ - غ - ق حروف مستعلیہ کہلاتے ہیں۔"
+            },
+            {
+              type: "letter-group",
+              letter: "ق",
+              options: ["حروف مستعلیہ", "شیبہ مستعلیہ", "یرملون"],
+              answer: "حروف مستعلیہ"
+            }
+          ]
         },
         {
-          id: "Semi-Elevated Letters",
+          id: "semi-elevated-letters",
           title: "شیبہ مستعلیہ",
           subtitle: "Semi-Elevated Letters",
           content: [
             "تین حروف جو مندرجہ ذیل ہیں جو کہیں موٹے پڑھے جاتے ہیں اور کہیں باریک پڑھے جاتے ہیں انہیں حروف شیبہ مستعلیہ کہتے ہیں",
-            "ا - ل - ر",
-            "١- الف کی ادائیگی کا طریقہ : اگر الف سے پہلے موٹے حروف یعنی حروف مستعلیہ میں سے کوئی آئے تو پھر الف کو بھی موٹا پڑھا جاۓ گا اور اس اگر باریک الفاظ میں سے آۓ تو باریک ہی پڑھا جائے گا۔",
-            "مثلاً : (1) قَالَ - یہاں الف سے پہلے نقطے والا ق ایا ہے جس کی وجہ سے اس کو موٹا پڑھا جائے گا۔.........(2) مَالَ - جَالَ - یہاں الف سے پہلے باریک الفاظ ائے ہیں جس کی وجہ سے الف کو بھی باریک پڑھا جائے گا۔)",
-            "٢- 'ل' کی ادائیگی کا طریقہ : 'ل' باریک حروف میں سے ہے مگر اللہ نام میں 'ل' موٹا پڑھا جائے گا بشرطیکہ اگر اس سے پہلے ملنے والے حرف پر زبر یا پیش ہو۔------------------- اگر اس سے پچھلے ملنے والے حرف پر زیر ہو تو 'ل' کو باریک پڑھا جائے گا۔",
-            "مثلاً :  (1) لَآ اِلٰہَ اِلَّا اللّٰہُ مُحَمَّدٌ رَّسُوْلُ اللّٰہِ  - یہاں 'ل' سے پہلے حرف پر زبر اور پیش ارہا ہے جس کی وجہ سے یہاں  اللہ نام  میں 'ل' موٹا پڑھا جائے گا.........(2) بِسْمِ اللہِ الرَّحْمٰنِ الرَّحِیۡمِ - یہاں اللہ نام کے 'ل' سے پہلے پچھلے حرف پر زیر ہے جس کی باعث 'ل' کو یہاں باریک پڑھیں گے۔"
-            ," ٣- 'ر' کی ادائیگی کا طریقہ : اگر 'ر' کے اوپر حرکت یعنی زبر یا پیش ہو تو 'ر' موٹا پڑھا جائے گا اور اگر 'ر' کے نیچے حرکت یعنی زیر ہو تو 'ر' باریک پڑھا جائے گا."
-,"ذٰلِكَ الْكِتٰبُ لَا  رَ يْبَ ۖ فِيْهِ - یہاں 'ر' کے اوپر زبر ہونے کی وجہ سے 'ر' موٹا پڑا جائے گا۔ لیکن"
-,"(1) اگر 'ر' ساکن ہو یعنی 'ر' پر جزم ہو تو 'ر' کے پچھلے والے حرف پر زیر ہو بشرطیکہ وہ حرف اسی لفظ کے اندر موجود ہو تو 'ر' کو باریک پڑھا جائے گا مگر الگ لفظ میں ہو تو 'ر' کو موٹا پڑھیں گے۔------- مثلاً فِر٘عون (باریک) - اَلَّزِی ار٘تَضٰی (موٹا پڑھنے کی مثال)  پہلی مثال میں 'ر' سے پہلے حرف پر زیر ھے 'ر' کو باریک جبکہ مثال دوم میں 'ر'  موٹا پڑھیں گے",
-,"(2) اگر 'ر٘' (ساکن/ جزم والی 'ر') سے پہلے 'ی٘' (ساکن) ہو تو بھی 'ر' کو باریک پڑھیں گے۔---------مثلاً : خَبِی٘ر٘ - بَشِی٘ر٘"
-,"(3) اگر 'ر٘' (ساکن) سے پہلے حرف کے نیچے زیر بھی ھو مگر 'ر٘' کے بعد والا حرف موٹے حروف ( مستعلیہ ) میں سے کوئی ہو تو 'ر٘' موٹا ہی پڑھا جاۓ گا باریک نہیں۔------------مثلاً : لَبِال٘مِر٘صَاد - فِر٘ق"
-
-
-
+            {
+              type: "letters",
+              letters: ["ا", "ل", "ر"]
+            },
+            {
+              type: "list",
+              items: [
+                "الف کی ادائیگی کا طریقہ : اگر الف سے پہلے موٹے حروف یعنی حروف مستعلیہ میں سے کوئی آئے تو پھر الف کو بھی موٹا پڑھا جاۓ گا اور اس اگر باریک الفاظ میں سے آۓ تو باریک ہی پڑھا جائے گا۔"
+              ]
+            },
+            {
+              type: "example",
+              arabic: "قَالَ",
+              explanation: "یہاں الف سے پہلے نقطے والا ق ایا ہے جس کی وجہ سے اس کو موٹا پڑھا جائے گا۔"
+            },
+            {
+              type: "example",
+              arabic: "مَالَ - جَالَ",
+              explanation: "یہاں الف سے پہلے باریک الفاظ ائے ہیں جس کی وجہ سے الف کو بھی باریک پڑھا جائے گا۔)"
+            },
+            {
+              type: "list",
+              items: [
+                "'ل' کی ادائیگی کا طریقہ : 'ل' باریک حروف میں سے ہے مگر اللہ نام میں 'ل' موٹا پڑھا جائے گا بشرطیکہ اگر اس سے پہلے ملنے والے حرف پر زبر یا پیش ہو۔"
+              ],
+              start: 2
+            },
+            "اگر اس سے پچھلے ملنے والے حرف پر زیر ہو تو 'ل' کو باریک پڑھا جائے گا۔",
+            "مثلاً :  (1) لَآ اِلٰہَ اِلَّا اللّٰہُ مُحَمَّدٌ رَّسُوْلُ اللّٰہِ  - یہاں 'ل' سے پہلے حرف پر زبر اور پیش ارہا ہے جس کی وجہ سے یہاں  اللہ نام  میں 'ل' موٹا پڑھا جائے گا",
+            {
+              type: "example",
+              arabic: "بِسْمِ اللہِ الرَّحْمٰنِ الرَّحِیۡمِ",
+              explanation: "یہاں اللہ نام کے 'ل' سے پہلے پچھلے حرف پر زیر ہے جس کی باعث 'ل' کو یہاں باریک پڑھیں گے۔"
+            },
+            {
+              type: "list",
+              items: [
+                "'ر' کی ادائیگی کا طریقہ : اگر 'ر' کے اوپر حرکت یعنی زبر یا پیش ہو تو 'ر' موٹا پڑھا جائے گا اور اگر 'ر' کے نیچے حرکت یعنی زیر ہو تو 'ر' باریک پڑھا جائے گا."
+              ],
+              start: 3
+            },
+            {
+              type: "example",
+              arabic: "ذٰلِكَ الْكِتٰبُ لَا  رَ يْبَ ۖ فِيْهِ",
+              explanation: "یہاں 'ر' کے اوپر زبر ہونے کی وجہ سے 'ر' موٹا پڑا جائے گا۔ لیکن"
+            },
+            {
+              type: "list",
+              items: [
+                "اگر 'ر' ساکن ہو یعنی 'ر' پر جزم ہو تو 'ر' کے پچھلے والے حرف پر زیر ہو بشرطیکہ وہ حرف اسی لفظ کے اندر موجود ہو تو 'ر' کو باریک پڑھا جائے گا مگر الگ لفظ میں ہو تو 'ر' کو موٹا پڑھیں گے۔"
+              ]
+            },
+            "مثلاً فِر٘عون (باریک) - اَلَّزِی ار٘تَضٰی (موٹا پڑھنے کی مثال)  پہلی مثال میں 'ر' سے پہلے حرف پر زیر ھے 'ر' کو باریک جبکہ مثال دوم میں 'ر'  موٹا پڑھیں گے",
+            {
+              type: "list",
+              items: [
+                "اگر 'ر٘' (ساکن/ جزم والی 'ر') سے پہلے 'ی٘' (ساکن) ہو تو بھی 'ر' کو باریک پڑھیں گے۔"
+              ],
+              start: 2
+            },
+            {
+              type: "example",
+              arabic: "خَبِی٘ر٘ - بَشِی٘ر٘"
+            },
+            {
+              type: "list",
+              items: [
+                "اگر 'ر٘' (ساکن) سے پہلے حرف کے نیچے زیر بھی ھو مگر 'ر٘' کے بعد والا حرف موٹے حروف ( مستعلیہ ) میں سے کوئی ہو تو 'ر٘' موٹا ہی پڑھا جاۓ گا باریک نہیں۔"
+              ],
+              start: 3
+            },
+            {
+              type: "example",
+              arabic: "لَبِال٘مِر٘صَاد - فِر٘ق"
+            }
           ],
           notes: []
         }
@@ -115,87 +195,110 @@ export const tajweedContent = {
           notes: []
         },
         {
-          id: "Throat Letters",
+          id: "throat-letters",
           title: "حروف حلقیہ (گلے سے ادا ہونے والے حروف)",
           subtitle: "Throat Letters",
           content: [
-            ,"(1) زبان کی جڑ کے ساتھ سب سے اوپر والا حصہ جسے ادنی حلق کہتے ہیں۔ غ - خ"
-
-,"(2) گلے کا درمیانی حصہ جہاں گلے کی ہڈی نمایاں ہوتی ہے۔ اسے وسط حلق کہتے ہیں۔ ع ـ ح"
-
-,"(3) سینے کے ساتھ گلے کا سب سے نچلا حصہ اسے اقصیٰ حلق کہتے ہیں۔ ء - ھ"
+            {
+              type: "list",
+              items: [
+                "زبان کی جڑ کے ساتھ سب سے اوپر والا حصہ جسے ادنی حلق کہتے ہیں۔ غ - خ",
+                "گلے کا درمیانی حصہ جہاں گلے کی ہڈی نمایاں ہوتی ہے۔ اسے وسط حلق کہتے ہیں۔ ع ـ ح",
+                "سینے کے ساتھ گلے کا سب سے نچلا حصہ اسے اقصیٰ حلق کہتے ہیں۔ ء - ھ"
+              ]
+            }
           ],
           notes: []
         },
         {
-          id: "Letters pronounced from the tongue",
+          id: "letters-pronounced-from-the-tongue",
           title: "زبان سے ادا ہونے والے حروف",
           subtitle: "Letters pronounced from the tongue",
           content: [
-            ,"(1) زبان کی جڑ سے ادا ہونے والے حروف۔ ق - ک"
-
-,"(2) زبان کی درمیان سے ادا ہونے والے حروف۔ ج - ش - ی"
-
-,"(3) زبان کی سائیڈ سے ادا ہونے والا حرف۔ ض"
-
-,"(4) زبان کی نوک سے ادا ہونے والے حروف۔ ت - د - ط"
-
-,"(5) زبان کی نوک اوپر کے دانتوں سے لگے ہوئے حروف۔ ث ـ ذ ـ ظ"
-
-,"(6) زبان کی نوک نیچے کے دانتوں پر لگے ہوئے حروف۔ ز - س ـ ص"
-
-
+            {
+              type: "list",
+              items: [
+                "زبان کی جڑ سے ادا ہونے والے حروف۔ ق - ک",
+                "زبان کی درمیان سے ادا ہونے والے حروف۔ ج - ش - ی",
+                "زبان کی سائیڈ سے ادا ہونے والا حرف۔ ض",
+                "زبان کی نوک سے ادا ہونے والے حروف۔ ت - د - ط",
+                "زبان کی نوک اوپر کے دانتوں سے لگے ہوئے حروف۔ ث ـ ذ ـ ظ",
+                "زبان کی نوک نیچے کے دانتوں پر لگے ہوئے حروف۔ ز - س ـ ص"
+              ]
+            }
           ],
           notes: []
         },
         {
-          id: "Letters pronounced from the lips",
+          id: "letters-pronounced-from-the-lips",
           title: "ہونٹ سے ادا ہونے والے حروف",
           subtitle: "Letters pronounced from the lips",
           content: [
-,"(1) ہونٹ کو گول کر کے ادا کرنے والا حرف۔ و"
-
-,"(2) دونوں ہونٹوں کے خشک اور تر حصوں کو بند کرنے سے ادا ہونے والا حرف۔ ب"
-
-,"(3) دونوں ہونٹوں کے باہر کے خشک حصوں کو ملانے سے ادا ہونے والا حرف۔ م"
-
-,"(4) نیچے کے ہونٹ کے کنارے اور اوپر کے سامنے والے دانتوں کے کنارے سے ادا ہونے والا حرف۔ ف"
-
-
+            {
+              type: "list",
+              items: [
+                "ہونٹ کو گول کر کے ادا کرنے والا حرف۔ و",
+                "دونوں ہونٹوں کے خشک اور تر حصوں کو بند کرنے سے ادا ہونے والا حرف۔ ب",
+                "دونوں ہونٹوں کے باہر کے خشک حصوں کو ملانے سے ادا ہونے والا حرف۔ م",
+                "نیچے کے ہونٹ کے کنارے اور اوپر کے سامنے والے دانتوں کے کنارے سے ادا ہونے والا حرف۔ ف"
+              ]
+            }
           ],
-          notes: [" حروف کو صحیح مخرج سے ادا کرنے کے لیے ان کی بار بار مشق کرنے کی ضرورت ہے، اور ان میں موٹے اور باریک پڑھے جانے والے حروف کو بھی مدنظر رکھا جائے گا۔"]
+          notes: [
+            "حروف کو صحیح مخرج سے ادا کرنے کے لیے ان کی بار بار مشق کرنے کی ضرورت ہے، اور ان میں موٹے اور باریک پڑھے جانے والے حروف کو بھی مدنظر رکھا جائے گا۔"
+          ]
         }
       ]
     },
     {
-      id: "Explanation of Harakaat",
+      id: "explanation-of-harakaat",
       title: "حرکات کا بیان",
       subtitle: "Explanation of Harakaat",
       icon: "BookOpen",
       order: 4,
       sections: [
         {
-          id: "Harkaat-Definition",
+          id: "harkaat-definition",
           title: "حرکات کی تعریف",
           subtitle: "Harkaat-Definition",
           content: [
-            "زبر زیر پیش کو حرکت کہا جاتا ہے اور اگر یہ زبر زیر پیش دو سے زائد ہوں تو حرکات کہا جاتا ہے۔",
+            "زبر زیر پیش کو حرکت کہا جاتا ہے اور اگر یہ زبر زیر پیش دو سے زائد ہوں تو حرکات کہا جاتا ہے۔"
           ],
           notes: ["اگر الف پر زبر زیر پیش یعنی کوئی حرکت ہو تو اس سے حمزہ پڑھیں گے الف نہیں۔"]
         },
         {
-          id: "Common Mistakes in Pronouncing Harakaat",
+          id: "common-mistakes-in-pronouncing-harakaat",
           title: "حرکات ادا کرنے میں غلطیاں",
           subtitle: "Common Mistakes in Pronouncing Harakaat",
           content: [
-            ,"(1). اکثر ہم حرکات کو قاعدے سے زیادہ لمبا یا چھوٹا کر دیتے ہیں جس کی وجہ سے بعض اوقات ان کا ترجمہ بدل جاتا ہے۔ -----------------مثلاً : قَالَ ـ اس میں ق کے ساتھ الف ہے اور ل پر زبر ہے۔جس کے معنی ہیں ' ایک نے کہا', --------------------اگر ہم اس لفظ میں ق کو لمبا کرنے کے ساتھ ل کو بھی اگر لمبا پڑھتے ہیں تو اس کا مطلب بدل جاتا ہے جو کہ 'دو نے کہا' بن جاۓ گا۔ لہذا زبر زیر یا پیش کو ہرگز لمبا نہ کریں۔"
-,"(2). کھڑی زبر کھڑی زیر یا الٹی پیش والے حرف کو ایک الف کے برابر لمبا کرنا ہے یعنی دو سیکنڈ تک لمبا کرنا ہے۔"
-,"(3). اگر حرف کے ساتھ ا - ی - و لگا ہو تو اسے بھی مندرجہ بالا طریقے کے مطابق دو سیکنڈ تک لمبا پڑھیں۔  ا - ی - و کو حروف مدہ بھی کہا جاتا ہے۔ اس طرح ان چھ مقامات پر دو سیکنڈ تک لمبا کریں گے۔"
-,"(4). حرف کو زیادہ لمبا کرنا یعنی زیادہ کھینچنا اسے مد فرعی کہتے ہیں۔"
-,"(5). اگر مندرجہ بالا چھ صورتوں کے بعد حمزہ ا جائے۔ تو اسے چار سیکنڈ تک لمبا پڑھیں۔ یا  حروف مدہ یا کھڑی حرکت کے بعد جزم ( سکون والا حرف ) یا تشدید ( شد والا حرف ) ہو تو اس سے بھی چار سیکنڈ تک لمبا کریں گے۔ --------------مثلا : اِذَا جَآء    ـ۔   الضٌَآلٌِی٘ن"
+            {
+              type: "list",
+              items: [
+                "اکثر ہم حرکات کو قاعدے سے زیادہ لمبا یا چھوٹا کر دیتے ہیں جس کی وجہ سے بعض اوقات ان کا ترجمہ بدل جاتا ہے۔"
+              ]
+            },
+            {
+              type: "example",
+              arabic: "قَالَ",
+              explanation: "اس میں ق کے ساتھ الف ہے اور ل پر زبر ہے۔جس کے معنی ہیں ' ایک نے کہا',"
+            },
+            "اگر ہم اس لفظ میں ق کو لمبا کرنے کے ساتھ ل کو بھی اگر لمبا پڑھتے ہیں تو اس کا مطلب بدل جاتا ہے جو کہ 'دو نے کہا' بن جاۓ گا۔ لہذا زبر زیر یا پیش کو ہرگز لمبا نہ کریں۔",
+            {
+              type: "list",
+              items: [
+                "کھڑی زبر کھڑی زیر یا الٹی پیش والے حرف کو ایک الف کے برابر لمبا کرنا ہے یعنی دو سیکنڈ تک لمبا کرنا ہے۔",
+                "اگر حرف کے ساتھ ا - ی - و لگا ہو تو اسے بھی مندرجہ بالا طریقے کے مطابق دو سیکنڈ تک لمبا پڑھیں۔  ا - ی - و کو حروف مدہ بھی کہا جاتا ہے۔ اس طرح ان چھ مقامات پر دو سیکنڈ تک لمبا کریں گے۔",
+                "حرف کو زیادہ لمبا کرنا یعنی زیادہ کھینچنا اسے مد فرعی کہتے ہیں۔",
+                "اگر مندرجہ بالا چھ صورتوں کے بعد حمزہ ا جائے۔ تو اسے چار سیکنڈ تک لمبا پڑھیں۔ یا  حروف مدہ یا کھڑی حرکت کے بعد جزم ( سکون والا حرف ) یا تشدید ( شد والا حرف ) ہو تو اس سے بھی چار سیکنڈ تک لمبا کریں گے۔"
+              ],
+              start: 2
+            },
+            {
+              type: "example",
+              arabic: "اِذَا جَآء    ـ۔   الضَّآلِّی٘ن"
+            }
           ],
-          notes: [
-          ]
+          notes: []
         }
       ]
     },
@@ -213,53 +316,97 @@ export const tajweedContent = {
           content: [
             "دو زبر دو پیش دو زیر کو تنوین کہتے ہیں۔",
             "نون ساکنہ کے چار احکام ہیں۔",
-            "یہ احکام اس کے بعد آنے والے حروف پر منحصر ہیں۔نون ساکن پر بھی تنوین والا اصول لاگو ہوگا  "
+            "یہ احکام اس کے بعد آنے والے حروف پر منحصر ہیں۔نون ساکن پر بھی تنوین والا اصول لاگو ہوگا"
           ],
-          notes: ["آواز کو ناک میں چھپانے کو غنہ کہا جاتا ہے۔"]
+          notes: ["آواز کو ناک میں چھپانے کو غنہ کہا جاتا ہے۔"],
+          quiz: [
+            {
+              type: "multiple-choice",
+              question: "نون ساکنہ کے کتنے احکام ہیں؟",
+              options: ["دو", "تین", "چار", "پانچ"],
+              answer: "چار",
+              explanation: "اظہار، اقلاب، ادغام اور اخفا۔"
+            },
+            {
+              type: "true-false",
+              statement: "تنوین پر بھی نون ساکن والے احکام لاگو ہوتے ہیں۔",
+              answer: true,
+              explanation: "تنوین کی آواز نون ساکن ہی کی ہے، اس لیے اس پر بھی یہی احکام لاگو ہوں گے۔"
+            },
+            {
+              type: "multiple-choice",
+              question: "آواز کو ناک میں چھپانے کو کیا کہتے ہیں؟",
+              options: ["غنہ", "قلقلہ", "مد", "وقف"],
+              answer: "غنہ"
+            }
+          ]
         },
         {
           id: "nun-ahkam",
           title: "نون ساکنہ کے احکام",
           subtitle: "Rules of Nun Sakinah",
           content: [
-            ,"(1) اظہار: اگر نون ساکن یا تنوین کے بعد حروفِ حلقی (چھ حروف) میں سے کوئی حرف آ جائے تو یہاں غنہ نہیں ہوگا اور نون کی آواز پوری ادا کی جائے گی۔ مثلاً: أَنْعَمْتَ عَلَيْهِمْ۔ یہاں 'ن' کے بعد 'ع' حروفِ حلقی میں سے ہے، اس لیے یہاں غنہ نہیں ہوگا بلکہ 'ن' پورا پڑھا جائے گا۔ اسی طرح جہاں بھی تنوین یا 'ن' کے بعد حرفِ حلقی آئے، یہ قاعدہ استعمال ہوگا۔ اسے اظہار کہتے ہیں۔"
-
-,"(2) اقلاب: اقلاب کے معنی بدل جانا یا تبدیل ہو جانا ہیں۔ اگر 'ن' ساکن یا تنوین کے بعد حرف 'ب' آ جائے تو 'ن' ساکن یا تنوین کو 'م' میں بدل دیتے ہیں۔ مثلاً: مِن٘ بَع٘دِ۔ یہاں نون ساکن کے بعد ب ہے، اس لیے اسے مِم٘ بَع٘دِ پڑھیں گے اور 'م' میں غنہ بھی ہوگا۔"
-
-,"(3) ادغام (ملا کر پڑھنا): اگر تنوین یا 'ن٘' ساکن کے بعد یرملون میں سے کوئی حرف آ جائے تو اس کی ادائیگی کی دو صورتیں ہوں گی۔ یرملون ان حروف کا مجموعہ ہے: (ی - ر - م - ل - و - ن)۔ اگر 'ن٘' ساکن یا تنوین کے بعد ل یا ر آئے تو 'ن٘' غنہ کے بغیر پڑھا جائے گا، اسے ادغام بلا غنہ کہتے ہیں۔ مثلاً: مِن٘ رَّبِّهِمْ۔ اور اگر یرملون کے باقی حروف یعنی (ی - ن - م - و) میں سے کوئی حرف 'ن٘' ساکن یا تنوین کے بعد آ جائے تو 'ن٘' غنہ کے ساتھ پڑھا جائے گا، اسے ادغام مع الغنہ کہتے ہیں۔ مثلاً: مِن٘ یَّقُوْلُ۔"
-
-,"(4) اخفا (چھپا کر پڑھنا): حروفِ اخفا پندرہ ہیں: (ت - ث - ج - د - ذ - ز - س - ش - ص - ض - ط - ظ - ف - ق)۔ اگر 'ن' ساکن یا تنوین کے بعد ان میں سے کوئی حرف آئے تو 'ن' کی آواز کو ناک میں چھپا کر ایک الف کی مقدار تک پڑھیں۔ مثلاً: مِنْ قَبْلِكُمْ۔"
-
+            {
+              type: "list",
+              items: [
+                "اظہار: اگر نون ساکن یا تنوین کے بعد حروفِ حلقی (چھ حروف) میں سے کوئی حرف آ جائے تو یہاں غنہ نہیں ہوگا اور نون کی آواز پوری ادا کی جائے گی۔ مثلاً: أَنْعَمْتَ عَلَيْهِمْ۔ یہاں 'ن' کے بعد 'ع' حروفِ حلقی میں سے ہے، اس لیے یہاں غنہ نہیں ہوگا بلکہ 'ن' پورا پڑھا جائے گا۔ اسی طرح جہاں بھی تنوین یا 'ن' کے بعد حرفِ حلقی آئے، یہ قاعدہ استعمال ہوگا۔ اسے اظہار کہتے ہیں۔",
+                "اقلاب: اقلاب کے معنی بدل جانا یا تبدیل ہو جانا ہیں۔ اگر 'ن' ساکن یا تنوین کے بعد حرف 'ب' آ جائے تو 'ن' ساکن یا تنوین کو 'م' میں بدل دیتے ہیں۔ مثلاً: مِن٘ بَع٘دِ۔ یہاں نون ساکن کے بعد ب ہے، اس لیے اسے مِم٘ بَع٘دِ پڑھیں گے اور 'م' میں غنہ بھی ہوگا۔",
+                "ادغام (ملا کر پڑھنا): اگر تنوین یا 'ن٘' ساکن کے بعد یرملون میں سے کوئی حرف آ جائے تو اس کی ادائیگی کی دو صورتیں ہوں گی۔ یرملون ان حروف کا مجموعہ ہے: (ی - ر - م - ل - و - ن)۔ اگر 'ن٘' ساکن یا تنوین کے بعد ل یا ر آئے تو 'ن٘' غنہ کے بغیر پڑھا جائے گا، اسے ادغام بلا غنہ کہتے ہیں۔ مثلاً: مِن٘ رَّبِّهِمْ۔ اور اگر یرملون کے باقی حروف یعنی (ی - ن - م - و) میں سے کوئی حرف 'ن٘' ساکن یا تنوین کے بعد آ جائے تو 'ن٘' غنہ کے ساتھ پڑھا جائے گا، اسے ادغام مع الغنہ کہتے ہیں۔ مثلاً: مِن٘ یَّقُوْلُ۔",
+                "اخفا (چھپا کر پڑھنا): حروفِ اخفا پندرہ ہیں: (ت - ث - ج - د - ذ - ز - س - ش - ص - ض - ط - ظ - ف - ق - ک)۔ اگر 'ن' ساکن یا تنوین کے بعد ان میں سے کوئی حرف آئے تو 'ن' کی آواز کو ناک میں چھپا کر ایک الف کی مقدار تک پڑھیں۔ مثلاً: مِنْ قَبْلِكُمْ۔"
+              ]
+            }
           ],
-          notes: [
-          ]
+          notes: []
         }
       ]
     },
     {
-      id: "Echo Letters",
+      id: "echo-letters",
       title: "حروفِ قلقلہ",
       subtitle: "Echo Letters",
       icon: "M",
       order: 5,
       sections: [
         {
-          id: "what-is-Echo Letters",
+          id: "what-is-echo-letters",
           title: "حروفِ قلقلہ",
           subtitle: "What is Echo Letters?",
           content: [
-            ,"حروفِ قلقلہ پانچ ہیں: ق - ط - ب - ج - د"
-
-,"جب ان حروف پر جزم آتی ہے، جسے سکون بھی کہتے ہیں، تو ان پر قلقلہ ہوتا ہے۔ قلقلہ ایسی آواز ہے جسے تھوڑا دبا کر پڑھا جاتا ہے۔"
-
-,"مثلاً: قُلْ هُوَ اللَّهُ أَحَدٌ"
-
-,"مندرجہ مثال کے آخر میں 'د' کو دبا کر پڑھیں گے۔ اگر حروفِ قلقلہ پر شد بھی ہو تو مزید دبا کر پڑھیں گے۔"
-
-,"مثلاً: تَبَّتْ يَدَا أَبِي لَهَبٍ وَتَبَّ"
-
+            "حروفِ قلقلہ پانچ ہیں: ق - ط - ب - ج - د",
+            "جب ان حروف پر جزم آتی ہے، جسے سکون بھی کہتے ہیں، تو ان پر قلقلہ ہوتا ہے۔ قلقلہ ایسی آواز ہے جسے تھوڑا دبا کر پڑھا جاتا ہے۔",
+            {
+              type: "example",
+              arabic: "قُلْ هُوَ اللَّهُ أَحَدٌ"
+            },
+            "مندرجہ مثال کے آخر میں 'د' کو دبا کر پڑھیں گے۔ اگر حروفِ قلقلہ پر شد بھی ہو تو مزید دبا کر پڑھیں گے۔",
+            {
+              type: "example",
+              arabic: "تَبَّتْ يَدَا أَبِي لَهَبٍ وَتَبَّ"
+            }
           ],
-          notes: []
+          notes: [],
+          quiz: [
+            {
+              type: "letter-group",
+              letter: "ط",
+              options: ["حروفِ قلقلہ", "حروفِ حلقی", "یرملون"],
+              answer: "حروفِ قلقلہ",
+              explanation: "حروفِ قلقلہ پانچ ہیں: ق - ط - ب - ج - د"
+            },
+            {
+              type: "true-false",
+              statement: "حروفِ قلقلہ پر زبر ہو تو بھی قلقلہ ہوتا ہے۔",
+              answer: false,
+              explanation: "قلقلہ صرف اس وقت ہوتا ہے جب ان حروف پر جزم (سکون) ہو۔"
+            },
+            {
+              type: "identify-rule",
+              example: "قُلْ هُوَ اللَّهُ أَحَدٌ",
+              options: ["قلقلہ", "اخفا", "اقلاب"],
+              answer: "قلقلہ",
+              explanation: "آخر میں 'د' پر وقف سے سکون آتا ہے اور اسے دبا کر پڑھتے ہیں۔"
+            }
+          ]
         }
       ]
     },
@@ -275,30 +422,63 @@ export const tajweedContent = {
           title: "وقف کیا ہے؟",
           subtitle: "What is waqf?",
           content: [
-            ,"وقف: کسی زبان کی ادائیگی میں وقف کی خصوصی اہمیت ہوتی ہے کہ ہم نے کہاں رکنا ہے اور کہاں پڑھتے جانا ہے۔ بعض اوقات غلط جگہ پر رکنے سے عبارت کا مفہوم بدل جاتا ہے۔"
-
-,"مثلاً: اٹھو مت، بیٹھو۔ (اس میں اٹھنے سے منع کیا گیا ہے اور بیٹھنے کا کہا گیا ہے۔)"
-
-,"اٹھو مت بیٹھو۔ (اس میں اٹھنے کا کہا گیا ہے اور بیٹھنے سے منع کیا گیا ہے۔)"
-
-,"مندرجہ بالا مثال میں وقف کے باعث ترجمہ بالکل الٹ گیا ہے۔"
-
-,"اسی طرح قرآنِ کریم میں بھی وقف کی خصوصی اہمیت ہے۔"
-
+            "وقف: کسی زبان کی ادائیگی میں وقف کی خصوصی اہمیت ہوتی ہے کہ ہم نے کہاں رکنا ہے اور کہاں پڑھتے جانا ہے۔ بعض اوقات غلط جگہ پر رکنے سے عبارت کا مفہوم بدل جاتا ہے۔",
+            "مثلاً: اٹھو مت، بیٹھو۔ (اس میں اٹھنے سے منع کیا گیا ہے اور بیٹھنے کا کہا گیا ہے۔)",
+            "اٹھو مت بیٹھو۔ (اس میں اٹھنے کا کہا گیا ہے اور بیٹھنے سے منع کیا گیا ہے۔)",
+            "مندرجہ بالا مثال میں وقف کے باعث ترجمہ بالکل الٹ گیا ہے۔",
+            "اسی طرح قرآنِ کریم میں بھی وقف کی خصوصی اہمیت ہے۔"
           ],
           notes: []
         },
         {
-          id: "Types of Stopping (Waqf)",
+          id: "types-of-stopping-waqf",
           title: "وقف کی صورتیں",
           subtitle: "Types of Stopping (Waqf)",
           content: [
-            ,"(1). وقف کرتے وقت اگر اخری حرکت زبر زیر پیش دو زیر یا دو پیش ہوں تو اخری حرف کو ختم کر کے وہاں جزم لگا دیں گے۔ اگر آخری حرف میں پہلے ہی جزم موجود ہو تو ادائیگی میں کوئی تبدیلی نہیں ہوگی۔--------------------مثلاً : اَحَدٌ - حَکِی٘مَ ------------مندرجہ بالا مثال میں وقف کرتے ہوئے'د' کے دو پیش اور 'م' پر زبر ختم کر کے جزم لگا کر پڑھیں گے۔---------------لَکُم٘--------یہاں 'م' پر پہلے ہی جزم موجود ہے اس لیے اسے لکم ہی پڑھیں گے اور کوئی تبدیلی نہیں ہوگی۔ ------------------اگر اخری حرف پر حرف مدہ ہے یا کھڑی حرکات ہیں تو اس پہ بھی کوئی رد و بدل نہیں ہوگا وہ اسی حالت میں رہے گا۔----------------مثلاً : فَلَاتَن٘سٰی----------------اخری حرف مدہ ہے تو اس میں بھی کوئی تبدیلی نہیں ہوگی۔ اسی طرح کھڑی حرکت میں بھی کوئی تبدیلی نہیں ہوگی اور ویسے ہی پڑھا جائے گا۔"
-,"(2). اگر آخری حرف پر دو زبر ہوں تو جزم نہیں لگائیں گے بلکہ دونوں زبر ختم کر کے لفظ کو ایک الف لمبا کر کے پڑھیں گے۔---------------مثلاً : خَبِيرًا-------------مندرجہ بالا مثال میں 'ر' کے دو زبر ختم کر کر اس کو ایک الف کے برابر لمبا کر کے پڑھیں گے۔"
-,"(3). حروف کے اخری حرف گول تا (ۃ) ہو اور وقف کرنا ہو تو گول تا (ۃ) پر خواہ کوئی بھی حرکت یا تنوین ہو تو وقف میں اسے 'ہ' ساکن سے بدل دیں گے۔---------------وَالصَّلٰوۃِ کو وقف کرتے وقت وَالصَّلٰوہ٘ پڑھیں گے"
+            {
+              type: "list",
+              items: [
+                "وقف کرتے وقت اگر اخری حرکت زبر زیر پیش دو زیر یا دو پیش ہوں تو اخری حرف کو ختم کر کے وہاں جزم لگا دیں گے۔ اگر آخری حرف میں پہلے ہی جزم موجود ہو تو ادائیگی میں کوئی تبدیلی نہیں ہوگی۔"
+              ]
+            },
+            {
+              type: "example",
+              arabic: "اَحَدٌ - حَکِی٘مَ",
+              explanation: "مندرجہ بالا مثال میں وقف کرتے ہوئے'د' کے دو پیش اور 'م' پر زبر ختم کر کے جزم لگا کر پڑھیں گے۔"
+            },
+            {
+              type: "example",
+              arabic: "لَکُم٘",
+              explanation: "یہاں 'م' پر پہلے ہی جزم موجود ہے اس لیے اسے لکم ہی پڑھیں گے اور کوئی تبدیلی نہیں ہوگی۔"
+            },
+            "اگر اخری حرف پر حرف مدہ ہے یا کھڑی حرکات ہیں تو اس پہ بھی کوئی رد و بدل نہیں ہوگا وہ اسی حالت میں رہے گا۔",
+            {
+              type: "example",
+              arabic: "فَلَاتَن٘سٰی",
+              explanation: "اخری حرف مدہ ہے تو اس میں بھی کوئی تبدیلی نہیں ہوگی۔ اسی طرح کھڑی حرکت میں بھی کوئی تبدیلی نہیں ہوگی اور ویسے ہی پڑھا جائے گا۔"
+            },
+            {
+              type: "list",
+              items: [
+                "اگر آخری حرف پر دو زبر ہوں تو جزم نہیں لگائیں گے بلکہ دونوں زبر ختم کر کے لفظ کو ایک الف لمبا کر کے پڑھیں گے۔"
+              ],
+              start: 2
+            },
+            {
+              type: "example",
+              arabic: "خَبِيرًا",
+              explanation: "مندرجہ بالا مثال میں 'ر' کے دو زبر ختم کر کر اس کو ایک الف کے برابر لمبا کر کے پڑھیں گے۔"
+            },
+            {
+              type: "list",
+              items: [
+                "حروف کے اخری حرف گول تا (ۃ) ہو اور وقف کرنا ہو تو گول تا (ۃ) پر خواہ کوئی بھی حرکت یا تنوین ہو تو وقف میں اسے 'ہ' ساکن سے بدل دیں گے۔"
+              ],
+              start: 3
+            },
+            "وَالصَّلٰوۃِ کو وقف کرتے وقت وَالصَّلٰوہ٘ پڑھیں گے"
           ],
-          notes: [
-          ]
+          notes: []
         }
       ]
     },
@@ -310,7 +490,7 @@ export const tajweedContent = {
       order: 7,
       sections: [
         {
-          id: "what-is-waqf",
+          id: "waqf-signs-introduction",
           title: "وقف کیا ہے؟",
           subtitle: "What is Waqf?",
           content: [
@@ -325,18 +505,22 @@ export const tajweedContent = {
           title: "وقف کی علامات",
           subtitle: "Waqf Symbols",
           content: [
-            "م: لازم وقف - ضروری طور پر روکیں",
-            "ج: جائز وقف - روکنا جائز ہے",
-            "صلى: معروف وقف - بہتر ہے روکیں",
-            "قلى: کافی وقف - روکنا کافی ہے",
-            "صل: مصلح وقف - روک کر شروع کرنا بہتر ہے",
-            "قف: وقف ضروری - روکنا ضروری ہے",
-            "لا: لازم - روکنا ممنوع ہے"
+            {
+              type: "table",
+              rows: [
+                ["م: لازم وقف", "ضروری طور پر روکیں"],
+                ["ج: جائز وقف", "روکنا جائز ہے"],
+                ["صلى: معروف وقف", "بہتر ہے روکیں"],
+                ["قلى: کافی وقف", "روکنا کافی ہے"],
+                ["صل: مصلح وقف", "روک کر شروع کرنا بہتر ہے"],
+                ["قف: وقف ضروری", "روکنا ضروری ہے"],
+                ["لا: لازم", "روکنا ممنوع ہے"]
+              ]
+            }
           ],
           notes: []
         }
       ]
-
     }
   ]
-} as const;
+} satisfies TopicContent;
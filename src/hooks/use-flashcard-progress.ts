@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react'
+import {
+  FLASHCARD_STORAGE_KEY,
+  dayKey,
+  mergeProgress,
+  missingReviews,
+  parseFlashcardProgress,
+  reviewCard,
+  type CardReview,
+  type FlashcardProgress,
+  type ReviewGrade,
+} from '@/lib/flashcards'
+
+const listeners = new Set<() => void>()
+
+// Parsed once per stored value, so the snapshot keeps its identity between
+// renders
+let cachedRaw: string | null = null
+let cachedProgress: FlashcardProgress = {}
+
+function getSnapshot(): FlashcardProgress {
+  const raw = localStorage.getItem(FLASHCARD_STORAGE_KEY)
+  if (raw !== cachedRaw) {
+    cachedRaw = raw
+    cachedProgress = parseFlashcardProgress(raw)
+  }
+  return cachedProgress
+}
+
+function setStored(progress: FlashcardProgress) {
+  localStorage.setItem(FLASHCARD_STORAGE_KEY, JSON.stringify(progress))
+  listeners.forEach((listener) => listener())
+}
+
+// Saving to the account is best effort: without a database the reviews
+// still live in localStorage
+async function uploadReviews(reviews: CardReview[]): Promise<FlashcardProgress | undefined> {
+  const response = await fetch('/api/flashcards', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reviews }),
+  })
+  return response.ok ? response.json() : undefined
+}
+
+// Once per page load: the history kept in this browser and the one saved
+// to the account are merged card by card, and the reviews the account lacks
+// (made offline, or on another device before signing in) are uploaded to it
+let synced = false
+
+async function syncWithServer() {
+  // Reviews made while this loads upload themselves
+  const local = getSnapshot()
+  const response = await fetch('/api/flashcards')
+  if (!response.ok) return
+  const server: FlashcardProgress = await response.json()
+  const missing = missingReviews(local, server)
+  setStored(mergeProgress(getSnapshot(), server))
+  if (missing.length > 0) await uploadReviews(missing)
+}
+
+const emptyProgress: FlashcardProgress = {}
+const getServerSnapshot = () => emptyProgress
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  // Reviews made in another tab
+  window.addEventListener('storage', listener)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', listener)
+  }
+}
+
+// Flashcard review history, shared by every component using it. Kept in
+// localStorage and saved to the learner's progress on the server. Empty
+// during server rendering.
+export function useFlashcardProgress() {
+  const progress = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+
+  useEffect(() => {
+    if (synced) return
+    synced = true
+    syncWithServer().catch(() => undefined)
+  }, [])
+
+  const review = useCallback((cardId: string, grade: ReviewGrade) => {
+    const current = getSnapshot()
+    const date = dayKey(new Date())
+    setStored({ ...current, [cardId]: reviewCard(current[cardId], grade, date) })
+    uploadReviews([{ cardId, grade, date }]).catch(() => undefined)
+  }, [])
+
+  return { progress, review }
+}
@@ -0,0 +1,54 @@
+import { useCallback, useSyncExternalStore } from 'react'
+import {
+  DEFAULT_READING_SETTINGS,
+  READING_SETTINGS_STORAGE_KEY,
+  parseReadingSettings,
+  type ReadingSettings,
+} from '@/lib/typography'
+
+const listeners = new Set<() => void>()
+
+// Parsed once per stored value, so the snapshot keeps its identity between
+// renders
+let cachedRaw: string | null = null
+let cachedSettings: ReadingSettings = DEFAULT_READING_SETTINGS
+
+function getSnapshot(): ReadingSettings {
+  const raw = localStorage.getItem(READING_SETTINGS_STORAGE_KEY)
+  if (raw !== cachedRaw) {
+    cachedRaw = raw
+    cachedSettings = parseReadingSettings(raw)
+  }
+  return cachedSettings
+}
+
+const getServerSnapshot = () => DEFAULT_READING_SETTINGS
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  // Changed in another tab
+  window.addEventListener('storage', listener)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', listener)
+  }
+}
+
+// The learner's font size and line height for lesson text, shared by every
+// component using it and kept in localStorage. The defaults during server
+// rendering.
+export function useReadingSettings() {
+  const settings = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+
+  const update = useCallback((changes: Partial<ReadingSettings>) => {
+    localStorage.setItem(READING_SETTINGS_STORAGE_KEY, JSON.stringify({ ...getSnapshot(), ...changes }))
+    listeners.forEach((listener) => listener())
+  }, [])
+
+  const reset = useCallback(() => {
+    localStorage.removeItem(READING_SETTINGS_STORAGE_KEY)
+    listeners.forEach((listener) => listener())
+  }, [])
+
+  return { settings, update, reset }
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react'
+import { emptyTopicProgress, type TopicProgress } from '@/lib/progress/topic-progress'
+
+async function postProgress(url: string, body: unknown): Promise<TopicProgress | undefined> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  return response.ok ? response.json() : undefined
+}
+
+// Records a finished quiz round. Progress is a nicety, so failures (e.g. no
+// database configured) are ignored.
+export function saveQuizAttempt(topicId: string, chapter: string, score: number, total: number) {
+  postProgress(`/api/progress/${topicId}/quiz`, { chapter, score, total }).catch(() => undefined)
+}
+
+// The learner's progress through a topic, fetched once and updated as
+// sections are read. Empty until loaded, or if progress cannot be saved.
+export function useTopicProgress(topicId: string) {
+  const [progress, setProgress] = useState<TopicProgress>(emptyTopicProgress)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/progress/${topicId}`)
+      .then((response) => (response.ok ? response.json() : undefined))
+      .then((loaded: TopicProgress | undefined) => {
+        if (loaded && !cancelled) setProgress(loaded)
+      })
+      .catch(() => undefined)
+    return () => {
+      cancelled = true
+    }
+  }, [topicId])
+
+  const markSectionRead = useCallback(
+    (chapter: string, section: string) => {
+      postProgress(`/api/progress/${topicId}/sections`, { chapter, section })
+        .then((updated) => {
+          if (updated) setProgress(updated)
+        })
+        .catch(() => undefined)
+    },
+    [topicId],
+  )
+
+  return { progress, markSectionRead }
+}
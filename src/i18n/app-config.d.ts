@@ -0,0 +1,10 @@
+import type { Locale } from './locales'
+import type messages from './messages/ur.json'
+
+// Types `useTranslations` keys and `useLocale` against the Urdu messages
+declare module 'next-intl' {
+  interface AppConfig {
+    Locale: Locale
+    Messages: typeof messages
+  }
+}
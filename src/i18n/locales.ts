@@ -0,0 +1,26 @@
+// Languages of the interface and the content. Content is written in Urdu;
+// the other languages are translations, shown wherever one exists.
+export const LOCALES = ['ur', 'en', 'ar'] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = 'ur'
+
+// Languages content can be translated into
+export const TRANSLATED_LOCALES = ['en', 'ar'] as const
+
+export type TranslatedLocale = (typeof TRANSLATED_LOCALES)[number]
+
+// Each in its own language, for the switcher
+export const localeNames: Record<Locale, string> = {
+  ur: 'اردو',
+  en: 'English',
+  ar: 'العربية',
+}
+
+export const localeDirection = (locale: Locale): 'rtl' | 'ltr' => (locale === 'en' ? 'ltr' : 'rtl')
+
+// Read by `./request.ts`; set by the language switcher
+export const LOCALE_COOKIE = 'NEXT_LOCALE'
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale)
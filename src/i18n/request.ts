@@ -0,0 +1,27 @@
+import { cookies } from 'next/headers'
+import { getRequestConfig } from 'next-intl/server'
+import { DEFAULT_LOCALE, LOCALE_COOKIE, isLocale, type Locale } from './locales'
+import urMessages from './messages/ur.json'
+
+type Messages = typeof urMessages
+
+// A translation's messages over the Urdu ones, so a string not translated
+// yet is shown in Urdu
+async function loadMessages(locale: Locale): Promise<Messages> {
+  if (locale === DEFAULT_LOCALE) return urMessages
+  const translated: Partial<Messages> = (await import(`./messages/${locale}.json`)).default
+  return Object.fromEntries(
+    Object.entries(urMessages).map(([namespace, messages]) => [
+      namespace,
+      { ...messages, ...translated[namespace as keyof Messages] },
+    ]),
+  ) as Messages
+}
+
+// The language comes from a cookie rather than the URL, so links and
+// bookmarks stay the same in every language
+export default getRequestConfig(async () => {
+  const requested = (await cookies()).get(LOCALE_COOKIE)?.value
+  const locale = isLocale(requested) ? requested : DEFAULT_LOCALE
+  return { locale, messages: await loadMessages(locale) }
+})
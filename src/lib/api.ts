@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import type { z } from 'zod'
+
+// Error responses of the API routes: `{ error: string[] }`
+
+// `root` names what failed when an issue has no path, e.g. a refine over
+// the whole query
+export function badRequest(error: z.ZodError, root = 'query') {
+  return NextResponse.json(
+    { error: error.issues.map((issue) => `${issue.path.join('.') || root}: ${issue.message}`) },
+    { status: 400 },
+  )
+}
+
+export function notFound(message: string) {
+  return NextResponse.json({ error: [message] }, { status: 404 })
+}
+
+export function unauthorized() {
+  return NextResponse.json({ error: ['sign in required'] }, { status: 401 })
+}
+
+export function forbidden() {
+  return NextResponse.json({ error: ['not allowed for your role'] }, { status: 403 })
+}
+
+export function tooManyRequests() {
+  return NextResponse.json({ error: ['too many requests, try again later'] }, { status: 429 })
+}
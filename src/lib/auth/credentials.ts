@@ -0,0 +1,21 @@
+import { z } from 'zod'
+
+// Shared by the sign-in and sign-up forms and the server checking them
+
+export const MIN_PASSWORD_LENGTH = 8
+
+const email = z.email('درست ای میل لکھیں').transform((value) => value.trim().toLowerCase())
+
+export const signInSchema = z.object({
+  email,
+  password: z.string().min(1, 'پاس ورڈ لکھیں'),
+})
+
+export const signUpSchema = z.object({
+  name: z.string().trim().min(1, 'نام لکھیں').max(100),
+  email,
+  password: z.string().min(MIN_PASSWORD_LENGTH, `پاس ورڈ کم از کم ${MIN_PASSWORD_LENGTH} حروف کا ہو`),
+})
+
+export type SignInValues = z.input<typeof signInSchema>
+export type SignUpValues = z.input<typeof signUpSchema>
@@ -0,0 +1,9 @@
+// Server only, apart from `roles`, `credentials`, `pages` and `redirect`,
+// which client components import directly
+export * from './roles'
+export * from './credentials'
+export * from './pages'
+export * from './redirect'
+export * from './password'
+export * from './options'
+export * from './session'
@@ -0,0 +1,53 @@
+import type { NextAuthOptions } from 'next-auth'
+import CredentialsProvider from 'next-auth/providers/credentials'
+import { db } from '@/lib/db'
+import { signInSchema } from './credentials'
+import { SIGN_IN_PAGE } from './pages'
+import { verifyPassword } from './password'
+import { isRole } from './roles'
+
+// Email and password checked against the User table; sessions are JWTs in
+// a cookie, so no external provider or session table is needed
+export const authOptions: NextAuthOptions = {
+  session: { strategy: 'jwt' },
+  pages: { signIn: SIGN_IN_PAGE },
+  providers: [
+    CredentialsProvider({
+      name: 'Email',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
+      },
+      async authorize(credentials) {
+        const parsed = signInSchema.safeParse(credentials)
+        if (!parsed.success) return null
+        const { email, password } = parsed.data
+
+        const user = await db.user.findUnique({ where: { email } })
+        if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) return null
+        return { id: user.id, email: user.email, name: user.name, role: isRole(user.role) ? user.role : 'student' }
+      },
+    }),
+  ],
+  callbacks: {
+    // The role is read again whenever the session is, so a changed role
+    // applies at once; an account since deleted is signed out (next-auth
+    // clears the session cookie when this throws)
+    async jwt({ token, user }) {
+      if (user) {
+        token.id = user.id
+        token.role = user.role
+        return token
+      }
+      const stored = await db.user.findUnique({ where: { id: token.id }, select: { role: true } })
+      if (!stored) throw new Error(`user ${token.id} no longer exists`)
+      token.role = isRole(stored.role) ? stored.role : 'student'
+      return token
+    },
+    session({ session, token }) {
+      session.user.id = token.id
+      session.user.role = token.role
+      return session
+    },
+  },
+}
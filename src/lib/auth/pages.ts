@@ -0,0 +1,3 @@
+// Pages under `/auth`, a reserved topic id
+export const SIGN_IN_PAGE = '/auth/signin'
+export const SIGN_UP_PAGE = '/auth/signup'
@@ -0,0 +1,21 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>
+
+const KEY_LENGTH = 64
+
+// 'scrypt$<salt>$<key>', both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const key = await scryptAsync(password, salt, KEY_LENGTH)
+  return ['scrypt', salt.toString('base64'), key.toString('base64')].join('$')
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, salt, key] = hash.split('$')
+  if (scheme !== 'scrypt' || !salt || !key) return false
+  const expected = Buffer.from(key, 'base64')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,5 @@
+// Where to go after signing in: only paths on this site, so a crafted
+// `callbackUrl` cannot send the user elsewhere
+export function safeCallbackUrl(callbackUrl: string | null | undefined): string {
+  return callbackUrl?.startsWith('/') && !callbackUrl.startsWith('//') ? callbackUrl : '/'
+}
@@ -0,0 +1,12 @@
+// Roles in increasing order of what they may do; each role can do
+// everything the ones before it can
+export const ROLES = ['student', 'teacher', 'editor', 'admin'] as const
+
+export type Role = (typeof ROLES)[number]
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role)
+
+// Whether `role` grants at least what `required` does
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required)
+}
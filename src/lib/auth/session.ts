@@ -0,0 +1,33 @@
+import { getServerSession, type Session } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { forbidden, unauthorized } from '@/lib/api'
+import { authOptions } from './options'
+import { SIGN_IN_PAGE } from './pages'
+import { hasRole, type Role } from './roles'
+
+export type SessionUser = Session['user']
+
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const session = await getServerSession(authOptions)
+  return session?.user ?? null
+}
+
+// For route handlers: the signed-in user if their role is at least `role`,
+// else the 401 or 403 response to return
+export async function requireUser(role: Role = 'student'): Promise<SessionUser | Response> {
+  const user = await getCurrentUser()
+  if (!user) return unauthorized()
+  return hasRole(user.role, role) ? user : forbidden()
+}
+
+const signInUrl = (callbackUrl: string, error?: string) =>
+  `${SIGN_IN_PAGE}?${new URLSearchParams({ callbackUrl, ...(error && { error }) })}`
+
+// For pages: the signed-in user if their role is at least `role`; anyone
+// else is sent to sign in (as another account), then back to `path`
+export async function requirePageUser(role: Role, path: string): Promise<SessionUser> {
+  const user = await getCurrentUser()
+  if (!user) redirect(signInUrl(path))
+  if (!hasRole(user.role, role)) redirect(signInUrl(path, 'AccessDenied'))
+  return user
+}
@@ -0,0 +1,103 @@
+import type { CalloutTone, ContentBlock, ContentEntry, Section } from './schema'
+
+// `content` and `notes` entries, plain strings and typed blocks alike (see
+// `contentBlockSchema`): their text, and how the content editor writes
+// them.
+
+export const toBlock = (entry: ContentEntry): ContentBlock =>
+  typeof entry === 'string' ? { type: 'paragraph', text: entry } : entry
+
+// Between the cells of a table row, the letters of a set and an example and
+// its explanation, wherever a block is read as lines of text; the way the
+// older strings wrote them
+const SEPARATOR = ' - '
+
+// An entry's text as lines in reading order, with ayat as their
+// {{surah:ayah}} citation: what search, the tajweed explanations and the
+// citation lookups read
+export function entryLines(entry: ContentEntry): string[] {
+  const block = toBlock(entry)
+  switch (block.type) {
+    case 'paragraph':
+    case 'callout':
+      return [block.text]
+    case 'example':
+      return [block.explanation ? `${block.arabic}${SEPARATOR}${block.explanation}` : block.arabic]
+    case 'list':
+      return block.items
+    case 'letters':
+      return [block.letters.join(SEPARATOR)]
+    case 'table':
+      return block.rows.map((cells) => cells.join(SEPARATOR))
+    case 'verse':
+      return [`{{${block.reference}}}`, ...(block.explanation ? [block.explanation] : [])]
+  }
+}
+
+// Every line of a section's content, then of its notes
+export const sectionLines = ({ content, notes }: Pick<Section, 'content' | 'notes'>): string[] =>
+  [...content, ...(notes ?? [])].flatMap(entryLines)
+
+// In the content editor every entry is a chunk of text, the chunks
+// separated by blank lines. A paragraph is just its text; a block starts
+// with a line naming its type:
+//
+//   ::example           the Arabic, then the explanation on the next line
+//   ::list 3            one item per line; the number to start from is optional
+//   ::letters           the letters on one line, separated by spaces
+//   ::table             one row per line, cells separated by |
+//   ::callout warning   the text; the tone, note or warning, is optional
+//   ::verse 2:1-5       an explanation on the next line, if any
+const DIRECTIVE = /^::([a-z]+)(?:[ \t]+(.*))?$/
+
+export function entryMarkup(entry: ContentEntry): string {
+  const block = toBlock(entry)
+  const lines = (head: string, ...body: (string | undefined)[]) =>
+    [head, ...body.filter((line) => line !== undefined)].join('\n')
+  switch (block.type) {
+    case 'paragraph':
+      return block.text
+    case 'example':
+      return lines('::example', block.arabic, block.explanation)
+    case 'list':
+      return lines(block.start ? `::list ${block.start}` : '::list', ...block.items)
+    case 'letters':
+      return lines('::letters', block.letters.join(' '))
+    case 'table':
+      return lines('::table', ...block.rows.map((cells) => cells.join(' | ')))
+    case 'callout':
+      return lines(block.tone ? `::callout ${block.tone}` : '::callout', block.text)
+    case 'verse':
+      return lines(`::verse ${block.reference}`, block.explanation)
+  }
+}
+
+// The entry a chunk of editor text stands for. A block missing what it
+// needs comes back with it empty, for validation to point out; a chunk not
+// starting with a known type is a paragraph.
+export function parseEntryMarkup(chunk: string): ContentEntry {
+  const [head, ...body] = chunk.split('\n').map((line) => line.trim())
+  const directive = head.match(DIRECTIVE)
+  if (!directive) return chunk
+
+  const [, type, argument = ''] = directive
+  const rest = body.join('\n')
+  switch (type) {
+    case 'example':
+      return { type, arabic: body[0] ?? '', ...(body.length > 1 && { explanation: body.slice(1).join('\n') }) }
+    case 'list': {
+      const start = Number(argument)
+      return { type, items: body, ...(Number.isInteger(start) && start > 1 && { start }) }
+    }
+    case 'letters':
+      return { type, letters: rest.split(/\s+/).filter(Boolean) }
+    case 'table':
+      return { type, rows: body.map((row) => row.split('|').map((cell) => cell.trim())) }
+    case 'callout':
+      return { type, text: rest, ...(argument && { tone: argument as CalloutTone }) }
+    case 'verse':
+      return { type, reference: argument, ...(rest && { explanation: rest }) }
+    default:
+      return chunk
+  }
+}
@@ -0,0 +1,169 @@
+import { entryMarkup, parseEntryMarkup } from './blocks'
+import type { Chapter, ContentEntry, IconKey, Section, TopicContent } from './schema'
+
+// The content editor's working copy of a topic. Every chapter and section
+// carries a `key` of its own, since its id may be blank or a duplicate
+// while it is being edited, and paragraphs and blocks are edited as one
+// text each (see `entryMarkup`). Translations are not edited, but follow
+// the entries they translate as these are added, removed or moved.
+
+export interface DraftSection {
+  key: string
+  id: string
+  title: string
+  subtitle: string
+  // Paragraphs and blocks separated by blank lines
+  content: string
+  notes: string
+  // Not edited here; kept as they are
+  quiz: Section['quiz']
+  translations: Section['translations']
+  // The entries `translations` were made for
+  translated: Pick<Section, 'content' | 'notes'>
+}
+
+export interface DraftChapter {
+  key: string
+  id: string
+  title: string
+  subtitle: string
+  icon: IconKey
+  translations: Chapter['translations']
+  sections: DraftSection[]
+}
+
+export interface TopicDraft {
+  meta: TopicContent['meta']
+  chapters: DraftChapter[]
+}
+
+let lastKey = 0
+const newKey = () => `draft-${++lastKey}`
+
+export const joinParagraphs = (entries: ContentEntry[] = []) => entries.map(entryMarkup).join('\n\n')
+
+export const splitParagraphs = (text: string): ContentEntry[] =>
+  text
+    .split(/\n\s*\n/)
+    .map((chunk) => chunk.trim())
+    .filter(Boolean)
+    .map(parseEntryMarkup)
+
+const toDraftSection = ({ id, title, subtitle, content, notes, quiz, translations }: Section): DraftSection => ({
+  key: newKey(),
+  id,
+  title,
+  subtitle,
+  content: joinParagraphs(content),
+  notes: joinParagraphs(notes),
+  quiz,
+  translations,
+  translated: { content, notes },
+})
+
+// The translations of `before` for the entries of `after`: an entry kept
+// as it was takes its translation along wherever it moved, and a new or
+// edited one is left untranslated ("")
+function followEntries(before: ContentEntry[], after: ContentEntry[], entries: ContentEntry[]): ContentEntry[] {
+  const unmatched: (string | undefined)[] = before.map(entryMarkup)
+  const followed = after.map((entry) => {
+    const index = unmatched.indexOf(entryMarkup(entry))
+    if (index < 0) return ''
+    unmatched[index] = undefined
+    return entries[index] ?? ''
+  })
+  while (followed.at(-1) === '') followed.pop()
+  return followed
+}
+
+function followTranslations(
+  translations: Section['translations'],
+  translated: DraftSection['translated'],
+  content: ContentEntry[],
+  notes: ContentEntry[],
+): Section['translations'] {
+  if (!translations) return undefined
+  return Object.fromEntries(
+    Object.entries(translations).map(([locale, translation]) => [
+      locale,
+      {
+        ...translation,
+        ...(translation?.content && { content: followEntries(translated.content, content, translation.content) }),
+        ...(translation?.notes && { notes: followEntries(translated.notes ?? [], notes, translation.notes) }),
+      },
+    ]),
+  )
+}
+
+// Chapters in reading order
+export function toDraft(content: TopicContent): TopicDraft {
+  return {
+    meta: content.meta,
+    chapters: [...content.chapters]
+      .sort((a, b) => a.order - b.order)
+      .map(({ id, title, subtitle, icon, translations, sections }) => ({
+        key: newKey(),
+        id,
+        title,
+        subtitle,
+        icon,
+        translations,
+        sections: sections.map(toDraftSection),
+      })),
+  }
+}
+
+export function fromDraftSection(section: DraftSection): Section {
+  const { id, title, subtitle, quiz, translations, translated } = section
+  const content = splitParagraphs(section.content)
+  const notes = splitParagraphs(section.notes)
+  return {
+    id,
+    title,
+    subtitle,
+    content,
+    notes,
+    ...(quiz && { quiz }),
+    ...(translations && { translations: followTranslations(translations, translated, content, notes) }),
+  }
+}
+
+// Chapter `order` follows the draft's order, numbered from 1
+export function fromDraft({ meta, chapters }: TopicDraft): TopicContent {
+  return {
+    meta,
+    chapters: chapters.map(
+      ({ id, title, subtitle, icon, translations, sections }, index): Chapter => ({
+        id,
+        title,
+        subtitle,
+        icon,
+        order: index + 1,
+        ...(translations && { translations }),
+        sections: sections.map(fromDraftSection),
+      }),
+    ),
+  }
+}
+
+export const emptySection = (): DraftSection => ({
+  key: newKey(),
+  id: '',
+  title: '',
+  subtitle: '',
+  content: '',
+  notes: '',
+  quiz: undefined,
+  translations: undefined,
+  translated: { content: [] },
+})
+
+export const emptyChapter = (): DraftChapter => ({
+  key: newKey(),
+  id: '',
+  title: '',
+  subtitle: '',
+  icon: 'BookOpen',
+  translations: undefined,
+  sections: [emptySection()],
+})
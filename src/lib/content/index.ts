@@ -0,0 +1,114 @@
+import { cache } from 'react'
+import { draftMode } from 'next/headers'
+import { Prisma } from '@prisma/client'
+import { hasRole } from '@/lib/auth/roles'
+import { getCurrentUser } from '@/lib/auth/session'
+import { topicsListSource, topicSources } from './sources'
+import { readTopicContent, readTopics } from './store'
+import { parseTopicContent, parseTopicsList } from './validate'
+import type { Chapter, Section, Topic, TopicContent } from './schema'
+
+// Server only: content is read from the database. Client components import
+// `./schema`, `./validate`, `./draft`, `./revisions` or `./workflow`
+// directly.
+export * from './schema'
+export {
+  ContentValidationError,
+  parseTopicContent,
+  parseTopicsList,
+  validateTopicContent,
+  validateTopicsList,
+} from './validate'
+
+// The bundled data files are parsed once at module load, so a malformed
+// file fails the dev server and `next build` with a readable error instead
+// of rendering a broken page. They seed the database
+// (`bun run content:import`) and are served until it has been imported.
+export const topicsList = parseTopicsList(topicsListSource.file, topicsListSource.data, Object.keys(topicSources))
+
+const bundledContents = new Map<string, TopicContent>(
+  Object.entries(topicSources).map(([id, { file, data }]) => [id, parseTopicContent(file, data)]),
+)
+
+let warnedUnavailable = false
+
+// No database configured, none reachable, or its tables not created yet
+// (P2021)
+const unavailable = (error: unknown) =>
+  error instanceof Prisma.PrismaClientInitializationError ||
+  (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2021')
+
+// The result of a database read, or undefined without a usable database.
+// Any other error is thrown, and content read from it is validated by the
+// caller, so a broken query or invalid content still fails loudly.
+async function fromDatabase<T>(read: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await read()
+  } catch (error) {
+    if (!unavailable(error)) throw error
+    if (!warnedUnavailable) {
+      warnedUnavailable = true
+      console.warn('Content database unavailable, serving the bundled data files:', String(error))
+    }
+    return undefined
+  }
+}
+
+// Each read is made once per request
+export const getTopics = cache(async (): Promise<Topic[]> => {
+  const stored = await fromDatabase(readTopics)
+  const topics = stored?.length
+    ? parseTopicsList(
+        'the database',
+        { ...topicsList, topics: stored },
+        stored.map((topic) => (topic as Topic).id),
+      ).topics
+    : topicsList.topics
+  return [...topics].sort((a, b) => a.order - b.order)
+})
+
+export async function getTopic(topicId: string): Promise<Topic | undefined> {
+  return (await getTopics()).find((topic) => topic.id === topicId)
+}
+
+// Whether a reviewer has turned on draft preview (`/api/preview`) and is
+// still signed in as one; the preview cookie outlives a sign-out or a
+// demotion. False outside a request, e.g. in `generateStaticParams`.
+async function previewing(): Promise<boolean> {
+  try {
+    if (!(await draftMode()).isEnabled) return false
+  } catch {
+    return false
+  }
+  const user = await getCurrentUser()
+  return !!user && hasRole(user.role, 'teacher')
+}
+
+// The published content of a topic, or its latest drafts with `drafts`,
+// which defaults to whether the request is a preview. The bundled file is
+// served only for a topic never imported; one imported with nothing
+// published has no content yet.
+export const getTopicContent = cache(async (topicId: string, drafts?: boolean): Promise<TopicContent | undefined> => {
+  const withDrafts = drafts ?? (await previewing())
+  const stored = await fromDatabase(() => readTopicContent(topicId, withDrafts))
+  if (stored === undefined) return bundledContents.get(topicId)
+  return stored === null ? undefined : parseTopicContent(`topic "${topicId}" in the database`, stored)
+})
+
+export async function getChapter(topicId: string, chapterId: string, drafts?: boolean): Promise<Chapter | undefined> {
+  return (await getTopicContent(topicId, drafts))?.chapters.find((chapter) => chapter.id === chapterId)
+}
+
+export async function getSection(topicId: string, chapterId: string, sectionId: string): Promise<Section | undefined> {
+  return (await getChapter(topicId, chapterId))?.sections.find((section) => section.id === sectionId)
+}
+
+// Every listed topic with its content
+export async function getTopicContents(drafts?: boolean): Promise<{ topic: Topic; content: TopicContent }[]> {
+  const topics = await getTopics()
+  const contents = await Promise.all(topics.map((topic) => getTopicContent(topic.id, drafts)))
+  return topics.flatMap((topic, index) => {
+    const content = contents[index]
+    return content ? [{ topic, content }] : []
+  })
+}
@@ -0,0 +1,56 @@
+import { DEFAULT_LOCALE, type Locale } from '@/i18n/locales'
+import type { Chapter, Section, Topic, TopicContent, TopicsList } from './schema'
+
+// Content in one language: each translated field in place of the Urdu one,
+// and the Urdu wherever a translation is missing or empty. Ids, order and
+// quiz questions stay as they are.
+
+// A translated block stands in for the whole block
+const translated = <T>(translation: T | '' | undefined, original: T) => translation || original
+
+type Texts = { title: string; subtitle: string; description: string }
+
+function localizeTexts<T extends Partial<Texts> & { translations?: Partial<Record<Locale, Partial<Texts>>> }>(
+  entry: T,
+  locale: Locale,
+): T {
+  const translation = locale === DEFAULT_LOCALE ? undefined : entry.translations?.[locale]
+  if (!translation) return entry
+  return {
+    ...entry,
+    ...(entry.title !== undefined && { title: translated(translation.title, entry.title) }),
+    ...(entry.subtitle !== undefined && { subtitle: translated(translation.subtitle, entry.subtitle) }),
+    ...(entry.description !== undefined && { description: translated(translation.description, entry.description) }),
+  }
+}
+
+export function localizeSection(section: Section, locale: Locale): Section {
+  const translation = locale === DEFAULT_LOCALE ? undefined : section.translations?.[locale]
+  if (!translation) return section
+  return {
+    ...localizeTexts(section, locale),
+    content: section.content.map((entry, index) => translated(translation.content?.[index], entry)),
+    ...(section.notes && {
+      notes: section.notes.map((note, index) => translated(translation.notes?.[index], note)),
+    }),
+  }
+}
+
+const localizeChapter = (chapter: Chapter, locale: Locale): Chapter => ({
+  ...localizeTexts(chapter, locale),
+  sections: chapter.sections.map((section) => localizeSection(section, locale)),
+})
+
+export function localizeContent(content: TopicContent, locale: Locale): TopicContent {
+  if (locale === DEFAULT_LOCALE) return content
+  return {
+    meta: localizeTexts(content.meta, locale),
+    chapters: content.chapters.map((chapter) => localizeChapter(chapter, locale)),
+  }
+}
+
+export const localizeTopic = (topic: Topic, locale: Locale): Topic => localizeTexts(topic, locale)
+
+export function localizeTopicsList(list: TopicsList, locale: Locale): TopicsList {
+  return { ...localizeTexts(list, locale), topics: list.topics.map((topic) => localizeTopic(topic, locale)) }
+}
@@ -0,0 +1,195 @@
+import { scriptRuns } from '@/lib/typography'
+import type { ContentBlock, ContentEntry, TopicContent } from './schema'
+
+// Turns the older `content` and `notes` strings, which laid out examples,
+// lists, letter sets and tables with dashes, into typed blocks. Used by
+// `bun run content:migrate`. Only strings are touched, so running it again
+// changes nothing; text that fits no block stays a paragraph, word for word.
+
+// Runs of dashes or dots the older strings put between a rule and its
+// examples, often without spaces
+const DIVIDER = /\s*(?:-{3,}|\.{4,}|ـ{3,})\s*/
+// مثلاً (for example), with or without its tanween and colon
+const EXAMPLE_LEAD = /^مثلاً?\s*:?\s*/
+// (1), (1). or ١- at the start of a list item
+const NUMBERED = /^\(([0-9]+)\)\.?\s*|^([0-9١-٩۱-۹]+)\s*-\s*/
+// (1), (2) between the examples after one مثلاً
+const EXAMPLE_NUMBER = /\s*\([0-9]+\)\s*/
+// Between an example's words and their explanation: a dash or a kashida
+const PIECE = /(\s+[-ـ]+[۔.]?\s+)/
+const NOTE_LEAD = /^نوٹ\s*:\s*/
+// A whole entry that is an ayah citation, with any explanation after it
+const VERSE = /^\{\{([^{}]+)\}\}\s*([\s\S]*)$/
+const QURAN_REFERENCE = /^[0-9]+:[0-9]+(?:-[0-9]+)?$/
+// One letter and its marks, in a letter set such as ص - ض - ط
+const LETTER = /^[ء-يٱ-ۓ][ً-ٰۡ]*$/
+// A term short enough to head a table row, such as م: or الجوف
+const TABLE_TERM = 30
+const TABLE_ROWS = 3
+
+// Arabic-Indic and Extended Arabic-Indic digits as a number
+const toNumber = (digits: string) =>
+  Number(digits.replace(/[٠-٩۰-۹]/g, (digit) => String(digit.charCodeAt(0) & 0xf)))
+
+// Spaces and punctuation between the words of an example
+const SEPARATION = /^[\s.,:;!?'"()[\]\-ـ،؛۔؟]*$/
+
+// Vocalized Arabic throughout, give or take spaces and punctuation; a
+// single Urdu or unvocalized word keeps the text out of an example
+function isVocalized(text: string): boolean {
+  const runs = scriptRuns(text)
+  return (
+    runs.some(({ script }) => script === 'quran') &&
+    runs.every(({ script, text }) => script === 'quran' || SEPARATION.test(text))
+  )
+}
+
+// The vocalized words a piece of text starts with, then the rest as their
+// explanation; undefined when it does not start with any
+function example(text: string): Extract<ContentBlock, { type: 'example' }> | undefined {
+  const pieces = text.split(PIECE)
+  let words = 0
+  while (words < pieces.length && isVocalized(pieces[words])) words += 2
+  if (words === 0) return undefined
+  const arabic = pieces.slice(0, words - 1).join('').trim()
+  const explanation = pieces.slice(words).join('').trim()
+  return { type: 'example', arabic, ...(explanation && { explanation }) }
+}
+
+function letters(text: string): ContentBlock | undefined {
+  const pieces = text.split(/\s*[-ـ،,]\s*/)
+  return pieces.length > 1 && pieces.every((piece) => LETTER.test(piece))
+    ? { type: 'letters', letters: pieces }
+    : undefined
+}
+
+function verse(text: string): ContentBlock | undefined {
+  const [, reference, explanation] = text.match(VERSE) ?? []
+  return reference && QURAN_REFERENCE.test(reference)
+    ? { type: 'verse', reference, ...(explanation && { explanation }) }
+    : undefined
+}
+
+const callout = (text: string): ContentBlock | undefined =>
+  NOTE_LEAD.test(text) ? { type: 'callout', tone: 'note', text: text.replace(NOTE_LEAD, '') } : undefined
+
+// A list item keeps its number until neighbouring items are merged
+type Item = { type: 'item'; number: number; text: string }
+
+// The blocks one string stands for, split at its dividers. After مثلاً,
+// numbered pieces are further examples rather than list items.
+function stringBlocks(text: string): (ContentBlock | Item)[] {
+  const blocks: (ContentBlock | Item)[] = []
+  let examples = false
+
+  for (const segment of text.split(DIVIDER).map((part) => part.trim()).filter(Boolean)) {
+    const previous = blocks.at(-1)
+    const numbered = segment.match(NUMBERED)
+    const lead = segment.match(EXAMPLE_LEAD)
+
+    if (lead || (examples && numbered)) {
+      const parts = segment.slice((lead ?? numbered)![0].length).split(EXAMPLE_NUMBER).filter((part) => part.trim())
+      const found = parts.map(example)
+      examples = true
+      if (found.length > 0 && found.every(Boolean)) {
+        blocks.push(...(found as ContentBlock[]))
+        continue
+      }
+      // Examples in prose, such as the Urdu sentences about waqf, stay as
+      // they are
+      blocks.push({ type: 'paragraph', text: segment })
+      continue
+    }
+    examples = false
+
+    if (numbered) {
+      blocks.push({ type: 'item', number: toNumber(numbered[1] ?? numbered[2]), text: segment.slice(numbered[0].length) })
+    } else if (previous?.type === 'example' && !previous.explanation && !example(segment)) {
+      // An example given without its explanation takes the text after it
+      previous.explanation = segment
+    } else {
+      blocks.push(verse(segment) ?? callout(segment) ?? letters(segment) ?? example(segment) ?? { type: 'paragraph', text: segment })
+    }
+  }
+  return blocks
+}
+
+// Three or more entries in a row of the form "term - meaning", such as the
+// waqf signs, become a table of two columns
+const tableRow = (entry: ContentEntry) => {
+  if (typeof entry !== 'string') return undefined
+  const cells = entry.split(' - ')
+  return cells.length === 2 && cells[0].trim().length <= TABLE_TERM ? cells.map((cell) => cell.trim()) : undefined
+}
+
+export function migrateEntries(entries: ContentEntry[]): ContentEntry[] {
+  const blocks: (ContentBlock | Item)[] = []
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index]
+    if (typeof entry !== 'string') {
+      blocks.push(entry)
+      continue
+    }
+
+    let rows = 0
+    while (index + rows < entries.length && tableRow(entries[index + rows])) rows++
+    if (rows >= TABLE_ROWS) {
+      blocks.push({ type: 'table', rows: entries.slice(index, index + rows).map((row) => tableRow(row)!) })
+      index += rows - 1
+      continue
+    }
+    blocks.push(...stringBlocks(entry))
+  }
+
+  // Numbered items in a row make one list, starting from the first number
+  const migrated: ContentBlock[] = []
+  for (const block of blocks) {
+    if (block.type !== 'item') {
+      migrated.push(block)
+      continue
+    }
+    const list = migrated.at(-1)
+    if (list?.type === 'list' && (list.start ?? 1) + list.items.length === block.number) {
+      list.items.push(block.text)
+    } else {
+      migrated.push({ type: 'list', items: [block.text], ...(block.number !== 1 && { start: block.number }) })
+    }
+  }
+
+  // Paragraphs stay plain strings, as before
+  return migrated.map((block) => (block.type === 'paragraph' ? block.text : block))
+}
+
+export interface MigrationReport {
+  // chapter/section ids of the sections changed
+  migrated: string[]
+  // Sections left alone because their translations follow the strings
+  // entry for entry, and would no longer line up
+  translated: string[]
+}
+
+export function migrateTopicContent(content: TopicContent): { content: TopicContent; report: MigrationReport } {
+  const report: MigrationReport = { migrated: [], translated: [] }
+  const chapters = content.chapters.map((chapter) => ({
+    ...chapter,
+    sections: chapter.sections.map((section) => {
+      const path = `${chapter.id}/${section.id}`
+      const translated = Object.values(section.translations ?? {}).some(
+        (translation) => translation?.content || translation?.notes,
+      )
+      const migrated = {
+        ...section,
+        content: migrateEntries(section.content),
+        ...(section.notes && { notes: migrateEntries(section.notes) }),
+      }
+      if (JSON.stringify(migrated) === JSON.stringify(section)) return section
+      if (translated) {
+        report.translated.push(path)
+        return section
+      }
+      report.migrated.push(path)
+      return migrated
+    }),
+  }))
+  return { content: { ...content, chapters }, report }
+}
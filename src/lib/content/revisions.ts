@@ -0,0 +1,89 @@
+import { entryMarkup } from './blocks'
+import type { ContentEntry, QuizQuestionData, Section } from './schema'
+
+// A section's text as of one revision; its id is the section it belongs to
+export interface SectionSnapshot {
+  title: string
+  subtitle: string
+  content: ContentEntry[]
+  notes: ContentEntry[]
+  quiz?: QuizQuestionData[]
+  translations?: Section['translations']
+}
+
+export interface SectionRevisionSummary {
+  version: number
+  createdAt: string
+  // Null for revisions made by the importer
+  author: string | null
+  message: string | null
+  section: SectionSnapshot
+}
+
+// Each section's latest version by section id, as an editor loaded them
+export type SectionVersions = Record<string, number>
+
+export const sectionSnapshot = ({ title, subtitle, content, notes, quiz, translations }: Section): SectionSnapshot => ({
+  title,
+  subtitle,
+  content,
+  notes: notes ?? [],
+  ...(quiz && { quiz }),
+  ...(translations && { translations }),
+})
+
+export const sectionFromSnapshot = (id: string, snapshot: SectionSnapshot): Section => ({ id, ...snapshot })
+
+export type DiffLine = { type: 'same' | 'added' | 'removed'; text: string }
+
+// Paragraph-level diff (longest common subsequence): a paragraph edited in
+// place shows as the old one removed and the new one added. Blocks are
+// compared as the editor writes them.
+export function diffParagraphs(before: string[], after: string[]): DiffLine[] {
+  // common[i][j]: length of the LCS of before[i..] and after[j..]
+  const common = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ type: 'same', text: before[i] })
+      i++
+      j++
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: before[i++] })
+    } else {
+      lines.push({ type: 'added', text: after[j++] })
+    }
+  }
+  for (; i < before.length; i++) lines.push({ type: 'removed', text: before[i] })
+  for (; j < after.length; j++) lines.push({ type: 'added', text: after[j] })
+  return lines
+}
+
+export interface SectionDiff {
+  // Title and subtitle, when they differ
+  fields: { field: 'title' | 'subtitle'; before: string; after: string }[]
+  content: DiffLine[]
+  notes: DiffLine[]
+  quizChanged: boolean
+  translationsChanged: boolean
+}
+
+export function diffSections(before: SectionSnapshot, after: SectionSnapshot): SectionDiff {
+  return {
+    fields: (['title', 'subtitle'] as const)
+      .filter((field) => before[field] !== after[field])
+      .map((field) => ({ field, before: before[field], after: after[field] })),
+    content: diffParagraphs(before.content.map(entryMarkup), after.content.map(entryMarkup)),
+    notes: diffParagraphs(before.notes.map(entryMarkup), after.notes.map(entryMarkup)),
+    quizChanged: JSON.stringify(before.quiz ?? []) !== JSON.stringify(after.quiz ?? []),
+    translationsChanged: JSON.stringify(before.translations ?? {}) !== JSON.stringify(after.translations ?? {}),
+  }
+}
@@ -0,0 +1,217 @@
+import { z } from 'zod'
+import { TRANSLATED_LOCALES } from '@/i18n/locales'
+
+// Icon keys a chapter may reference; must stay in sync with `iconMap`
+// in `@/components/topic-icons`.
+export const ICON_KEYS = ['BookOpen', 'MapPin', 'Sparkles', 'Clock', 'Pause', 'Scale', 'N', 'M', 'A'] as const
+
+export type IconKey = (typeof ICON_KEYS)[number]
+
+const requiredString = z
+  .string({ error: (issue) => (issue.input === undefined ? 'is required' : 'must be a string') })
+  .trim()
+  .min(1, 'must not be empty')
+
+// Topic, chapter and section ids double as URL segments, e.g.
+// `/tajweed/nun-sakin/nun-ahkam`.
+const slug = requiredString.regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'must be a lowercase slug such as "heavy-letters"')
+
+// A paragraph in `content`/`notes`. `undefined` here means a sparse-array hole,
+// i.e. a stray comma such as `[ ,"..."]` in a TS data file.
+const paragraph = z
+  .string({
+    error: (issue) =>
+      issue.input === undefined ? 'is a hole in the array (check for a stray comma)' : 'must be a string',
+  })
+  .trim()
+  .min(1, 'must not be empty')
+
+// Typed blocks for what is more than running text. A plain string in
+// `content` or `notes` is a paragraph, the same as a `paragraph` block.
+// `bun run content:migrate` turns the older dash-separated strings into
+// blocks.
+export const CALLOUT_TONES = ['note', 'warning'] as const
+
+export const contentBlockSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('paragraph'), text: requiredString }),
+  // A vocalized word or phrase, with what it shows
+  z.object({ type: z.literal('example'), arabic: requiredString, explanation: requiredString.optional() }),
+  // Numbered points; `start` numbers a list that continues one broken by
+  // other blocks
+  z.object({
+    type: z.literal('list'),
+    items: z.array(requiredString).min(1, 'must have at least one item'),
+    start: z.number().int().positive().optional(),
+  }),
+  // Letters taught together, such as the heavy letters
+  z.object({ type: z.literal('letters'), letters: z.array(requiredString).min(1, 'must have at least one letter') }),
+  z.object({
+    type: z.literal('table'),
+    rows: z.array(z.array(z.string().trim()).min(1, 'must have at least one cell')).min(1, 'must have at least one row'),
+  }),
+  z.object({ type: z.literal('callout'), tone: z.enum(CALLOUT_TONES).optional(), text: requiredString }),
+  // A cited ayah or run of ayat, written as inside {{...}}: "14:4" or "2:1-5"
+  z.object({ type: z.literal('verse'), reference: requiredString, explanation: requiredString.optional() }),
+])
+
+const contentEntry = z.union([paragraph, contentBlockSchema], {
+  error: (issue) =>
+    issue.input === undefined
+      ? 'is a hole in the array (check for a stray comma)'
+      : 'must be a string, or a block whose type is paragraph, example, list, letters, table, callout or verse',
+})
+
+// Translations of some of an entry's fields, by language. A field left out,
+// or empty, is shown in Urdu.
+const translatedText = z.string({ error: 'must be a string' }).trim()
+const translations = <T extends z.ZodRawShape>(shape: T) =>
+  z.partialRecord(z.enum(TRANSLATED_LOCALES), z.object(shape).partial()).optional()
+const textTranslations = translations({ title: translatedText, subtitle: translatedText, description: translatedText })
+
+// Last URL segment of a chapter's quiz page (`/tajweed/nun-sakin/quiz`), so no
+// section may use it as its id
+export const QUIZ_SEGMENT = 'quiz'
+
+// Top-level routes of the app besides the topics (`/review`, `/letters`,
+// `/admin`, `/auth/signin`, `/api/...`), which a topic with the same id
+// would be hidden behind
+export const REVIEW_SEGMENT = 'review'
+export const LETTERS_SEGMENT = 'letters'
+const RESERVED_TOPIC_IDS = ['admin', 'api', 'auth', REVIEW_SEGMENT, LETTERS_SEGMENT]
+
+const options = z
+  .array(requiredString)
+  .min(2, 'must offer at least two options')
+  .refine((values) => new Set(values).size === values.length, 'must not repeat an option')
+
+// The answer is written out as one of the options, so reordering the options
+// cannot silently change it
+const answerInOptions = <T extends { options: string[]; answer: string }>(question: T) =>
+  question.options.includes(question.answer)
+const answerError = { path: ['answer'], error: 'must be one of the options' }
+
+// Questions a section declares for its chapter's quiz. `explanation` is shown
+// after answering, with a link back to the section.
+export const quizQuestionSchema = z.discriminatedUnion(
+  'type',
+  [
+    z
+      .object({
+        type: z.literal('multiple-choice'),
+        question: requiredString,
+        options,
+        answer: requiredString,
+        explanation: requiredString.optional(),
+      })
+      .refine(answerInOptions, answerError),
+    // Which rule applies in a vocalized example
+    z
+      .object({
+        type: z.literal('identify-rule'),
+        example: requiredString,
+        options,
+        answer: requiredString,
+        explanation: requiredString.optional(),
+      })
+      .refine(answerInOptions, answerError),
+    // Which group of letters a letter belongs to
+    z
+      .object({
+        type: z.literal('letter-group'),
+        letter: requiredString,
+        options,
+        answer: requiredString,
+        explanation: requiredString.optional(),
+      })
+      .refine(answerInOptions, answerError),
+    z.object({
+      type: z.literal('true-false'),
+      statement: requiredString,
+      answer: z.boolean({ error: 'is required and must be true or false' }),
+      explanation: requiredString.optional(),
+    }),
+  ],
+  {
+    error: (issue) =>
+      issue.code === 'invalid_union'
+        ? 'unknown question type; expected multiple-choice, identify-rule, letter-group or true-false'
+        : undefined,
+  },
+)
+
+export const sectionSchema = z.object({
+  id: slug.refine((id) => id !== QUIZ_SEGMENT, `"${QUIZ_SEGMENT}" is reserved for the chapter quiz page`),
+  title: requiredString,
+  subtitle: requiredString,
+  content: z.array(contentEntry, { error: 'is required and must be an array of strings and blocks' }),
+  notes: z.array(contentEntry).optional(),
+  quiz: z.array(quizQuestionSchema).optional(),
+  // Entry for entry: `content[2]` translates the Urdu `content[2]`, a
+  // block with a block, and "" leaves an entry untranslated
+  translations: translations({
+    title: translatedText,
+    subtitle: translatedText,
+    content: z.array(z.union([translatedText, contentBlockSchema])),
+    notes: z.array(z.union([translatedText, contentBlockSchema])),
+  }),
+})
+
+export const chapterSchema = z.object({
+  id: slug,
+  title: requiredString,
+  subtitle: requiredString,
+  icon: z.enum(ICON_KEYS, {
+    error: (issue) => `unknown icon "${String(issue.input)}"; expected one of ${ICON_KEYS.join(', ')}`,
+  }),
+  order: z.number({ error: 'is required and must be a number' }),
+  sections: z.array(sectionSchema).min(1, 'must contain at least one section'),
+  translations: translations({ title: translatedText, subtitle: translatedText }),
+})
+
+// Id uniqueness across chapters and sections is checked separately in
+// `validate.ts`, so it is reported even when other fields are invalid.
+export const topicContentSchema = z.object({
+  meta: z.object({
+    title: requiredString,
+    subtitle: requiredString,
+    description: requiredString,
+    translations: textTranslations,
+  }),
+  chapters: z.array(chapterSchema).min(1, 'must contain at least one chapter'),
+})
+
+export const topicSchema = z
+  .object({
+    id: slug.refine((id) => !RESERVED_TOPIC_IDS.includes(id), {
+      error: (issue) => `"${String(issue.input)}" is reserved for another page`,
+    }),
+    title: requiredString,
+    subtitle: requiredString,
+    description: requiredString,
+    icon: chapterSchema.shape.icon,
+    route: requiredString,
+    order: z.number({ error: 'is required and must be a number' }),
+    translations: textTranslations,
+  })
+  .refine((topic) => topic.route === `/${topic.id}`, {
+    path: ['route'],
+    error: (issue) => `must be "/${(issue.input as { id?: string }).id}" to match the topic id`,
+  })
+
+export const topicsListSchema = z.object({
+  title: requiredString,
+  subtitle: requiredString,
+  description: requiredString,
+  topics: z.array(topicSchema).min(1, 'must contain at least one topic'),
+  translations: textTranslations,
+})
+
+export type QuizQuestionData = z.infer<typeof quizQuestionSchema>
+export type ContentBlock = z.infer<typeof contentBlockSchema>
+export type ContentEntry = z.infer<typeof contentEntry>
+export type CalloutTone = (typeof CALLOUT_TONES)[number]
+export type Section = z.infer<typeof sectionSchema>
+export type Chapter = z.infer<typeof chapterSchema>
+export type TopicContent = z.infer<typeof topicContentSchema>
+export type Topic = z.infer<typeof topicSchema>
+export type TopicsList = z.infer<typeof topicsListSchema>
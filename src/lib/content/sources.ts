@@ -0,0 +1,21 @@
+import { tajweedContent } from '@/data/tajweed-content'
+import tajweedJson from '@/data/tajweed-content.json'
+import jannatJson from '@/data/jannat-content.json'
+import topicsList from '@/data/topics-list.json'
+
+export const topicsListSource = { file: 'src/data/topics-list.json', data: topicsList }
+
+// Raw, unvalidated topic data keyed by the topic `id` in topics-list.json.
+// A new subject needs a data file, an entry here and an entry in the list,
+// then `bun run content:import` to copy it into the database.
+export const topicSources: Record<string, { file: string; data: unknown }> = {
+  tajweed: { file: 'src/data/tajweed-content.ts', data: tajweedContent },
+  jannat: { file: 'src/data/jannat-content.json', data: jannatJson },
+}
+
+// Data files not served as a topic but still validated. The JSON edition
+// of tajweed holds the sifat, madd and hamzah chapters that have not been
+// merged into tajweed-content.ts yet.
+export const unlistedSources: Record<string, unknown> = {
+  'src/data/tajweed-content.json': tajweedJson,
+}
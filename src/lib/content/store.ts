@@ -0,0 +1,437 @@
+import type { Paragraph, Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { entryLines } from './blocks'
+import {
+  sectionFromSnapshot,
+  sectionSnapshot,
+  type SectionRevisionSummary,
+  type SectionSnapshot,
+  type SectionVersions,
+} from './revisions'
+import type { ContentEntry, Topic, TopicContent } from './schema'
+import type { PendingSection, ReviewComment, SectionReview, SectionStatus } from './workflow'
+
+// Content in the database. Reads return raw data for `./index` to validate
+// like a data file; writes take validated content, a whole topic at a time,
+// and record a revision for every section whose text changed. A new
+// revision is a draft until a reviewer publishes it (see `./workflow`).
+
+const orderedText = { orderBy: { position: 'asc' }, select: { text: true, block: true } } as const
+const sectionText = { paragraphs: orderedText, notes: orderedText } as const
+
+// A paragraph or note; a block is kept whole as JSON, with its text
+// alongside
+type EntryRow = Pick<Paragraph, 'text' | 'block'>
+
+type SectionRow = Prisma.SectionGetPayload<{ include: typeof sectionText }>
+
+const sectionKey = (topicId: string, sectionId: string) => ({ topicId_slug: { topicId, slug: sectionId } })
+
+type Author = Prisma.UserGetPayload<{ select: { name: true; email: true } }> | null
+
+const authorName = (author: Author) => (author ? (author.name ?? author.email) : null)
+const authorSelect = { select: { name: true, email: true } } as const
+
+// Quiz questions and translations are stored as JSON, null when there are none
+const toJson = (value: object | undefined) => (value ? JSON.stringify(value) : null)
+const translationsOf = (translations: string | null) => translations !== null && { translations: JSON.parse(translations) }
+
+const rowEntry = ({ text, block }: EntryRow): ContentEntry => (block === null ? text : JSON.parse(block))
+
+const rowSnapshot = ({ title, subtitle, quiz, translations, paragraphs, notes }: SectionRow): SectionSnapshot => ({
+  title,
+  subtitle,
+  content: paragraphs.map(rowEntry),
+  notes: notes.map(rowEntry),
+  ...(quiz !== null && { quiz: JSON.parse(quiz) }),
+  ...translationsOf(translations),
+})
+
+const positioned = (entries: ContentEntry[]) =>
+  entries.map((entry, position) =>
+    typeof entry === 'string'
+      ? { position, text: entry }
+      : { position, text: entryLines(entry).join('\n'), block: JSON.stringify(entry) },
+  )
+
+// Fields of a section holding its text; an update `replace`s the
+// paragraphs and notes it had
+const textFields = ({ title, subtitle, quiz, translations, content, notes }: SectionSnapshot, replace = false) => ({
+  title,
+  subtitle,
+  quiz: toJson(quiz),
+  translations: toJson(translations),
+  paragraphs: { ...(replace && { deleteMany: {} }), create: positioned(content) },
+  notes: { ...(replace && { deleteMany: {} }), create: positioned(notes) },
+})
+
+// The importer `publish`es what it imports: the data files are reviewed
+// like code
+type Revision = { authorId: string | null; message?: string; publish?: boolean }
+
+// Records `snapshot` as a section's next revision, a draft unless published
+// at once
+async function addRevision(tx: Prisma.TransactionClient, sectionId: string, version: number, snapshot: string, revision: Revision) {
+  const { authorId, message, publish } = revision
+  const { id } = await tx.sectionRevision.create({
+    data: { sectionId, version, snapshot, authorId, message, ...(publish && { approvedAt: new Date() }) },
+  })
+  await tx.section.update({
+    where: { id: sectionId },
+    data: { version, status: publish ? 'published' : 'draft', ...(publish && { publishedRevisionId: id }) },
+  })
+}
+
+// The listed topics, unvalidated
+export async function readTopics(): Promise<unknown[]> {
+  const rows = await db.topic.findMany({ orderBy: { order: 'asc' } })
+  return rows.map(({ id, title, subtitle, description, icon, order, translations }) => ({
+    id,
+    title,
+    subtitle,
+    description,
+    icon,
+    route: `/${id}`,
+    order,
+    ...translationsOf(translations),
+  }))
+}
+
+// A topic's content in the shape of a data file, unvalidated: the published
+// revision of each section, or with `drafts` the latest one. Sections never
+// published are left out of the former, and chapters left without
+// sections. Undefined if the topic has not been imported, null if it has
+// nothing published.
+export async function readTopicContent(topicId: string, drafts: boolean): Promise<unknown> {
+  const topic = await db.topic.findUnique({
+    where: { id: topicId },
+    include: {
+      chapters: {
+        orderBy: { position: 'asc' },
+        include: {
+          sections: {
+            orderBy: { position: 'asc' },
+            include: { ...sectionText, publishedRevision: { select: { snapshot: true } } },
+          },
+        },
+      },
+    },
+  })
+  if (!topic) return undefined
+
+  const chapters = topic.chapters
+    .map((chapter) => ({
+      id: chapter.slug,
+      title: chapter.title,
+      subtitle: chapter.subtitle,
+      icon: chapter.icon,
+      order: chapter.position,
+      ...translationsOf(chapter.translations),
+      sections: chapter.sections.flatMap((row) => {
+        if (drafts) return [sectionFromSnapshot(row.slug, rowSnapshot(row))]
+        return row.publishedRevision ? [sectionFromSnapshot(row.slug, JSON.parse(row.publishedRevision.snapshot))] : []
+      }),
+    }))
+    .filter((chapter) => chapter.sections.length > 0)
+  if (chapters.length === 0) return null
+
+  return {
+    meta: {
+      title: topic.metaTitle,
+      subtitle: topic.metaSubtitle,
+      description: topic.metaDescription,
+      ...translationsOf(topic.metaTranslations),
+    },
+    chapters,
+  }
+}
+
+const metaFields = ({ meta }: TopicContent) => ({
+  metaTitle: meta.title,
+  metaSubtitle: meta.subtitle,
+  metaDescription: meta.description,
+  metaTranslations: toJson(meta.translations),
+})
+
+// Saving either gives each section's version afterwards, or lists the
+// sections added, changed or deleted since the editor loaded them, and
+// saves nothing
+export type SaveOutcome = { saved: true; versions: SectionVersions } | { saved: false; changed: string[] }
+
+// The latest version of each of a topic's sections
+export async function getSectionVersions(topicId: string): Promise<SectionVersions> {
+  const rows = await db.section.findMany({ where: { topicId }, select: { slug: true, version: true } })
+  return Object.fromEntries(rows.map(({ slug, version }) => [slug, version]))
+}
+
+// Replaces a topic's content. Chapters and sections are matched by id, so
+// a section renamed here starts a new history. An editor passes the
+// `loaded` versions its changes were made to; the importer overwrites
+// whatever is there. Undefined if the topic has not been imported.
+export async function saveTopicContent(
+  topicId: string,
+  content: TopicContent,
+  revision: Revision,
+  loaded?: SectionVersions,
+): Promise<SaveOutcome | undefined> {
+  return db.$transaction(async (tx) => {
+    const topic = await tx.topic.findUnique({ where: { id: topicId }, include: { sections: { include: sectionText } } })
+    if (!topic) return undefined
+
+    const existing = new Map<string, SectionRow>(topic.sections.map((row) => [row.slug, row]))
+    if (loaded) {
+      const ids = new Set([...existing.keys(), ...Object.keys(loaded)])
+      const changed = [...ids].filter((id) => existing.get(id)?.version !== loaded[id])
+      if (changed.length > 0) return { saved: false, changed }
+    }
+
+    await tx.topic.update({
+      where: { id: topicId },
+      data: metaFields(content),
+    })
+
+    const versions: SectionVersions = {}
+    const chapterIds: string[] = []
+    const sectionIds: string[] = []
+
+    for (const chapter of content.chapters) {
+      const fields = {
+        title: chapter.title,
+        subtitle: chapter.subtitle,
+        icon: chapter.icon,
+        position: chapter.order,
+        translations: toJson(chapter.translations),
+      }
+      const { id: chapterId } = await tx.chapter.upsert({
+        where: { topicId_slug: { topicId, slug: chapter.id } },
+        create: { topicId, slug: chapter.id, ...fields },
+        update: fields,
+      })
+      chapterIds.push(chapterId)
+
+      for (const [position, section] of chapter.sections.entries()) {
+        const snapshot = sectionSnapshot(section)
+        const json = JSON.stringify(snapshot)
+        const row = existing.get(section.id)
+
+        if (!row) {
+          const created = await tx.section.create({
+            data: { topicId, chapterId, slug: section.id, position, ...textFields(snapshot) },
+          })
+          await addRevision(tx, created.id, 1, json, revision)
+          versions[section.id] = 1
+          sectionIds.push(created.id)
+          continue
+        }
+
+        const changed = JSON.stringify(rowSnapshot(row)) !== json
+        await tx.section.update({
+          where: { id: row.id },
+          data: { chapterId, position, ...(changed && textFields(snapshot, true)) },
+        })
+        if (changed) {
+          await addRevision(tx, row.id, row.version + 1, json, revision)
+        } else if (revision.publish && row.publishedRevisionId === null) {
+          // Unchanged, but never published: the files vouch for it
+          await publishRevision(tx, row.id, row.version, null)
+        }
+        versions[section.id] = changed ? row.version + 1 : row.version
+        sectionIds.push(row.id)
+      }
+    }
+
+    // Sections first, so none that moved goes with its old chapter
+    await tx.section.deleteMany({ where: { topicId, id: { notIn: sectionIds } } })
+    await tx.chapter.deleteMany({ where: { topicId, id: { notIn: chapterIds } } })
+    return { saved: true, versions }
+  })
+}
+
+// Creates or updates a topic from its data files; sections changed since
+// the last import get a revision
+export async function importTopic(topic: Topic, content: TopicContent, source: string): Promise<void> {
+  const listing = {
+    title: topic.title,
+    subtitle: topic.subtitle,
+    description: topic.description,
+    icon: topic.icon,
+    order: topic.order,
+    translations: toJson(topic.translations),
+  }
+  await db.topic.upsert({
+    where: { id: topic.id },
+    create: { id: topic.id, ...listing, ...metaFields(content) },
+    update: listing,
+  })
+  await saveTopicContent(topic.id, content, { authorId: null, message: `Imported from ${source}`, publish: true })
+}
+
+// Newest first; undefined for an unknown section
+export async function getSectionRevisions(
+  topicId: string,
+  sectionId: string,
+): Promise<SectionRevisionSummary[] | undefined> {
+  const section = await db.section.findUnique({
+    where: sectionKey(topicId, sectionId),
+    include: {
+      revisions: { orderBy: { version: 'desc' }, include: { author: authorSelect } },
+    },
+  })
+  if (!section) return undefined
+
+  return section.revisions.map((revision) => ({
+    version: revision.version,
+    createdAt: revision.createdAt.toISOString(),
+    author: authorName(revision.author),
+    message: revision.message,
+    section: JSON.parse(revision.snapshot),
+  }))
+}
+
+// Makes an earlier revision of a section its current text again, as a new
+// draft revision. False if the section or the revision does not exist.
+export async function restoreSectionRevision(
+  topicId: string,
+  sectionId: string,
+  version: number,
+  authorId: string,
+): Promise<boolean> {
+  return db.$transaction(async (tx) => {
+    const section = await tx.section.findUnique({
+      where: sectionKey(topicId, sectionId),
+      include: { revisions: { where: { version } } },
+    })
+    const [revision] = section?.revisions ?? []
+    if (!section || !revision) return false
+
+    await tx.section.update({ where: { id: section.id }, data: textFields(JSON.parse(revision.snapshot), true) })
+    await addRevision(tx, section.id, section.version + 1, revision.snapshot, {
+      authorId,
+      message: `Restored version ${version}`,
+    })
+    return true
+  })
+}
+
+// Makes a revision what learners see; `approvedById` is the reviewer, null
+// for the importer
+async function publishRevision(tx: Prisma.TransactionClient, sectionId: string, version: number, approvedById: string | null) {
+  const { id } = await tx.sectionRevision.update({
+    where: { sectionId_version: { sectionId, version } },
+    data: { approvedById, approvedAt: new Date() },
+  })
+  await tx.section.update({ where: { id: sectionId }, data: { status: 'published', publishedRevisionId: id } })
+}
+
+// A section's latest revision with what learners see and the comments on
+// it; undefined for an unknown section
+export async function getSectionReview(topicId: string, sectionId: string): Promise<SectionReview | undefined> {
+  const section = await db.section.findUnique({
+    where: sectionKey(topicId, sectionId),
+    include: {
+      ...sectionText,
+      chapter: { select: { slug: true } },
+      publishedRevision: { select: { version: true, snapshot: true } },
+      revisions: { orderBy: { version: 'desc' }, take: 1, include: { author: authorSelect } },
+      comments: { orderBy: { createdAt: 'asc' }, include: { author: authorSelect } },
+    },
+  })
+  if (!section) return undefined
+
+  const [latest] = section.revisions
+  return {
+    topicId,
+    sectionId,
+    chapterId: section.chapter.slug,
+    // Only ever one of SECTION_STATUSES, which the column does not enforce
+    status: section.status as SectionStatus,
+    version: section.version,
+    current: rowSnapshot(section),
+    authorId: latest?.authorId ?? null,
+    author: authorName(latest?.author ?? null),
+    published: section.publishedRevision && {
+      version: section.publishedRevision.version,
+      section: JSON.parse(section.publishedRevision.snapshot),
+    },
+    comments: section.comments.map(
+      (comment): ReviewComment => ({
+        id: comment.id,
+        version: comment.version,
+        paragraph: comment.paragraph,
+        body: comment.body,
+        author: authorName(comment.author) ?? '',
+        resolved: comment.resolved,
+        createdAt: comment.createdAt.toISOString(),
+      }),
+    ),
+  }
+}
+
+// Moves a section's latest revision to `status`; publishing it records
+// `userId` as its reviewer. The caller checks the move is allowed.
+export async function setSectionStatus(
+  topicId: string,
+  sectionId: string,
+  status: SectionStatus,
+  userId: string,
+): Promise<void> {
+  await db.$transaction(async (tx) => {
+    const section = await tx.section.findUniqueOrThrow({ where: sectionKey(topicId, sectionId) })
+    if (status === 'published') {
+      await publishRevision(tx, section.id, section.version, userId)
+    } else {
+      await tx.section.update({ where: { id: section.id }, data: { status } })
+    }
+  })
+}
+
+// False for an unknown section
+export async function addReviewComment(
+  topicId: string,
+  sectionId: string,
+  comment: { version: number; paragraph: number | null; body: string; authorId: string },
+): Promise<boolean> {
+  const section = await db.section.findUnique({ where: sectionKey(topicId, sectionId), select: { id: true } })
+  if (!section) return false
+  await db.reviewComment.create({ data: { sectionId: section.id, ...comment } })
+  return true
+}
+
+// False if the section has no such comment
+export async function setReviewCommentResolved(
+  topicId: string,
+  sectionId: string,
+  commentId: string,
+  resolved: boolean,
+): Promise<boolean> {
+  const { count } = await db.reviewComment.updateMany({
+    where: { id: commentId, section: { topicId, slug: sectionId } },
+    data: { resolved },
+  })
+  return count > 0
+}
+
+// Sections whose latest revision is not published, in the order they
+// appear in their topic, optionally only one topic's
+export async function getPendingSections(topicId?: string): Promise<PendingSection[]> {
+  const rows = await db.section.findMany({
+    where: { status: { not: 'published' }, ...(topicId && { topicId }) },
+    orderBy: [{ topic: { order: 'asc' } }, { chapter: { position: 'asc' } }, { position: 'asc' }],
+    include: {
+      topic: { select: { title: true } },
+      chapter: { select: { slug: true } },
+      _count: { select: { comments: { where: { resolved: false } } } },
+    },
+  })
+  return rows.map((row) => ({
+    topicId: row.topicId,
+    topicTitle: row.topic.title,
+    chapterId: row.chapter.slug,
+    sectionId: row.slug,
+    title: row.title,
+    status: row.status as PendingSection['status'],
+    version: row.version,
+    updatedAt: row.updatedAt.toISOString(),
+    openComments: row._count.comments,
+  }))
+}
@@ -0,0 +1,208 @@
+import type { z } from 'zod'
+import { findQuranReferences } from '@/lib/quran/references'
+import { entryLines } from './blocks'
+import { contentBlockSchema, topicContentSchema, topicsListSchema, type TopicContent, type TopicsList } from './schema'
+
+export class ContentValidationError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: string[],
+  ) {
+    super(`Invalid content in ${source}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`)
+    this.name = 'ContentValidationError'
+  }
+}
+
+type Issue = { path: PropertyKey[]; message: string }
+
+// Turns ['chapters', 4, 'sections', 1, 'content', 0] into
+// `chapters[4](nun-sakin).sections[1](nun-ahkam).content[0]` so editors can
+// find the entry without counting array positions.
+function formatPath(data: unknown, path: PropertyKey[]): string {
+  let label = ''
+  let node: any = data
+
+  for (const key of path) {
+    label += typeof key === 'number' ? `[${key}]` : `${label ? '.' : ''}${String(key)}`
+    node = node?.[key as any]
+    if (typeof key === 'number' && typeof node?.id === 'string') {
+      label += `(${node.id})`
+    }
+  }
+
+  return label || '(root)'
+}
+
+// Chapter ids must be unique within a topic, and section ids must be unique
+// across the whole topic (not just their chapter) so a section id alone
+// identifies it. Works on raw data, skipping entries the schema rejects.
+function findDuplicateIds(data: any): Issue[] {
+  const issues: Issue[] = []
+  const chapterIds = new Map<string, number>()
+  const sectionOwners = new Map<string, string>()
+  const chapters: any[] = Array.isArray(data?.chapters) ? data.chapters : []
+
+  chapters.forEach((chapter, chapterIndex) => {
+    if (typeof chapter?.id === 'string') {
+      const first = chapterIds.get(chapter.id)
+      if (first !== undefined) {
+        issues.push({
+          path: ['chapters', chapterIndex, 'id'],
+          message: `duplicate chapter id "${chapter.id}" (first used by chapters[${first}])`,
+        })
+      } else {
+        chapterIds.set(chapter.id, chapterIndex)
+      }
+    }
+
+    const sections: any[] = Array.isArray(chapter?.sections) ? chapter.sections : []
+    sections.forEach((section, sectionIndex) => {
+      if (typeof section?.id !== 'string') return
+      const owner = sectionOwners.get(section.id)
+      if (owner !== undefined) {
+        issues.push({
+          path: ['chapters', chapterIndex, 'sections', sectionIndex, 'id'],
+          message: `duplicate section id "${section.id}" (already used in chapter "${owner}")`,
+        })
+      } else {
+        sectionOwners.set(section.id, String(chapter.id))
+      }
+    })
+  })
+
+  return issues
+}
+
+// The lines of a raw `content`/`notes` entry, none for one the schema
+// rejects
+function rawEntryLines(entry: unknown): string[] {
+  if (typeof entry === 'string') return [entry]
+  const block = contentBlockSchema.safeParse(entry)
+  return block.success ? entryLines(block.data) : []
+}
+
+// Every {{surah:ayah}} citation in a paragraph, and every verse block, must
+// name an ayah that exists, or the reader would have nothing to render in
+// its place.
+function findInvalidQuranReferences(data: any): Issue[] {
+  const issues: Issue[] = []
+  const chapters: any[] = Array.isArray(data?.chapters) ? data.chapters : []
+
+  chapters.forEach((chapter, chapterIndex) => {
+    const sections: any[] = Array.isArray(chapter?.sections) ? chapter.sections : []
+    sections.forEach((section, sectionIndex) => {
+      const sectionPath = ['chapters', chapterIndex, 'sections', sectionIndex]
+      // The Urdu text and each translation
+      const texts: [PropertyKey[], any][] = [
+        [sectionPath, section],
+        ...Object.entries(section?.translations ?? {}).map(([locale, translation]): [PropertyKey[], any] => [
+          [...sectionPath, 'translations', locale],
+          translation,
+        ]),
+      ]
+      for (const [path, text] of texts) {
+        for (const field of ['content', 'notes']) {
+          const paragraphs: unknown[] = Array.isArray(text?.[field]) ? text[field] : []
+          paragraphs.forEach((entry, paragraphIndex) => {
+            for (const { raw, error } of rawEntryLines(entry).flatMap(findQuranReferences)) {
+              if (!error) continue
+              issues.push({
+                path: [...path, field, paragraphIndex],
+                message: `invalid Quran reference ${raw}: ${error}`,
+              })
+            }
+          })
+        }
+      }
+    })
+  })
+
+  return issues
+}
+
+// A section's translated paragraphs line up with its Urdu ones, so a
+// translation cannot have more of them
+function findExtraTranslatedParagraphs(data: any): Issue[] {
+  const issues: Issue[] = []
+  const chapters: any[] = Array.isArray(data?.chapters) ? data.chapters : []
+
+  chapters.forEach((chapter, chapterIndex) => {
+    const sections: any[] = Array.isArray(chapter?.sections) ? chapter.sections : []
+    sections.forEach((section, sectionIndex) => {
+      for (const [locale, translation] of Object.entries<any>(section?.translations ?? {})) {
+        for (const field of ['content', 'notes']) {
+          const original = Array.isArray(section[field]) ? section[field].length : 0
+          if (!Array.isArray(translation?.[field]) || translation[field].length <= original) continue
+          issues.push({
+            path: ['chapters', chapterIndex, 'sections', sectionIndex, 'translations', locale, field],
+            message: `has ${translation[field].length} paragraphs but the Urdu ${field} has ${original}`,
+          })
+        }
+      }
+    })
+  })
+
+  return issues
+}
+
+function findContentIssues(data: unknown): Issue[] {
+  return [...findDuplicateIds(data), ...findInvalidQuranReferences(data), ...findExtraTranslatedParagraphs(data)]
+}
+
+function collectIssues<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  extra: Issue[],
+): { result: z.ZodSafeParseResult<T>; issues: string[] } {
+  const result = schema.safeParse(data)
+  const issues: Issue[] = [...(result.success ? [] : result.error.issues), ...extra]
+  return { result, issues: issues.map((issue) => `${formatPath(data, issue.path)}: ${issue.message}`) }
+}
+
+function parseOrThrow<T>(source: string, { result, issues }: ReturnType<typeof collectIssues<T>>): T {
+  if (!result.success || issues.length > 0) {
+    throw new ContentValidationError(source, issues)
+  }
+  return result.data
+}
+
+// Every listed topic needs registered content, and every registered topic
+// needs a list entry, otherwise it would be unreachable.
+function findUnmatchedTopics(data: any, contentIds: string[]): Issue[] {
+  const topics: any[] = Array.isArray(data?.topics) ? data.topics : []
+  const listedIds = new Set(topics.map((topic) => topic?.id))
+  const issues: Issue[] = []
+
+  topics.forEach((topic, index) => {
+    if (typeof topic?.id === 'string' && !contentIds.includes(topic.id)) {
+      issues.push({
+        path: ['topics', index, 'id'],
+        message: `no content registered for topic "${topic.id}" in src/lib/content/sources.ts`,
+      })
+    }
+  })
+  for (const id of contentIds) {
+    if (!listedIds.has(id)) {
+      issues.push({ path: ['topics'], message: `content for topic "${id}" is registered but not listed` })
+    }
+  }
+
+  return issues
+}
+
+// Collects every problem in a topic data file instead of stopping at the first.
+export function validateTopicContent(data: unknown): string[] {
+  return collectIssues(topicContentSchema, data, findContentIssues(data)).issues
+}
+
+export function parseTopicContent(source: string, data: unknown): TopicContent {
+  return parseOrThrow(source, collectIssues(topicContentSchema, data, findContentIssues(data)))
+}
+
+export function validateTopicsList(data: unknown, contentIds: string[]): string[] {
+  return collectIssues(topicsListSchema, data, findUnmatchedTopics(data, contentIds)).issues
+}
+
+export function parseTopicsList(source: string, data: unknown, contentIds: string[]): TopicsList {
+  return parseOrThrow(source, collectIssues(topicsListSchema, data, findUnmatchedTopics(data, contentIds)))
+}
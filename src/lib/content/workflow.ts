@@ -0,0 +1,73 @@
+import { hasRole, type Role } from '@/lib/auth/roles'
+import type { SectionSnapshot } from './revisions'
+
+// Editorial states of a section's latest revision. Saving a change makes it
+// a draft; learners keep seeing the last published revision until a
+// reviewer approves a newer one.
+export const SECTION_STATUSES = ['draft', 'review', 'published'] as const
+
+export type SectionStatus = (typeof SECTION_STATUSES)[number]
+
+export const statusNames: Record<SectionStatus, string> = {
+  draft: 'مسودہ',
+  review: 'نظرِ ثانی میں',
+  published: 'شائع شدہ',
+}
+
+export const isSectionStatus = (value: unknown): value is SectionStatus =>
+  SECTION_STATUSES.includes(value as SectionStatus)
+
+// Editors send their drafts for review (and may take them back); teachers
+// approve them or return them with comments
+const TRANSITIONS: { from: SectionStatus; to: SectionStatus; role: Role }[] = [
+  { from: 'draft', to: 'review', role: 'editor' },
+  { from: 'review', to: 'draft', role: 'teacher' },
+  { from: 'review', to: 'published', role: 'teacher' },
+]
+
+export function canChangeStatus(role: Role, from: SectionStatus, to: SectionStatus): boolean {
+  return TRANSITIONS.some((transition) => transition.from === from && transition.to === to && hasRole(role, transition.role))
+}
+
+export interface ReviewComment {
+  id: string
+  // The revision commented on
+  version: number
+  // Index into that revision's `content`; null for the whole section
+  paragraph: number | null
+  body: string
+  author: string
+  resolved: boolean
+  createdAt: string
+}
+
+// Everything a reviewer needs to decide on a section
+export interface SectionReview {
+  topicId: string
+  sectionId: string
+  chapterId: string
+  status: SectionStatus
+  version: number
+  // The latest revision, and who made it (null for the importer)
+  current: SectionSnapshot
+  authorId: string | null
+  author: string | null
+  // What learners see now; null if no revision has been published
+  published: { version: number; section: SectionSnapshot } | null
+  comments: ReviewComment[]
+}
+
+// A section waiting on an editor or a reviewer, for the review queue
+export interface PendingSection {
+  topicId: string
+  topicTitle: string
+  chapterId: string
+  sectionId: string
+  title: string
+  status: Exclude<SectionStatus, 'published'>
+  version: number
+  updatedAt: string
+  openComments: number
+}
+
+export const reviewPath = (topicId: string, sectionId: string) => `/admin/review/${topicId}/${sectionId}`
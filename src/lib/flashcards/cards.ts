@@ -0,0 +1,141 @@
+import type { Section, Topic, TopicContent } from '@/lib/content/schema'
+import {
+  HALQI_LETTERS_TAUGHT,
+  IDGHAM_GHUNNAH_LETTERS,
+  IDGHAM_NO_GHUNNAH_LETTERS,
+  IKHFA_LETTERS,
+  ISTILA_LETTERS,
+  QALQALAH_LETTERS,
+  urduLetter,
+} from '@/lib/tajweed/letters'
+import { TAJWEED_CATEGORIES, explainTajweedCategory, tajweedCategoryInfo } from '@/lib/tajweed/rules'
+import { explainWaqfSign, waqfSignInfo, type WaqfSign } from '@/lib/tajweed/waqf'
+
+export type FlashcardDeck = 'letters' | 'rules' | 'waqf-signs'
+
+export const flashcardDeckNames: Record<FlashcardDeck, string> = {
+  letters: 'حروف',
+  rules: 'قواعد',
+  'waqf-signs': 'وقف کی علامات',
+}
+
+export interface Flashcard {
+  // Stable across content edits, since review history is stored under it
+  id: string
+  deck: FlashcardDeck
+  front: string
+  // Whether the front is Arabic, shown large in the mushaf style
+  arabic: boolean
+  // The question the front asks
+  prompt: string
+  back: string
+  // The section teaching the answer
+  href: string
+  sectionTitle: string
+}
+
+// The letter groups students memorise, each in the section teaching it
+const letterGroups: { id: string; name: string; letters: string[]; chapter: string; section: string }[] = [
+  {
+    id: 'istila',
+    name: 'حروف مستعلیہ',
+    letters: ISTILA_LETTERS,
+    chapter: 'rules-and-regulations-of-tajweed',
+    section: 'heavy-letters',
+  },
+  { id: 'halqi', name: 'حروفِ حلقی', letters: HALQI_LETTERS_TAUGHT, chapter: 'nun-sakin', section: 'nun-ahkam' },
+  {
+    id: 'yarmaloon',
+    name: 'یرملون',
+    letters: [...IDGHAM_GHUNNAH_LETTERS, ...IDGHAM_NO_GHUNNAH_LETTERS],
+    chapter: 'nun-sakin',
+    section: 'nun-ahkam',
+  },
+  { id: 'ikhfa', name: 'حروفِ اخفا', letters: IKHFA_LETTERS, chapter: 'nun-sakin', section: 'nun-ahkam' },
+  { id: 'qalqalah', name: 'حروفِ قلقلہ', letters: QALQALAH_LETTERS, chapter: 'echo-letters', section: 'what-is-echo-letters' },
+]
+
+const WAQF_SIGNS_CHAPTER = 'waqf-symbols'
+
+// Cards for everything in a topic worth memorising: the letters of each
+// group and which groups a letter is in, what each tajweed rule is, and what
+// each waqf sign means. Only what the topic's content teaches is included,
+// so topics without these sections have no cards.
+export function buildFlashcards(topic: Topic, content: TopicContent): Flashcard[] {
+  const findSection = (chapterId: string, sectionId: string): Section | undefined =>
+    content.chapters.find((chapter) => chapter.id === chapterId)?.sections.find((section) => section.id === sectionId)
+  const linkTo = (chapterId: string, section: Section) => ({
+    href: `${topic.route}/${chapterId}/${section.id}`,
+    sectionTitle: section.title,
+  })
+
+  const groups = letterGroups.flatMap((group) => {
+    const section = findSection(group.chapter, group.section)
+    return section ? [{ ...group, link: linkTo(group.chapter, section) }] : []
+  })
+
+  const groupCards = groups.map(
+    (group): Flashcard => ({
+      id: `${topic.id}:group-${group.id}`,
+      deck: 'letters',
+      front: group.name,
+      arabic: false,
+      prompt: `${group.name} کون سے ہیں؟`,
+      back: `${group.letters.map(urduLetter).join(' - ')} (${group.letters.length} حروف)`,
+      ...group.link,
+    }),
+  )
+
+  // One card per letter, listing every group it belongs to
+  const letters = [...new Set(groups.flatMap((group) => group.letters))]
+  const letterCards = letters.map((letter): Flashcard => {
+    const inGroups = groups.filter((group) => group.letters.includes(letter))
+    return {
+      id: `${topic.id}:letter-${letter}`,
+      deck: 'letters',
+      front: urduLetter(letter),
+      arabic: true,
+      prompt: 'یہ حرف کن گروہوں میں سے ہے؟',
+      back: inGroups.map((group) => group.name).join('، '),
+      ...inGroups[0].link,
+    }
+  })
+
+  const ruleCards = TAJWEED_CATEGORIES.flatMap((category): Flashcard[] => {
+    const explanation = explainTajweedCategory(content, category)
+    const section = explanation && findSection(explanation.chapterId, explanation.sectionId)
+    if (!explanation || !section) return []
+    const { name, english } = tajweedCategoryInfo[category]
+    return [
+      {
+        id: `${topic.id}:rule-${category}`,
+        deck: 'rules',
+        front: `${name} (${english})`,
+        arabic: false,
+        prompt: 'یہ قاعدہ کیا ہے؟',
+        back: explanation.text,
+        ...linkTo(explanation.chapterId, section),
+      },
+    ]
+  })
+
+  const signsSection = findSection(WAQF_SIGNS_CHAPTER, WAQF_SIGNS_CHAPTER)
+  const waqfCards = (Object.keys(waqfSignInfo) as WaqfSign[]).flatMap((sign): Flashcard[] => {
+    const { symbol, marker } = waqfSignInfo[sign]
+    const explanation = explainWaqfSign(content, sign)
+    if (!signsSection || !marker || !explanation) return []
+    return [
+      {
+        id: `${topic.id}:waqf-${sign}`,
+        deck: 'waqf-signs',
+        front: symbol,
+        arabic: true,
+        prompt: 'اس علامت کا کیا مطلب ہے؟',
+        back: explanation.slice(marker.length).trim(),
+        ...linkTo(WAQF_SIGNS_CHAPTER, signsSection),
+      },
+    ]
+  })
+
+  return [...groupCards, ...letterCards, ...ruleCards, ...waqfCards]
+}
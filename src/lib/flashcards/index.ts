@@ -0,0 +1,4 @@
+export * from './cards'
+export * from './schedule'
+export * from './queue'
+export * from './progress'
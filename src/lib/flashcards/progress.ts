@@ -0,0 +1,42 @@
+import { z } from 'zod'
+import type { FlashcardProgress } from './schedule'
+
+// Review history is kept in the browser's localStorage under this key, and
+// saved to the learner's progress on the server when it can be
+export const FLASHCARD_STORAGE_KEY = 'tajweed-flashcards'
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+const cardProgressSchema = z.object({
+  repetitions: z.number().int().min(0),
+  interval: z.number().int().min(0),
+  easeFactor: z.number(),
+  due: day,
+  history: z.array(
+    z.object({
+      date: day,
+      grade: z.literal([0, 1, 2, 3, 4, 5]),
+      interval: z.number().int().min(0),
+    }),
+  ),
+})
+
+// Stored progress, dropping any card whose entry does not parse (e.g. one
+// written by an older version) rather than losing the rest
+export function parseFlashcardProgress(raw: string | null): FlashcardProgress {
+  if (!raw) return {}
+  let stored: unknown
+  try {
+    stored = JSON.parse(raw)
+  } catch {
+    return {}
+  }
+  if (typeof stored !== 'object' || stored === null) return {}
+
+  const progress: FlashcardProgress = {}
+  for (const [id, entry] of Object.entries(stored)) {
+    const parsed = cardProgressSchema.safeParse(entry)
+    if (parsed.success) progress[id] = parsed.data
+  }
+  return progress
+}
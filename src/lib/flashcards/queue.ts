@@ -0,0 +1,46 @@
+import type { Flashcard } from './cards'
+import { addDaysToKey, type FlashcardProgress } from './schedule'
+
+// New cards introduced per day, so a first session is not all 60 at once
+export const NEW_CARDS_PER_DAY = 10
+
+export interface ReviewQueue {
+  // Cards reviewed before and due by today, most overdue first
+  due: Flashcard[]
+  // Cards never reviewed, in deck order, up to what is left of today's
+  // allowance
+  fresh: Flashcard[]
+}
+
+// Today's reviews. Cards whose id no longer matches any card are ignored.
+export function reviewQueue(
+  cards: Flashcard[],
+  progress: FlashcardProgress,
+  today: string,
+  newPerDay = NEW_CARDS_PER_DAY,
+): ReviewQueue {
+  const due = cards
+    .filter((card) => progress[card.id] && progress[card.id].due <= today)
+    .sort((a, b) => progress[a.id].due.localeCompare(progress[b.id].due))
+  const introducedToday = cards.filter((card) => progress[card.id]?.history[0]?.date === today).length
+  const fresh = cards.filter((card) => !progress[card.id]).slice(0, Math.max(0, newPerDay - introducedToday))
+  return { due, fresh }
+}
+
+// How many reviews fall on each of the next `days` days after today
+export function reviewForecast(
+  cards: Flashcard[],
+  progress: FlashcardProgress,
+  today: string,
+  days = 7,
+): { date: string; count: number }[] {
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDaysToKey(today, index + 1)
+    return { date, count: cards.filter((card) => progress[card.id]?.due === date).length }
+  })
+}
+
+// Cards recalled at least twice in a row, i.e. with an interval of six days
+// or more
+export const learnedCount = (cards: Flashcard[], progress: FlashcardProgress) =>
+  cards.filter((card) => (progress[card.id]?.repetitions ?? 0) >= 2).length
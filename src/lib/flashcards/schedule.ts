@@ -0,0 +1,98 @@
+import { addDays, format, parseISO } from 'date-fns'
+
+// SM-2 scheduling (Wozniak, 1990): each review is graded 0–5; a grade below
+// 3 starts the card over, otherwise its interval grows by the card's ease
+// factor, which itself moves with every grade.
+
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5
+
+// Lowest grade that counts as remembered
+export const PASSING_GRADE = 3
+
+export const INITIAL_EASE = 2.5
+export const MIN_EASE = 1.3
+
+export interface ReviewRecord {
+  // Day of the review, 'yyyy-MM-dd' in the reader's time zone
+  date: string
+  grade: ReviewGrade
+  // Days until the next review it scheduled
+  interval: number
+}
+
+export interface CardProgress {
+  // Reviews passed in a row
+  repetitions: number
+  // Days between the last review and `due`
+  interval: number
+  easeFactor: number
+  due: string
+  history: ReviewRecord[]
+}
+
+// Progress of every card reviewed so far, by card id
+export type FlashcardProgress = Record<string, CardProgress>
+
+export const dayKey = (date: Date) => format(date, 'yyyy-MM-dd')
+
+export const addDaysToKey = (day: string, days: number) => dayKey(addDays(parseISO(day), days))
+
+// Days until the next review after one with this grade; also used to label
+// the grade buttons
+export function nextInterval(progress: CardProgress | undefined, grade: ReviewGrade): number {
+  if (grade < PASSING_GRADE || !progress || progress.repetitions === 0) return 1
+  if (progress.repetitions === 1) return 6
+  return Math.round(progress.interval * progress.easeFactor)
+}
+
+// The card's progress after reviewing it `today` with the given grade.
+// `progress` is undefined for a card seen for the first time.
+export function reviewCard(progress: CardProgress | undefined, grade: ReviewGrade, today: string): CardProgress {
+  const passed = grade >= PASSING_GRADE
+  const interval = nextInterval(progress, grade)
+  const easeFactor = Math.max(
+    MIN_EASE,
+    (progress?.easeFactor ?? INITIAL_EASE) + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)),
+  )
+
+  return {
+    repetitions: passed ? (progress?.repetitions ?? 0) + 1 : 0,
+    interval,
+    easeFactor,
+    due: addDaysToKey(today, interval),
+    history: [...(progress?.history ?? []), { date: today, grade, interval }],
+  }
+}
+
+// Every card's progress from its reviews, in the order they were made
+export function progressFromReviews(reviews: { cardId: string; grade: ReviewGrade; date: string }[]): FlashcardProgress {
+  const progress: FlashcardProgress = {}
+  for (const { cardId, grade, date } of reviews) progress[cardId] = reviewCard(progress[cardId], grade, date)
+  return progress
+}
+
+export type CardReview = { cardId: string; grade: ReviewGrade; date: string }
+
+// Every review in `progress`, each card's oldest first
+export const progressReviews = (progress: FlashcardProgress): CardReview[] =>
+  Object.entries(progress).flatMap(([cardId, { history }]) => history.map(({ date, grade }) => ({ cardId, grade, date })))
+
+// The reviews in `local` that `remote` lacks. Reviews of a card on the same
+// day with the same grade are told apart only by how many there are.
+export function missingReviews(local: FlashcardProgress, remote: FlashcardProgress): CardReview[] {
+  const key = ({ cardId, date, grade }: CardReview) => `${cardId} ${date} ${grade}`
+  const counts = new Map<string, number>()
+  for (const review of progressReviews(remote)) counts.set(key(review), (counts.get(key(review)) ?? 0) + 1)
+  return progressReviews(local).filter((review) => {
+    const count = counts.get(key(review)) ?? 0
+    counts.set(key(review), count - 1)
+    return count <= 0
+  })
+}
+
+// Every card with the reviews of both, replayed by day; on the same day
+// those of `remote` come first, as they do once the rest are uploaded to it
+export function mergeProgress(local: FlashcardProgress, remote: FlashcardProgress): FlashcardProgress {
+  const reviews = [...progressReviews(remote), ...missingReviews(local, remote)]
+  return progressFromReviews(reviews.sort((a, b) => a.date.localeCompare(b.date)))
+}
@@ -0,0 +1,57 @@
+import { createHash } from 'node:crypto'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { LETTERS_SEGMENT, QUIZ_SEGMENT, REVIEW_SEGMENT, type Topic, type TopicContent } from '@/lib/content/schema'
+import { hasQuiz } from '@/lib/quiz'
+
+// What the service worker (public/sw.js) caches for reading offline. It
+// fetches this list from `/api/offline`, and caches it all again whenever
+// the version changes: after a deployment, or once content is published.
+
+export interface OfflineManifest {
+  version: string
+  // Pages to cache, with the scripts, styles and fonts they load
+  pages: string[]
+  // Anything else, such as the icons
+  assets: string[]
+}
+
+const ASSETS = ['/manifest.webmanifest', '/icon.svg']
+
+// Every page of the reader: the topics with their chapters, sections and
+// quizzes, the hub, the flashcard review and the letter chart
+export function offlinePages(contents: { topic: Topic; content: TopicContent }[]): string[] {
+  return [
+    '/',
+    `/${REVIEW_SEGMENT}`,
+    `/${LETTERS_SEGMENT}`,
+    ...contents.flatMap(({ topic, content }) => [
+      topic.route,
+      ...content.chapters.flatMap((chapter) => [
+        `${topic.route}/${chapter.id}`,
+        ...(hasQuiz(chapter) ? [`${topic.route}/${chapter.id}/${QUIZ_SEGMENT}`] : []),
+        ...chapter.sections.map((section) => `${topic.route}/${chapter.id}/${section.id}`),
+      ]),
+    ]),
+  ]
+}
+
+// Changes with each build, so a deployment refreshes the cache even when
+// the content stays the same. There is no build id under `next dev`.
+async function buildId(): Promise<string> {
+  try {
+    return (await readFile(join(process.cwd(), '.next', 'BUILD_ID'), 'utf8')).trim()
+  } catch {
+    return 'development'
+  }
+}
+
+export async function offlineManifest(contents: { topic: Topic; content: TopicContent }[]): Promise<OfflineManifest> {
+  const pages = offlinePages(contents)
+  const version = createHash('sha256')
+    .update(await buildId())
+    .update(JSON.stringify(contents))
+    .digest('hex')
+    .slice(0, 16)
+  return { version, pages, assets: ASSETS }
+}
@@ -0,0 +1,5 @@
+// Server only: `learner` and `store` use the database and cookies. Client
+// components import `@/lib/progress/topic-progress` directly.
+export * from './topic-progress'
+export * from './learner'
+export * from './store'
@@ -0,0 +1,92 @@
+import { cookies, headers } from 'next/headers'
+import { tooManyRequests } from '@/lib/api'
+import { getCurrentUser } from '@/lib/auth/session'
+import { db } from '@/lib/db'
+
+// Anonymous learners are told apart by this cookie, holding their user id.
+// Signed-in learners are the user of their session.
+export const LEARNER_COOKIE = 'learner'
+
+// An anonymous learner is deleted, progress and all, this long after they
+// last recorded any; their cookie lasts as long and is renewed each time
+const ANONYMOUS_DAYS = 180
+const DAY = 24 * 60 * 60
+
+// New anonymous learners per address and hour, so a script cannot fill the
+// database with them. Counted in this server process only.
+const NEW_LEARNERS_PER_HOUR = 20
+const HOUR = 60 * 60 * 1000
+const created = new Map<string, number[]>()
+
+// The learner making the request: the signed-in user, or the anonymous one
+// of the cookie if they have recorded any progress
+export async function currentLearnerId(): Promise<string | undefined> {
+  const user = await getCurrentUser()
+  if (user) return user.id
+  return anonymousLearnerId()
+}
+
+// The user of the learner cookie, unless it has since become an account
+// (see the sign-up route), whose progress needs signing in
+export async function anonymousLearnerId(): Promise<string | undefined> {
+  const id = (await cookies()).get(LEARNER_COOKIE)?.value
+  if (!id) return undefined
+  const user = await db.user.findUnique({ where: { id }, select: { id: true, email: true } })
+  return user && !user.email ? user.id : undefined
+}
+
+// Whether the requesting address may create another anonymous learner,
+// counting this one if so
+async function mayCreateLearner(): Promise<boolean> {
+  const address = (await headers()).get('x-forwarded-for')?.split(',')[0].trim() ?? 'unknown'
+  const now = Date.now()
+  for (const [key, times] of created) if (now - times.at(-1)! >= HOUR) created.delete(key)
+  const recent = (created.get(address) ?? []).filter((time) => now - time < HOUR)
+  if (recent.length >= NEW_LEARNERS_PER_HOUR) return false
+  created.set(address, [...recent, now])
+  return true
+}
+
+async function setLearnerCookie(id: string) {
+  const cookieStore = await cookies()
+  cookieStore.set(LEARNER_COOKIE, id, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: ANONYMOUS_DAYS * DAY,
+    path: '/',
+  })
+}
+
+// Saves progress with `record` for the learner making the request, and
+// answers with what it returns. An anonymous learner (and their cookie) is
+// created along with their first progress and deleted again if saving it
+// fails, so there is none without any; a 429 when the address has created
+// too many lately. Only callable from route handlers, which may set cookies.
+export async function recordForLearner<T>(record: (learnerId: string) => Promise<T>): Promise<T | Response> {
+  const user = await getCurrentUser()
+  if (user) return record(user.id)
+
+  const anonymousId = await anonymousLearnerId()
+  if (anonymousId) {
+    const result = await record(anonymousId)
+    await db.user.update({ where: { id: anonymousId }, data: { lastActiveAt: new Date() } })
+    await setLearnerCookie(anonymousId)
+    return result
+  }
+
+  if (!(await mayCreateLearner())) return tooManyRequests()
+  // Those gone quiet go as new ones arrive
+  await db.user.deleteMany({
+    where: { email: null, lastActiveAt: { lt: new Date(Date.now() - ANONYMOUS_DAYS * DAY * 1000) } },
+  })
+  const { id } = await db.user.create({ data: {} })
+  try {
+    const result = await record(id)
+    await setLearnerCookie(id)
+    return result
+  } catch (error) {
+    await db.user.delete({ where: { id } })
+    throw error
+  }
+}
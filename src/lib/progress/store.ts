@@ -0,0 +1,61 @@
+import { db } from '@/lib/db'
+import { progressFromReviews, type CardReview, type FlashcardProgress, type ReviewGrade } from '@/lib/flashcards/schedule'
+import type { TopicProgress } from './topic-progress'
+
+export async function getTopicProgress(userId: string, topicId: string): Promise<TopicProgress> {
+  const [reads, attempts] = await Promise.all([
+    db.sectionRead.findMany({ where: { userId, topicId }, orderBy: { lastReadAt: 'desc' } }),
+    db.quizAttempt.findMany({ where: { userId, topicId }, orderBy: { createdAt: 'asc' } }),
+  ])
+
+  const quizzes: TopicProgress['quizzes'] = {}
+  for (const { chapterId, score, total } of attempts) {
+    const previous = quizzes[chapterId]
+    // Compared as fractions, since rounds of a chapter can differ in length
+    const better = !previous || score / total > previous.best / previous.total
+    quizzes[chapterId] = {
+      best: better ? score : previous.best,
+      total: better ? total : previous.total,
+      attempts: (previous?.attempts ?? 0) + 1,
+    }
+  }
+
+  const [last] = reads
+  return {
+    readSections: reads.map((read: { sectionId: string }) => read.sectionId),
+    lastRead: last ? { chapterId: last.chapterId, sectionId: last.sectionId, readAt: last.lastReadAt.toISOString() } : null,
+    quizzes,
+  }
+}
+
+export async function recordSectionRead(userId: string, topicId: string, chapterId: string, sectionId: string) {
+  await db.sectionRead.upsert({
+    where: { userId_topicId_sectionId: { userId, topicId, sectionId } },
+    create: { userId, topicId, chapterId, sectionId },
+    // A section moved to another chapter keeps its history
+    update: { chapterId, lastReadAt: new Date() },
+  })
+}
+
+export async function recordQuizAttempt(userId: string, topicId: string, chapterId: string, score: number, total: number) {
+  await db.quizAttempt.create({ data: { userId, topicId, chapterId, score, total } })
+}
+
+export async function getFlashcardProgress(userId: string): Promise<FlashcardProgress> {
+  const reviews = await db.flashcardReview.findMany({
+    where: { userId },
+    // Reviews uploaded later from a browser can be older than ones already
+    // here
+    orderBy: [{ reviewedOn: 'asc' }, { id: 'asc' }],
+  })
+  return progressFromReviews(
+    reviews.map(({ cardId, grade, reviewedOn }) => ({ cardId, grade: grade as ReviewGrade, date: reviewedOn })),
+  )
+}
+
+// Records reviews in the order given
+export async function recordFlashcardReviews(userId: string, reviews: CardReview[]) {
+  await db.$transaction(
+    reviews.map(({ cardId, grade, date }) => db.flashcardReview.create({ data: { userId, cardId, grade, reviewedOn: date } })),
+  )
+}
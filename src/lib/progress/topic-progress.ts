@@ -0,0 +1,20 @@
+import type { Chapter } from '@/lib/content/schema'
+
+// A learner's progress through one topic, as the reader shows it. Plain
+// data, so it crosses the API as JSON.
+export interface TopicProgress {
+  // Ids of the sections opened at least once
+  readSections: string[]
+  // The section opened most recently, to continue from
+  lastRead: { chapterId: string; sectionId: string; readAt: string } | null
+  // Best score of each chapter quiz taken, by chapter id
+  quizzes: Record<string, { best: number; total: number; attempts: number }>
+}
+
+export const emptyTopicProgress: TopicProgress = { readSections: [], lastRead: null, quizzes: {} }
+
+// Percentage of the chapter's sections read, 0–100
+export function chapterCompletion(chapter: Chapter, readSections: string[]): number {
+  const read = chapter.sections.filter((section) => readSections.includes(section.id)).length
+  return Math.round((read / chapter.sections.length) * 100)
+}
@@ -0,0 +1,25 @@
+import type { Chapter, Topic } from '@/lib/content/schema'
+import type { QuranExample } from '@/lib/search/examples'
+import { NUN_AHKAM_SECTION, nunSakinahQuestions } from './nun-sakinah'
+import { declaredQuestions, type QuizQuestion } from './questions'
+
+export * from './questions'
+export * from './nun-sakinah'
+
+// Whether a chapter gets a quiz page: some section declares questions, or
+// questions are generated from it
+export function hasQuiz(chapter: Chapter): boolean {
+  return chapter.sections.some((section) => (section.quiz?.length ?? 0) > 0 || section.id === NUN_AHKAM_SECTION)
+}
+
+// Every question of a chapter's quiz; the quiz page draws a round from them.
+// `lessonExamples` are the examples quoted in the topic, `moreExamples` other
+// Quran text to generate questions from.
+export function buildChapterQuiz(
+  topic: Topic,
+  chapter: Chapter,
+  lessonExamples: QuranExample[],
+  moreExamples: QuranExample[] = [],
+): QuizQuestion[] {
+  return [...declaredQuestions(topic, chapter), ...nunSakinahQuestions(topic, chapter, lessonExamples, moreExamples)]
+}
@@ -0,0 +1,113 @@
+import type { Chapter, Topic } from '@/lib/content/schema'
+import type { QuranExample } from '@/lib/search/examples'
+import { tokenize } from '@/lib/tajweed/arabic'
+import {
+  HALQI_LETTERS_TAUGHT,
+  IDGHAM_GHUNNAH_LETTERS,
+  IDGHAM_NO_GHUNNAH_LETTERS,
+  IKHFA_LETTERS,
+  IQLAB_LETTERS,
+  urduLetter,
+} from '@/lib/tajweed/letters'
+import { annotateNunSakinah, nunSakinahRuleNames, type NunSakinahRule } from '@/lib/tajweed/nun-sakinah'
+import { IDENTIFY_RULE_PROMPT, LETTER_GROUP_PROMPT, type QuizQuestion } from './questions'
+
+// The section whose letter groups the questions are generated from
+export const NUN_AHKAM_SECTION = 'nun-ahkam'
+
+// The letter groups of section `nun-ahkam`, named and written as it does
+const letterGroups: { name: string; rules: NunSakinahRule[]; letters: string[] }[] = [
+  { name: 'حروفِ حلقی', rules: ['izhar'], letters: HALQI_LETTERS_TAUGHT },
+  { name: 'حرف ب', rules: ['iqlab'], letters: IQLAB_LETTERS },
+  { name: 'یرملون', rules: ['idgham-ghunnah', 'idgham-no-ghunnah'], letters: [...IDGHAM_GHUNNAH_LETTERS, ...IDGHAM_NO_GHUNNAH_LETTERS] },
+  { name: 'حروفِ اخفا', rules: ['ikhfa'], letters: IKHFA_LETTERS },
+]
+
+const groupOf = (rule: NunSakinahRule) => letterGroups.find((group) => group.rules.includes(rule))!
+
+const RULE_ORDER: NunSakinahRule[] = ['izhar', 'iqlab', 'idgham-ghunnah', 'idgham-no-ghunnah', 'ikhfa']
+
+// Nun sakinah or tanween and the word after it (مِنْ قَبْلِكُمْ), with the
+// rule that applies. Izhar mutlaq is left out: it is not decided by the
+// letter groups.
+function rulePhrases(example: QuranExample) {
+  const clusters = tokenize(example.text)
+  return annotateNunSakinah(example.text)
+    .filter((annotation) => !annotation.mutlaq)
+    .map((annotation) => {
+      const source = clusters.find((cluster) => cluster.start === annotation.start)!
+      const trigger = clusters.find((cluster) => cluster.start === annotation.triggerStart)!
+      const inPhrase = clusters.filter((cluster) => cluster.word >= source.word && cluster.word <= trigger.word)
+      return {
+        phrase: example.text.slice(inPhrase[0].start, inPhrase[inPhrase.length - 1].end),
+        rule: annotation.rule,
+        source: annotation.source,
+        trigger: annotation.trigger,
+        reference: example.reference,
+      }
+    })
+}
+
+// Questions drawn from the letter groups of section `nun-ahkam`: which group
+// each letter belongs to, and which rule applies in examples. Uses every
+// example quoted in the lessons and up to `perRule` more per rule from the
+// other examples given (e.g. ayat of the mushaf). Empty for chapters without
+// the section.
+export function nunSakinahQuestions(
+  topic: Topic,
+  chapter: Chapter,
+  lessonExamples: QuranExample[],
+  moreExamples: QuranExample[] = [],
+  perRule = 3,
+): QuizQuestion[] {
+  const section = chapter.sections.find((section) => section.id === NUN_AHKAM_SECTION)
+  if (!section) return []
+  const href = `${topic.route}/${chapter.id}/${section.id}`
+  const common = { href, sectionTitle: section.title }
+
+  const groupQuestions = letterGroups.flatMap((group, groupIndex) =>
+    group.letters.map((letter): QuizQuestion => ({
+      ...common,
+      id: `letter-group-${letter}`,
+      kind: 'letter-group',
+      prompt: LETTER_GROUP_PROMPT,
+      example: urduLetter(letter),
+      options: letterGroups.map(({ name }) => name),
+      answer: groupIndex,
+      explanation: `'${urduLetter(letter)}' ${group.name} میں سے ہے، اس لیے نون ساکن یا تنوین کے بعد آئے تو ${group.rules.map((rule) => nunSakinahRuleNames[rule]).join(' یا ')} ہوگا۔`,
+    })),
+  )
+
+  const seen = new Set<string>()
+  const isNew = ({ phrase }: { phrase: string }) => {
+    if (seen.has(phrase)) return false
+    seen.add(phrase)
+    return true
+  }
+  const extraPerRule = new Map<NunSakinahRule, number>()
+  const phrases = [
+    ...lessonExamples.flatMap(rulePhrases).filter(isNew),
+    ...moreExamples
+      .flatMap(rulePhrases)
+      .filter(isNew)
+      .filter(({ rule }) => {
+        const count = extraPerRule.get(rule) ?? 0
+        extraPerRule.set(rule, count + 1)
+        return count < perRule
+      }),
+  ]
+
+  const ruleQuestions = phrases.map(({ phrase, rule, source, trigger, reference }): QuizQuestion => ({
+    ...common,
+    id: `identify-rule-${phrase}`,
+    kind: 'identify-rule',
+    prompt: IDENTIFY_RULE_PROMPT,
+    example: phrase,
+    ...(reference && { reference }),
+    options: RULE_ORDER.map((option) => nunSakinahRuleNames[option]),
+    answer: RULE_ORDER.indexOf(rule),
+    explanation: `${source === 'tanween' ? 'تنوین' : "'ن' ساکن"} کے بعد '${urduLetter(trigger)}' ہے جو ${groupOf(rule).name} میں سے ہے، اس لیے یہاں ${nunSakinahRuleNames[rule]} ہوگا۔`,
+  }))
+
+  return [...ruleQuestions, ...groupQuestions]
+}
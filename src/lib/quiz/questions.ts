@@ -0,0 +1,78 @@
+import type { Chapter, QuizQuestionData, Topic } from '@/lib/content/schema'
+
+export type QuizQuestionKind = QuizQuestionData['type']
+
+// A question ready to ask, whether declared in the content or generated.
+// Plain data, so quizzes are built on the server.
+export interface QuizQuestion {
+  id: string
+  kind: QuizQuestionKind
+  prompt: string
+  // Vocalized Arabic (or a single letter) the question is about
+  example?: string
+  // Ayah the example is taken from ('112:3')
+  reference?: string
+  options: string[]
+  // Index into `options`
+  answer: number
+  explanation?: string
+  // The section teaching the answer
+  href: string
+  sectionTitle: string
+}
+
+export const TRUE_FALSE_OPTIONS = ['درست', 'غلط']
+
+export const IDENTIFY_RULE_PROMPT = 'اس مثال میں کون سا قاعدہ ہے؟'
+export const LETTER_GROUP_PROMPT = 'یہ حرف کس گروہ میں سے ہے؟'
+
+function fromData(data: QuizQuestionData, id: string, href: string, sectionTitle: string): QuizQuestion {
+  const common = { id, kind: data.type, explanation: data.explanation, href, sectionTitle }
+  switch (data.type) {
+    case 'multiple-choice':
+      return { ...common, prompt: data.question, options: data.options, answer: data.options.indexOf(data.answer) }
+    case 'identify-rule':
+      return { ...common, prompt: IDENTIFY_RULE_PROMPT, example: data.example, options: data.options, answer: data.options.indexOf(data.answer) }
+    case 'letter-group':
+      return { ...common, prompt: LETTER_GROUP_PROMPT, example: data.letter, options: data.options, answer: data.options.indexOf(data.answer) }
+    case 'true-false':
+      return { ...common, prompt: data.statement, options: TRUE_FALSE_OPTIONS, answer: data.answer ? 0 : 1 }
+  }
+}
+
+// The questions a chapter's sections declare, in section order
+export function declaredQuestions(topic: Topic, chapter: Chapter): QuizQuestion[] {
+  return chapter.sections.flatMap((section) =>
+    (section.quiz ?? []).map((data, index) =>
+      fromData(data, `${section.id}-${index}`, `${topic.route}/${chapter.id}/${section.id}`, section.title),
+    ),
+  )
+}
+
+export const QUIZ_ROUND_LENGTH = 10
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const item = result[i]
+    result[i] = result[j]
+    result[j] = item
+  }
+  return result
+}
+
+// A round of up to `length` questions in random order, each with its options
+// shuffled (true/false keeps درست before غلط)
+export function drawQuizRound(questions: QuizQuestion[], length = QUIZ_ROUND_LENGTH, random = Math.random): QuizQuestion[] {
+  return shuffle(questions, random)
+    .slice(0, length)
+    .map((question) => {
+      if (question.kind === 'true-false') return question
+      const order = shuffle(
+        question.options.map((_, index) => index),
+        random,
+      )
+      return { ...question, options: order.map((index) => question.options[index]), answer: order.indexOf(question.answer) }
+    })
+}
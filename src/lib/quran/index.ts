@@ -0,0 +1,5 @@
+// Client components should import `./surahs` or `./references` directly:
+// `./text` pulls in the whole mushaf
+export * from './surahs'
+export * from './references'
+export * from './text'
@@ -0,0 +1,63 @@
+import { getSurah, isValidAyah } from './surahs'
+
+// One ayah or a run of ayat of a surah, cited in content as {{14:4}} or
+// {{2:1-5}}
+export interface QuranReference {
+  surah: number
+  from: number
+  to: number
+}
+
+export interface QuranReferenceMatch {
+  start: number
+  end: number
+  // As written, braces included
+  raw: string
+  reference?: QuranReference
+  // Why the citation cannot be resolved; set instead of `reference`
+  error?: string
+}
+
+const REFERENCE = /\{\{([^{}]*)\}\}/g
+const REFERENCE_BODY = /^\s*(\d+)\s*:\s*(\d+)(?:\s*-\s*(\d+))?\s*$/
+
+function checkReference(body: string): { reference?: QuranReference; error?: string } {
+  const match = body.match(REFERENCE_BODY)
+  if (!match) return { error: 'must be {{surah:ayah}} or {{surah:from-to}}, e.g. {{14:4}}' }
+
+  const surah = Number(match[1])
+  const from = Number(match[2])
+  const to = match[3] ? Number(match[3]) : from
+  const info = getSurah(surah)
+  if (!info) return { error: `surah ${surah} does not exist (1–114)` }
+  if (!isValidAyah(surah, from) || !isValidAyah(surah, to)) {
+    return { error: `surah ${surah} (${info.transliteration}) has ${info.ayahCount} ayat` }
+  }
+  if (to < from) return { error: 'the range ends before it starts' }
+  return { reference: { surah, from, to } }
+}
+
+// Every {{...}} citation in a paragraph, in order
+export function findQuranReferences(text: string): QuranReferenceMatch[] {
+  return [...text.matchAll(REFERENCE)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    raw: match[0],
+    ...checkReference(match[1]),
+  }))
+}
+
+// '14:4' or '2:1-5', used to look up the resolved text
+export function quranReferenceKey({ surah, from, to }: QuranReference): string {
+  return from === to ? `${surah}:${from}` : `${surah}:${from}-${to}`
+}
+
+// The citation in the wording the content used before references existed
+export function formatQuranReference({ surah, from, to }: QuranReference): string {
+  const name = getSurah(surah)?.name ?? surah
+  return from === to ? `سورت ${name} - آیت نمبر ${from}` : `سورت ${name} - آیات ${from} تا ${to}`
+}
+
+export function quranComUrl({ surah, from, to }: QuranReference): string {
+  return from === to ? `https://quran.com/${surah}/${from}` : `https://quran.com/${surah}/${from}-${to}`
+}
@@ -0,0 +1,25 @@
+import surahList from '@/data/quran-surahs.json'
+
+export interface Surah {
+  number: number
+  // Arabic name as written in the mushaf
+  name: string
+  transliteration: string
+  translation: string
+  type: 'meccan' | 'medinan'
+  ayahCount: number
+}
+
+// Metadata for the 114 surahs. Small enough for client code; the verse text
+// itself lives in `./text`.
+export const surahs = surahList as Surah[]
+
+export function getSurah(surah: number): Surah | undefined {
+  return surahs[surah - 1]
+}
+
+// Whether surah:ayah exists in the mushaf
+export function isValidAyah(surah: number, ayah: number): boolean {
+  const info = getSurah(surah)
+  return info !== undefined && Number.isInteger(ayah) && ayah >= 1 && ayah <= info.ayahCount
+}
@@ -0,0 +1,73 @@
+import quranText from '@/data/quran-uthmani.json'
+import { sectionLines } from '@/lib/content/blocks'
+import type { TopicContent } from '@/lib/content/schema'
+import { findQuranReferences, quranReferenceKey, type QuranReference } from './references'
+import { isValidAyah } from './surahs'
+
+// The bundled text writes open tanween as U+0657, U+065E and U+0656, and
+// the small rounded zero over unread letters (كَفَرُواْ، أُوْلَـٰٓئِكَ) as
+// U+0652, all of which are other marks in Indo-Pak text. They are read here
+// as the open tanween U+08F0–U+08F2 and U+06DF the tajweed analyzers know.
+const BUNDLED_MARKS: Record<string, string> = {
+  '\u0657': '\u08F0',
+  '\u065E': '\u08F1',
+  '\u0656': '\u08F2',
+  '\u0652': '\u06DF',
+}
+
+// The whole mushaf (about 1.3 MB); import it from server code only and hand
+// the ayat a page needs to the client
+const ayat: string[][] = quranText.surahs.map((surah) =>
+  surah.map((text) => text.replace(/[\u0652\u0656\u0657\u065E]/g, (mark) => BUNDLED_MARKS[mark])),
+)
+
+export interface Ayah {
+  surah: number
+  ayah: number
+  // Uthmani script, without the ayah number
+  text: string
+}
+
+export function getAyah(surah: number, ayah: number): Ayah | undefined {
+  if (!isValidAyah(surah, ayah)) return undefined
+  return { surah, ayah, text: ayat[surah - 1][ayah - 1] }
+}
+
+// Ayat `from` to `to` of a surah, inclusive; undefined unless all of them exist
+export function getAyahRange(surah: number, from: number, to: number): Ayah[] | undefined {
+  if (to < from || !isValidAyah(surah, from) || !isValidAyah(surah, to)) return undefined
+  return ayat[surah - 1].slice(from - 1, to).map((text, index) => ({ surah, ayah: from + index, text }))
+}
+
+// Every ayah of the mushaf in order, or of one surah
+export function getAyat(surah?: number): Ayah[] {
+  const surahNumbers = surah === undefined ? ayat.map((_, index) => index + 1) : isValidAyah(surah, 1) ? [surah] : []
+  return surahNumbers.flatMap((number) => ayat[number - 1].map((text, index) => ({ surah: number, ayah: index + 1, text })))
+}
+
+const toArabicDigits = (value: number) => String(value).replace(/\d/g, (digit) => String.fromCharCode(0x0660 + Number(digit)))
+
+// The cited ayat as one text, each followed by its number in ornate
+// parentheses (﴿٤﴾); the tajweed analyzers read the number as an ayah end
+export function getPassageText({ surah, from, to }: QuranReference): string | undefined {
+  return getAyahRange(surah, from, to)
+    ?.map(({ ayah, text }) => `${text} ﴿${toArabicDigits(ayah)}﴾`)
+    .join(' ')
+}
+
+// Text of every ayah a topic cites, keyed by `quranReferenceKey`, for the
+// reader to render the {{14:4}} references
+export function versesCitedIn(content: TopicContent): Record<string, string> {
+  const verses: Record<string, string> = {}
+  for (const chapter of content.chapters) {
+    for (const section of chapter.sections) {
+      for (const paragraph of sectionLines(section)) {
+        for (const { reference } of findQuranReferences(paragraph)) {
+          const text = reference && getPassageText(reference)
+          if (text) verses[quranReferenceKey(reference)] = text
+        }
+      }
+    }
+  }
+  return verses
+}
@@ -0,0 +1,137 @@
+import { sectionLines } from '@/lib/content/blocks'
+import type { Topic, TopicContent } from '@/lib/content/schema'
+import type { Ayah } from '@/lib/quran/text'
+import { findQuranReferences, quranComUrl, quranReferenceKey } from '@/lib/quran/references'
+import { annotateTajweed } from '@/lib/tajweed/annotate'
+import { isSakin, normalizeLetter, tokenize, type LetterCluster } from '@/lib/tajweed/arabic'
+import type { TajweedCategory } from '@/lib/tajweed/rules'
+import { findVocalizedRuns } from '@/lib/tajweed/segments'
+import { findNormalized, normalizeForSearch, type HighlightRange } from './normalize'
+
+// A stretch of vocalized Quranic text: an example quoted in a section, an
+// ayah cited with {{14:4}}, or an ayah of the bundled mushaf
+export interface QuranExample {
+  text: string
+  // '14:4' or '2:1-5', for ayat
+  reference?: string
+  // The section quoting it, or the ayah on quran.com
+  href: string
+}
+
+// The vocalized examples of a topic, plus the ayat it cites. `verses` is
+// `versesCitedIn(content)`.
+export function contentExamples(topic: Topic, content: TopicContent, verses: Record<string, string>): QuranExample[] {
+  return content.chapters.flatMap((chapter) =>
+    chapter.sections.flatMap((section) => {
+      const href = `${topic.route}/${chapter.id}/${section.id}`
+      return sectionLines(section).flatMap((paragraph) => {
+        const references = findQuranReferences(paragraph)
+        // Blank out the references so their digits do not join a run
+        const prose = references.reduce((text, { start, end }) => text.slice(0, start) + ' '.repeat(end - start) + text.slice(end), paragraph)
+        return [
+          ...findVocalizedRuns(prose).map(({ start, end }) => ({ text: paragraph.slice(start, end), href })),
+          ...references.flatMap(({ reference }) => {
+            const key = reference && quranReferenceKey(reference)
+            return key && verses[key] ? [{ text: verses[key], reference: key, href }] : []
+          }),
+        ]
+      })
+    }),
+  )
+}
+
+export function ayahExamples(ayat: Ayah[]): QuranExample[] {
+  return ayat.map(({ surah, ayah, text }) => ({
+    text,
+    reference: `${surah}:${ayah}`,
+    href: quranComUrl({ surah, from: ayah, to: ayah }),
+  }))
+}
+
+export interface ExampleQuery {
+  // Letters to look for with harakat ignored, so من finds مِنْ and مِن٘
+  skeleton?: string
+  // Only letters coloured with this rule
+  rule?: TajweedCategory
+  // Only this letter where it is sakin, e.g. ن for nun sakinah
+  sakinLetter?: string
+}
+
+export interface ExampleMatch {
+  example: QuranExample
+  // The matched span of `example.text`
+  start: number
+  end: number
+  text: string
+  // The whole word (or words) around the span
+  word: string
+  // Rules coloured on the span
+  rules: TajweedCategory[]
+}
+
+const overlaps = ([start, end]: HighlightRange, other: HighlightRange) => start < other[1] && end > other[0]
+
+// From the start of the first word touching the span to the end of the last
+function wordAround(clusters: LetterCluster[], [start, end]: HighlightRange): HighlightRange {
+  const touched = clusters.filter((cluster) => cluster.start < end && cluster.end > start)
+  if (touched.length === 0) return [start, end]
+  const first = touched[0].word
+  const last = touched[touched.length - 1].word
+  const inWords = clusters.filter((cluster) => cluster.word >= first && cluster.word <= last)
+  return [inWords[0].start, inWords[inWords.length - 1].end]
+}
+
+// Finds every span of the examples meeting all the given criteria. The span
+// is the skeleton match if there is one, else the sakin letter, else the
+// letters the rule colours. An empty query finds nothing.
+export function queryExamples(examples: QuranExample[], query: ExampleQuery, limit = Infinity): ExampleMatch[] {
+  const skeleton = query.skeleton ? normalizeForSearch(query.skeleton).text.trim() : ''
+  const letter = query.sakinLetter ? normalizeLetter(query.sakinLetter.trim()) : ''
+  if (!skeleton && !letter && !query.rule) return []
+
+  const matches: ExampleMatch[] = []
+
+  for (const example of examples) {
+    const { text } = example
+    const skeletonSpans = skeleton ? findNormalized(text, normalizeForSearch(text), skeleton) : undefined
+    if (skeletonSpans?.length === 0) continue
+
+    const clusters = tokenize(text)
+    const letterSpans = letter
+      ? clusters
+          .filter((cluster) => cluster.letter === letter && isSakin(cluster))
+          .map(({ start, end }): HighlightRange => [start, end])
+      : undefined
+    if (letterSpans?.length === 0) continue
+
+    const annotations = annotateTajweed(text)
+    const ruleSpans = query.rule
+      ? annotations
+          .filter((annotation) => annotation.category === query.rule)
+          .map(({ start, end }): HighlightRange => [start, end])
+      : undefined
+
+    const [primary, ...filters] = [skeletonSpans, letterSpans, ruleSpans].filter((spans) => spans !== undefined)
+    for (const span of primary) {
+      if (!filters.every((spans) => spans.some((other) => overlaps(span, other)))) continue
+      const [wordStart, wordEnd] = wordAround(clusters, span)
+      matches.push({
+        example,
+        start: span[0],
+        end: span[1],
+        text: text.slice(span[0], span[1]),
+        word: text.slice(wordStart, wordEnd),
+        rules: [
+          ...new Set(
+            annotations
+              .filter((annotation) => overlaps(span, [annotation.start, annotation.end]))
+              .map((annotation) => annotation.category),
+          ),
+        ],
+      })
+      if (matches.length >= limit) return matches
+    }
+  }
+
+  return matches
+}
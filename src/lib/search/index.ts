@@ -0,0 +1,3 @@
+export * from './normalize'
+export * from './search'
+export * from './examples'
@@ -0,0 +1,94 @@
+// Folding used by search, so a query matches whichever spelling the content
+// uses: Urdu and Arabic letter forms are unified, and harakat, Quranic marks
+// and tatweel are dropped. Coarser than the tajweed tokenizer's
+// normalization, which must keep every mark.
+const LETTER_FOLDS: Record<string, string> = {
+  // Alif and hamza seats
+  أ: 'ا',
+  إ: 'ا',
+  آ: 'ا',
+  ٱ: 'ا',
+  ٲ: 'ا',
+  ٳ: 'ا',
+  ؤ: 'و',
+  ئ: 'ي',
+  // Ya: Urdu choti and bari ye, alif maqsura
+  ی: 'ي',
+  ى: 'ي',
+  ې: 'ي',
+  ے: 'ي',
+  ۓ: 'ي',
+  // Kaf
+  ک: 'ك',
+  // Ha and ta marbuta
+  ہ: 'ه',
+  ھ: 'ه',
+  ۀ: 'ه',
+  ۂ: 'ه',
+  ة: 'ه',
+  ۃ: 'ه',
+}
+
+// Standalone hamza (اخفاء / اخفا), harakat, tanween, sukoon, shadda, hamza
+// above/below, standing alif, the small Quranic signs, tatweel and zero
+// width (non-)joiners
+export const IGNORED_FOR_SEARCH = /[\u0621\u064B-\u065F\u0670\u06D6-\u06ED\u0640\u200C\u200D]/
+
+// Arabic-Indic and the Urdu (extended) digits
+const ARABIC_DIGIT = /[\u0660-\u0669\u06F0-\u06F9]/
+
+function foldChar(char: string): string {
+  if (ARABIC_DIGIT.test(char)) {
+    const code = char.charCodeAt(0)
+    return String(code - (code >= 0x06F0 ? 0x06F0 : 0x0660))
+  }
+  return LETTER_FOLDS[char] ?? char.toLowerCase()
+}
+
+export interface NormalizedText {
+  text: string
+  // Index in the original text of every character of `text`
+  offsets: number[]
+}
+
+// Normalizes text for matching, keeping where each character came from so
+// matches can be highlighted in the original
+export function normalizeForSearch(text: string): NormalizedText {
+  let normalized = ''
+  const offsets: number[] = []
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (IGNORED_FOR_SEARCH.test(char)) continue
+    // Runs of whitespace match any whitespace
+    if (/\s/.test(char)) {
+      if (normalized.endsWith(' ')) continue
+      normalized += ' '
+    } else {
+      normalized += foldChar(char)
+    }
+    offsets.push(i)
+  }
+
+  return { text: normalized, offsets }
+}
+
+// [start, end) in the original text
+export type HighlightRange = [number, number]
+
+// Where a normalized term occurs in the original text; a range runs on over
+// the harakat of its last letter
+export function findNormalized(original: string, normalized: NormalizedText, term: string): HighlightRange[] {
+  const ranges: HighlightRange[] = []
+  for (let index = normalized.text.indexOf(term); index !== -1; index = normalized.text.indexOf(term, index + term.length)) {
+    let end = normalized.offsets[index + term.length - 1] + 1
+    while (end < original.length && IGNORED_FOR_SEARCH.test(original[end])) end++
+    ranges.push([normalized.offsets[index], end])
+  }
+  return ranges
+}
+
+// Query terms, normalized; empty for a blank query
+export function searchTerms(query: string): string[] {
+  return [...new Set(normalizeForSearch(query).text.split(' ').filter(Boolean))]
+}
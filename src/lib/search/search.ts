@@ -0,0 +1,216 @@
+import { entryLines } from '@/lib/content/blocks'
+import type { Topic, TopicContent } from '@/lib/content/schema'
+import { findQuranReferences, formatQuranReference } from '@/lib/quran/references'
+import { tajweedCategoriesTaughtIn, tajweedCategoryInfo } from '@/lib/tajweed/rules'
+import { findNormalized, normalizeForSearch, searchTerms, type HighlightRange, type NormalizedText } from './normalize'
+
+// One searchable page: a topic, a chapter or a section. Plain data, so the
+// list can be built on the server and searched in the browser.
+export interface SearchDocument {
+  href: string
+  title: string
+  // English subtitle
+  subtitle: string
+  // Topic and chapter titles above the page
+  breadcrumb: string[]
+  // Names of the tajweed rules the page teaches, so "qalqalah" finds
+  // "Echo Letters"
+  keywords: string[]
+  content: string[]
+  notes: string[]
+}
+
+// Writes {{14:4}} references out as their citation, as they are read
+function citationsAsText(paragraph: string): string {
+  let text = ''
+  let position = 0
+  for (const { start, end, reference } of findQuranReferences(paragraph)) {
+    text += paragraph.slice(position, start) + (reference ? `(${formatQuranReference(reference)})` : '')
+    position = end
+  }
+  return text + paragraph.slice(position)
+}
+
+const ruleNamesTaughtIn = (chapterId: string, sectionId: string) =>
+  tajweedCategoriesTaughtIn(chapterId, sectionId).flatMap((category) => [
+    tajweedCategoryInfo[category].english,
+    tajweedCategoryInfo[category].name,
+  ])
+
+export function buildSearchDocuments(topics: { topic: Topic; content: TopicContent }[]): SearchDocument[] {
+  return topics.flatMap(({ topic, content }) => [
+    {
+      href: topic.route,
+      title: topic.title,
+      subtitle: topic.subtitle,
+      breadcrumb: [],
+      keywords: [],
+      content: [topic.description],
+      notes: [],
+    },
+    ...[...content.chapters]
+      .sort((a, b) => a.order - b.order)
+      .flatMap((chapter) => [
+        {
+          href: `${topic.route}/${chapter.id}`,
+          title: chapter.title,
+          subtitle: chapter.subtitle,
+          breadcrumb: [topic.title],
+          keywords: [...new Set(chapter.sections.flatMap((section) => ruleNamesTaughtIn(chapter.id, section.id)))],
+          content: [],
+          notes: [],
+        },
+        ...chapter.sections.map((section) => ({
+          href: `${topic.route}/${chapter.id}/${section.id}`,
+          title: section.title,
+          subtitle: section.subtitle,
+          breadcrumb: [topic.title, chapter.title],
+          keywords: ruleNamesTaughtIn(chapter.id, section.id),
+          content: section.content.flatMap(entryLines).map(citationsAsText),
+          notes: (section.notes ?? []).flatMap(entryLines).map(citationsAsText),
+        })),
+      ]),
+  ])
+}
+
+type Field = 'title' | 'subtitle' | 'keywords' | 'content' | 'notes'
+
+// A match in a title outweighs any number of matches in the body
+const FIELD_WEIGHTS: Record<Field, number> = { title: 10, subtitle: 6, keywords: 6, content: 2, notes: 1 }
+
+interface IndexedText extends NormalizedText {
+  original: string
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[]
+  fields: Record<Field, IndexedText[]>[]
+}
+
+const indexText = (original: string): IndexedText => ({ original, ...normalizeForSearch(original) })
+
+export function createSearchIndex(documents: SearchDocument[]): SearchIndex {
+  return {
+    documents,
+    fields: documents.map((document) => ({
+      title: [indexText(document.title)],
+      subtitle: [indexText(document.subtitle)],
+      keywords: document.keywords.map(indexText),
+      content: document.content.map(indexText),
+      notes: document.notes.map(indexText),
+    })),
+  }
+}
+
+export interface SearchSnippet {
+  text: string
+  highlights: HighlightRange[]
+}
+
+export interface SearchResult {
+  document: SearchDocument
+  score: number
+  titleHighlights: HighlightRange[]
+  subtitleHighlights: HighlightRange[]
+  // The paragraph that matches best, cut around its first match
+  snippet?: SearchSnippet
+}
+
+function occurrences(text: string, term: string): number[] {
+  const found: number[] = []
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+    found.push(index)
+  }
+  return found
+}
+
+function highlightsIn(indexed: IndexedText, terms: string[]): HighlightRange[] {
+  return mergeRanges(terms.flatMap((term) => findNormalized(indexed.original, indexed, term)))
+}
+
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const merged: HighlightRange[] = []
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end)
+    else merged.push([start, end])
+  }
+  return merged
+}
+
+const SNIPPET_BEFORE = 30
+const SNIPPET_LENGTH = 140
+
+function snippetOf(indexed: IndexedText, terms: string[]): SearchSnippet {
+  const highlights = highlightsIn(indexed, terms)
+  const { original } = indexed
+  if (original.length <= SNIPPET_LENGTH) return { text: original, highlights }
+
+  // Start and end on word boundaries
+  let start = Math.max(0, (highlights[0]?.[0] ?? 0) - SNIPPET_BEFORE)
+  if (start > 0) start = original.indexOf(' ', start) + 1 || start
+  let end = Math.min(original.length, start + SNIPPET_LENGTH)
+  if (end < original.length) end = original.lastIndexOf(' ', end) > start ? original.lastIndexOf(' ', end) : end
+
+  const prefix = start > 0 ? '… ' : ''
+  return {
+    text: prefix + original.slice(start, end).trim() + (end < original.length ? ' …' : ''),
+    highlights: highlights
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]): HighlightRange => [from - start + prefix.length, to - start + prefix.length]),
+  }
+}
+
+// Ranks every document containing all the query terms, in any of its fields.
+// Each term scores by the best field it appears in, more for matching at the
+// start of a word; the whole query appearing as a phrase scores again.
+export function searchContent(index: SearchIndex, query: string, limit = 20): SearchResult[] {
+  const terms = searchTerms(query)
+  if (terms.length === 0) return []
+  const phrase = terms.length > 1 ? normalizeForSearch(query.trim()).text : undefined
+
+  const results: SearchResult[] = []
+
+  index.fields.forEach((fields, documentIndex) => {
+    let score = 0
+
+    for (const term of terms) {
+      let best = 0
+      for (const field of Object.keys(FIELD_WEIGHTS) as Field[]) {
+        for (const { text } of fields[field]) {
+          const found = occurrences(text, term)
+          if (found.length === 0) continue
+          const atWordStart = found.some((index) => index === 0 || text[index - 1] === ' ')
+          best = Math.max(best, FIELD_WEIGHTS[field] * (atWordStart ? 1.5 : 1))
+        }
+      }
+      if (best === 0) return
+      // A page that also uses the term in its text beats one that only
+      // names it
+      const inBody = [...fields.content, ...fields.notes].some(({ text }) => text.includes(term))
+      score += best + (inBody && best > FIELD_WEIGHTS.content * 1.5 ? 1 : 0)
+    }
+
+    if (phrase) {
+      const phraseField = (Object.keys(FIELD_WEIGHTS) as Field[]).find((field) =>
+        fields[field].some(({ text }) => text.includes(phrase)),
+      )
+      if (phraseField) score += FIELD_WEIGHTS[phraseField]
+    }
+
+    // The paragraph holding the most distinct terms, body before notes
+    const paragraphs = [...fields.content, ...fields.notes]
+    const matched = paragraphs.map((paragraph) => terms.filter((term) => paragraph.text.includes(term)).length)
+    const bestParagraph = matched.indexOf(Math.max(0, ...matched))
+
+    results.push({
+      document: index.documents[documentIndex],
+      score,
+      titleHighlights: highlightsIn(fields.title[0], terms),
+      subtitleHighlights: highlightsIn(fields.subtitle[0], terms),
+      ...(bestParagraph !== -1 && matched[bestParagraph] > 0 && { snippet: snippetOf(paragraphs[bestParagraph], terms) }),
+    })
+  })
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit)
+}
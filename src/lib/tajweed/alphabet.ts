@@ -0,0 +1,308 @@
+import { HAMZA_LETTERS, ISTILA_LETTERS, SEMI_ISTILA_LETTERS } from './letters'
+import { maddTypeInfo } from './madd'
+import { nunSakinahRuleFor, nunSakinahRuleNames, type NunSakinahRule } from './nun-sakinah'
+import { tajweedCategoryInfo, type TajweedCategory } from './rules'
+import { tafkheemReasons } from './tafkheem'
+
+// The 29 letters of the alphabet as the lessons count them, with where each
+// is pronounced (makhraj) and its characteristics (sifat). The letter chart
+// at /letters is drawn from this table alone.
+
+// A section of the tajweed content
+export interface LessonRef {
+  chapter: string
+  section: string
+}
+
+export const lessonKey = ({ chapter, section }: LessonRef) => `${chapter}/${section}`
+
+export type MakhrajGroup = 'jawf' | 'halq' | 'lisan' | 'shafatan'
+
+export const makhrajGroups: Record<MakhrajGroup, { name: string; english: string; lesson: LessonRef }> = {
+  jawf: { name: 'جوف', english: 'Mouth cavity', lesson: { chapter: 'makharij', section: 'what-are-makharij' } },
+  halq: { name: 'حلق', english: 'Throat', lesson: { chapter: 'makharij', section: 'throat-letters' } },
+  lisan: { name: 'زبان', english: 'Tongue', lesson: { chapter: 'makharij', section: 'letters-pronounced-from-the-tongue' } },
+  shafatan: { name: 'ہونٹ', english: 'Lips', lesson: { chapter: 'makharij', section: 'letters-pronounced-from-the-lips' } },
+}
+
+// The five pairs of opposites, every letter having one of each, then the
+// characteristics only some letters have
+export const SIFAT = [
+  'hams',
+  'jahr',
+  'shiddah',
+  'tawassut',
+  'rikhawah',
+  'istila',
+  'istifal',
+  'itbaq',
+  'infitah',
+  'idhlaq',
+  'ismat',
+  'safir',
+  'qalqalah',
+  'leen',
+  'inhiraf',
+  'takrir',
+  'tafashshi',
+  'istitalah',
+  'ghunnah',
+] as const
+
+export type Sifah = (typeof SIFAT)[number]
+
+export const sifahInfo: Record<Sifah, { name: string; english: string; lesson?: LessonRef }> = {
+  hams: { name: 'ہمس', english: 'Hams' },
+  jahr: { name: 'جہر', english: 'Jahr' },
+  shiddah: { name: 'شدت', english: 'Shiddah' },
+  tawassut: { name: 'توسط', english: 'Tawassut' },
+  rikhawah: { name: 'رخاوت', english: 'Rikhawah' },
+  istila: {
+    name: 'استعلاء',
+    english: "Isti'la",
+    lesson: { chapter: 'rules-and-regulations-of-tajweed', section: 'heavy-letters' },
+  },
+  istifal: { name: 'استفال', english: 'Istifal' },
+  itbaq: { name: 'اطباق', english: 'Itbaq' },
+  infitah: { name: 'انفتاح', english: 'Infitah' },
+  idhlaq: { name: 'اذلاق', english: 'Idhlaq' },
+  ismat: { name: 'اصمات', english: 'Ismat' },
+  safir: { name: 'صفیر', english: 'Safir' },
+  qalqalah: { name: 'قلقلہ', english: 'Qalqalah', lesson: { chapter: 'echo-letters', section: 'what-is-echo-letters' } },
+  leen: { name: 'لین', english: 'Leen' },
+  inhiraf: { name: 'انحراف', english: 'Inhiraf' },
+  takrir: { name: 'تکریر', english: 'Takrir' },
+  tafashshi: { name: 'تفشی', english: 'Tafashshi' },
+  istitalah: { name: 'استطالت', english: 'Istitalah' },
+  ghunnah: { name: 'غنہ', english: 'Ghunnah', lesson: { chapter: 'nun-sakin', section: 'what-is-nun-sakin' } },
+}
+
+export interface LetterInfo {
+  // Canonical form, as produced by `normalizeLetter`
+  letter: string
+  name: string
+  makhraj: MakhrajGroup
+  // The exact point, in the words of the makharij chapter
+  point: string
+  sifat: Sifah[]
+}
+
+export const ALPHABET: LetterInfo[] = [
+  { letter: 'ا', name: 'الف', makhraj: 'jawf', point: 'منہ کا خلا', sifat: ['jahr', 'rikhawah', 'istifal', 'infitah', 'ismat'] },
+  {
+    letter: 'ب',
+    name: 'با',
+    makhraj: 'shafatan',
+    point: 'دونوں ہونٹوں کا تر حصہ',
+    sifat: ['jahr', 'shiddah', 'istifal', 'infitah', 'idhlaq', 'qalqalah'],
+  },
+  { letter: 'ت', name: 'تا', makhraj: 'lisan', point: 'زبان کی نوک', sifat: ['hams', 'shiddah', 'istifal', 'infitah', 'ismat'] },
+  {
+    letter: 'ث',
+    name: 'ثا',
+    makhraj: 'lisan',
+    point: 'زبان کی نوک اور اوپر کے دانت',
+    sifat: ['hams', 'rikhawah', 'istifal', 'infitah', 'ismat'],
+  },
+  {
+    letter: 'ج',
+    name: 'جیم',
+    makhraj: 'lisan',
+    point: 'زبان کا درمیان',
+    sifat: ['jahr', 'shiddah', 'istifal', 'infitah', 'ismat', 'qalqalah'],
+  },
+  { letter: 'ح', name: 'حا', makhraj: 'halq', point: 'وسط حلق', sifat: ['hams', 'rikhawah', 'istifal', 'infitah', 'ismat'] },
+  { letter: 'خ', name: 'خا', makhraj: 'halq', point: 'ادنی حلق', sifat: ['hams', 'rikhawah', 'istila', 'infitah', 'ismat'] },
+  {
+    letter: 'د',
+    name: 'دال',
+    makhraj: 'lisan',
+    point: 'زبان کی نوک',
+    sifat: ['jahr', 'shiddah', 'istifal', 'infitah', 'ismat', 'qalqalah'],
+  },
+  {
+    letter: 'ذ',
+    name: 'ذال',
+    makhraj: 'lisan',
+    point: 'زبان کی نوک اور اوپر کے دانت',
+    sifat: ['jahr', 'rikhawah', 'istifal', 'infitah', 'ismat'],
+  },
+  {
+    letter: 'ر',
+    name: 'را',
+    makhraj: 'lisan',
+    point: 'زبان کی نوک اور اس کی پشت',
+    sifat: ['jahr', 'tawassut', 'istifal', 'infitah', 'idhlaq', 'inhiraf', 'takrir'],
+  },
+  {
+    letter: 'ز',
+    name: 'زا',
+    makhraj: 'lisan',
+    point: 'زبان کی نوک اور نیچے کے دانت',
+    sifat: ['jahr', 'rikhawah', 'istifal', 'infitah', 'ismat', 'safir'],
+  },
+  {
+    letter: 'س',
+    name: 'سین',
+    makhraj: 'lisan',
+    point: 'زبان کی نوک اور نیچے کے دانت',
+    sifat: ['hams', 'rikhawah', 'istifal', 'infitah', 'ismat', 'safir'],
+  },
+  {
+    letter: 'ش',
+    name: 'شین',
+    makhraj: 'lisan',
+    point: 'زبان کا درمیان',
+    sifat: ['hams', 'rikhawah', 'istifal', 'infitah', 'ismat', 'tafashshi'],
+  },
+  {
+    letter: 'ص',
+    name: 'صاد',
+    makhraj: 'lisan',
+    point: 'زبان کی نوک اور نیچے کے دانت',
+    sifat: ['hams', 'rikhawah', 'istila', 'itbaq', 'ismat', 'safir'],
+  },
+  {
+    letter: 'ض',
+    name: 'ضاد',
+    makhraj: 'lisan',
+    point: 'زبان کی سائیڈ',
+    sifat: ['jahr', 'rikhawah', 'istila', 'itbaq', 'ismat', 'istitalah'],
+  },
+  {
+    letter: 'ط',
+    name: 'طا',
+    makhraj: 'lisan',
+    point: 'زبان کی نوک',
+    sifat: ['jahr', 'shiddah', 'istila', 'itbaq', 'ismat', 'qalqalah'],
+  },
+  {
+    letter: 'ظ',
+    name: 'ظا',
+    makhraj: 'lisan',
+    point: 'زبان کی نوک اور اوپر کے دانت',
+    sifat: ['jahr', 'rikhawah', 'istila', 'itbaq', 'ismat'],
+  },
+  { letter: 'ع', name: 'عین', makhraj: 'halq', point: 'وسط حلق', sifat: ['jahr', 'tawassut', 'istifal', 'infitah', 'ismat'] },
+  { letter: 'غ', name: 'غین', makhraj: 'halq', point: 'ادنی حلق', sifat: ['jahr', 'rikhawah', 'istila', 'infitah', 'ismat'] },
+  {
+    letter: 'ف',
+    name: 'فا',
+    makhraj: 'shafatan',
+    point: 'نیچے کا ہونٹ اور اوپر کے دانت',
+    sifat: ['hams', 'rikhawah', 'istifal', 'infitah', 'idhlaq'],
+  },
+  {
+    letter: 'ق',
+    name: 'قاف',
+    makhraj: 'lisan',
+    point: 'زبان کی جڑ',
+    sifat: ['jahr', 'shiddah', 'istila', 'infitah', 'ismat', 'qalqalah'],
+  },
+  { letter: 'ك', name: 'کاف', makhraj: 'lisan', point: 'زبان کی جڑ', sifat: ['hams', 'shiddah', 'istifal', 'infitah', 'ismat'] },
+  {
+    letter: 'ل',
+    name: 'لام',
+    makhraj: 'lisan',
+    point: 'زبان کا کنارہ',
+    sifat: ['jahr', 'tawassut', 'istifal', 'infitah', 'idhlaq', 'inhiraf'],
+  },
+  {
+    letter: 'م',
+    name: 'میم',
+    makhraj: 'shafatan',
+    point: 'دونوں ہونٹوں کا خشک حصہ',
+    sifat: ['jahr', 'tawassut', 'istifal', 'infitah', 'idhlaq', 'ghunnah'],
+  },
+  {
+    letter: 'ن',
+    name: 'نون',
+    makhraj: 'lisan',
+    point: 'زبان کی نوک',
+    sifat: ['jahr', 'tawassut', 'istifal', 'infitah', 'idhlaq', 'ghunnah'],
+  },
+  {
+    letter: 'و',
+    name: 'واؤ',
+    makhraj: 'shafatan',
+    point: 'ہونٹ گول کر کے',
+    sifat: ['jahr', 'rikhawah', 'istifal', 'infitah', 'ismat', 'leen'],
+  },
+  { letter: 'ه', name: 'ہا', makhraj: 'halq', point: 'اقصیٰ حلق', sifat: ['hams', 'rikhawah', 'istifal', 'infitah', 'ismat'] },
+  { letter: 'ء', name: 'ہمزہ', makhraj: 'halq', point: 'اقصیٰ حلق', sifat: ['jahr', 'shiddah', 'istifal', 'infitah', 'ismat'] },
+  {
+    letter: 'ي',
+    name: 'یا',
+    makhraj: 'lisan',
+    point: 'زبان کا درمیان',
+    sifat: ['jahr', 'rikhawah', 'istifal', 'infitah', 'ismat', 'leen'],
+  },
+]
+
+// Heavy (the istila letters), light, or either depending on the letters
+// around it (ا ل ر)
+export type LetterWeightClass = 'heavy' | 'light' | 'varies'
+
+export function letterWeightClass(letter: string): LetterWeightClass {
+  if (ISTILA_LETTERS.includes(letter)) return 'heavy'
+  if (SEMI_ISTILA_LETTERS.includes(letter)) return 'varies'
+  return 'light'
+}
+
+export interface FollowingLetterRule {
+  name: string
+  // Colour of the rule in the reader, if it has one
+  category?: TajweedCategory
+  lesson: LessonRef
+}
+
+const nunSakinahCategories: Record<NunSakinahRule, TajweedCategory | undefined> = {
+  izhar: undefined,
+  iqlab: 'iqlab',
+  'idgham-ghunnah': 'idgham',
+  'idgham-no-ghunnah': 'idgham',
+  ikhfa: 'ikhfa',
+}
+
+// What a letter decides about the letter before it: the rule of a nun
+// sakinah or tanween, the madd of a madd letter before a hamza, and a ra
+// sakinah read heavy before an istila letter
+export function followingLetterRules(letter: string): FollowingLetterRule[] {
+  const rules: FollowingLetterRule[] = []
+
+  const nunRule = nunSakinahRuleFor(letter)
+  if (nunRule) {
+    rules.push({
+      name: `نون ساکن اور تنوین: ${nunSakinahRuleNames[nunRule]}`,
+      category: nunSakinahCategories[nunRule],
+      lesson: { chapter: 'nun-sakin', section: 'nun-ahkam' },
+    })
+  }
+
+  if (HAMZA_LETTERS.includes(letter)) {
+    const { chapter, section } = tajweedCategoryInfo.madd.source
+    for (const type of ['muttasil', 'munfasil'] as const) {
+      rules.push({ name: `حروف مدہ: ${maddTypeInfo[type].name}`, category: 'madd', lesson: { chapter, section } })
+    }
+  }
+
+  if (ISTILA_LETTERS.includes(letter)) {
+    rules.push({
+      name: `ر ساکن موٹا پڑھا جائے گا (${tafkheemReasons['ra-sakin-before-istila'].text})`,
+      category: 'tafkheem',
+      lesson: { chapter: 'rules-and-regulations-of-tajweed', section: 'semi-elevated-letters' },
+    })
+  }
+
+  return rules
+}
+
+// Every section the chart links to
+export function alphabetLessons(): LessonRef[] {
+  const lessons = [
+    ...Object.values(makhrajGroups).map(({ lesson }) => lesson),
+    ...Object.values(sifahInfo).flatMap(({ lesson }) => (lesson ? [lesson] : [])),
+    ...ALPHABET.flatMap(({ letter }) => followingLetterRules(letter).map(({ lesson }) => lesson)),
+  ]
+  return lessons.filter((lesson, index) => lessons.findIndex((other) => lessonKey(other) === lessonKey(lesson)) === index)
+}
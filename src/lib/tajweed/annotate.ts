@@ -0,0 +1,51 @@
+import { annotateGhunnah } from './ghunnah'
+import { annotateMadd, maddTypeInfo } from './madd'
+import { annotateNunSakinah } from './nun-sakinah'
+import { annotateQalqalah, qalqalahDegreeNames } from './qalqalah'
+import { annotateTafkheem, tafkheemReasons } from './tafkheem'
+import type { TajweedCategory } from './rules'
+
+export interface TajweedAnnotation {
+  category: TajweedCategory
+  start: number
+  end: number
+  // Finer rule shown with the colour, e.g. قلقلہ کبریٰ
+  detail?: string
+  // Harakaat to hold a madd for
+  counts?: number
+}
+
+// Runs every analyzer and maps its rules onto the colour categories. Izhar
+// is read plainly and gets no colour.
+export function annotateTajweed(text: string): TajweedAnnotation[] {
+  const annotations: TajweedAnnotation[] = []
+
+  for (const { rule, start, end } of annotateNunSakinah(text)) {
+    if (rule === 'izhar') continue
+    const category: TajweedCategory = rule === 'idgham-ghunnah' || rule === 'idgham-no-ghunnah' ? 'idgham' : rule
+    annotations.push({ category, start, end })
+  }
+
+  for (const { rule, start, end } of annotateGhunnah(text)) {
+    annotations.push({ category: rule, start, end })
+  }
+
+  // Light letters are read plainly and get no colour
+  for (const { weight, reason, start, end } of annotateTafkheem(text)) {
+    if (weight === 'heavy') annotations.push({ category: 'tafkheem', start, end, detail: tafkheemReasons[reason].text })
+  }
+
+  for (const { type, start, end, counts, range, seconds } of annotateMadd(text)) {
+    const length = range ? `${range[0]}–${range[1]}` : `${counts}`
+    const detail = `${maddTypeInfo[type].name}: ${length} حرکات (تقریباً ${seconds} سیکنڈ)`
+    annotations.push({ category: 'madd', start, end, detail, counts })
+  }
+
+  for (const { degree, start, end, waqf, shadda } of annotateQalqalah(text)) {
+    const reason = shadda ? 'وقف، شد کے ساتھ' : waqf ? 'وقف' : undefined
+    const detail = qalqalahDegreeNames[degree].name + (reason ? ` (${reason})` : '')
+    annotations.push({ category: 'qalqalah', start, end, detail })
+  }
+
+  return annotations.sort((a, b) => a.start - b.start)
+}
@@ -0,0 +1,175 @@
+// Unicode handling for vocalized Arabic, shared by the tajweed analyzers.
+// Input may be Uthmani (ٱ, small high meem, open tanween, ۡ as sukoon) or
+// the Urdu-keyboard Arabic used in the content files (ی, ک, ہ, ٘ as sukoon);
+// both are normalized to one set of letters and marks.
+
+export const FATHA = '\u064E'
+export const DAMMA = '\u064F'
+export const KASRA = '\u0650'
+export const FATHATAN = '\u064B'
+export const DAMMATAN = '\u064C'
+export const KASRATAN = '\u064D'
+export const SHADDA = '\u0651'
+export const SUKUN = '\u0652'
+export const MADDAH = '\u0653'
+export const HAMZA_ABOVE = '\u0654'
+export const HAMZA_BELOW = '\u0655'
+export const SUPERSCRIPT_ALEF = '\u0670'
+export const SMALL_MEEM = '\u06E2'
+export const SMALL_WAW = '\u06E5'
+export const SMALL_YA = '\u06E6'
+export const TATWEEL = '\u0640'
+export const ALEF_WASLA = '\u0671'
+export const AYAH_END = '\u06DD'
+// Small high rounded zero: the letter under it is written but never read
+export const SILENT_MARK = '\u06DF'
+
+export const TANWEEN = [FATHATAN, DAMMATAN, KASRATAN]
+export const SHORT_VOWELS = [FATHA, DAMMA, KASRA]
+
+// Variant code points mapped onto the canonical letter or mark
+const LETTER_VARIANTS: Record<string, string> = {
+  'ی': 'ي', // Farsi/Urdu yeh
+  'ے': 'ي', // yeh barree
+  'ک': 'ك', // keheh
+  'ہ': 'ه', // heh goal
+  'ھ': 'ه', // heh doachashmee
+  'ە': 'ه', // ae
+  'ۃ': 'ة', // teh marbuta goal
+}
+
+const MARK_VARIANTS: Record<string, string> = {
+  '\u0658': SUKUN, // noon ghunna mark, typed as jazm on Urdu keyboards
+  '\u06E1': SUKUN, // Uthmani dotless head of khah
+  '\u08F0': FATHATAN, // open tanween
+  '\u08F1': DAMMATAN,
+  '\u08F2': KASRATAN,
+  '\u06ED': SMALL_MEEM, // small low meem
+  '\u0657': DAMMA, // inverted damma
+}
+
+// Waqf signs (صلى، قلى، م، لا، ج، ∴) written above the last word
+export const PAUSE_MARKS = ['\u06D6', '\u06D7', '\u06D8', '\u06D9', '\u06DA', '\u06DB', '\u06DC']
+
+// Small waw/ya and the other Uthmani annotation signs count as marks; the
+// ayah end, rub el hizb and sajdah signs do not
+const isMark = (char: string) => /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E8\u06EA-\u06ED\u08D3-\u08FF]/.test(char)
+const isLetter = (char: string) => /[\u0621-\u063A\u0641-\u064A\u0671-\u06D3]/.test(char)
+
+export function normalizeLetter(char: string): string {
+  return LETTER_VARIANTS[char] ?? char
+}
+
+export function normalizeMark(char: string): string {
+  return MARK_VARIANTS[char] ?? char
+}
+
+// One written letter with the marks stacked on it
+export interface LetterCluster {
+  // Canonical base letter, e.g. 'ي' for both ي and ی
+  letter: string
+  // Canonical marks in written order, pause signs excluded
+  marks: string[]
+  // Waqf sign written after this letter, if any
+  pauseMark?: string
+  // Range of the cluster in the original text, marks and tatweel included
+  start: number
+  end: number
+  word: number
+  // An ayah end or number sits between this letter and the previous one,
+  // so the two are never read connected
+  afterAyahEnd: boolean
+}
+
+// Splits text into letter clusters. Whitespace separates words; ayah ends
+// and Arabic-Indic digits separate words and break the connection.
+export function tokenize(text: string): LetterCluster[] {
+  const clusters: LetterCluster[] = []
+  let word = 0
+  let inWord = false
+  let ayahEnd = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    const current = clusters[clusters.length - 1]
+
+    if (isLetter(char)) {
+      if (!inWord && clusters.length > 0) word++
+      inWord = true
+      clusters.push({
+        letter: normalizeLetter(char),
+        marks: [],
+        start: i,
+        end: i + 1,
+        word,
+        afterAyahEnd: ayahEnd,
+      })
+      ayahEnd = false
+    } else if (char === TATWEEL && current && inWord) {
+      current.end = i + 1
+    } else if (isMark(char) && current && inWord) {
+      // A hamza seat on a tatweel (ـٔ) is a letter of its own
+      if ((char === HAMZA_ABOVE || char === HAMZA_BELOW) && text[i - 1] === TATWEEL) {
+        current.end = i - 1
+        clusters.push({ letter: 'ء', marks: [], start: i - 1, end: i + 1, word, afterAyahEnd: false })
+        continue
+      }
+      if (PAUSE_MARKS.includes(char)) {
+        current.pauseMark = char
+      } else {
+        current.marks.push(normalizeMark(char))
+      }
+      current.end = i + 1
+    } else {
+      inWord = false
+      if (char === AYAH_END || /[\u0660-\u0669\u06F0-\u06F9]/.test(char)) {
+        ayahEnd = true
+      }
+    }
+  }
+
+  return clusters
+}
+
+export const hasMark = (cluster: LetterCluster, ...marks: string[]) => cluster.marks.some((mark) => marks.includes(mark))
+
+export const hasTanween = (cluster: LetterCluster) => hasMark(cluster, ...TANWEEN)
+
+// No vowel of its own: explicit sukoon, or (in fully vocalized text) no
+// vowel, tanween or shadda at all
+export function isSakin(cluster: LetterCluster): boolean {
+  if (hasMark(cluster, SUKUN)) return true
+  return !hasMark(cluster, ...SHORT_VOWELS, ...TANWEEN, SHADDA, SUPERSCRIPT_ALEF)
+}
+
+// Hamzat al-wasl: ٱ, or a bare alif opening a word. Dropped when the word is
+// read connected to the previous one.
+export function isHamzatWasl(cluster: LetterCluster, previous?: LetterCluster): boolean {
+  if (cluster.letter === ALEF_WASLA) return true
+  return cluster.letter === 'ا' && cluster.marks.length === 0 && previous !== undefined && previous.word !== cluster.word
+}
+
+// Letters joined to a word as a one-letter prefix (وَ، فَ، بِ، كَ، لِ، تَ)
+const PREFIX_LETTERS = ['و', 'ف', 'ب', 'ك', 'ل', 'ت']
+
+// Hamzat al-wasl written as a bare alif between a prefix and a sakin letter
+// (وَالصَّلٰوۃِ، بِالْ، فَاسْجُدْ); it is silent, not a madd
+export function isWaslAfterPrefix(clusters: LetterCluster[], index: number): boolean {
+  const [prefix, alif, next] = [clusters[index - 1], clusters[index], clusters[index + 1]]
+  return (
+    alif?.letter === 'ا' &&
+    prefix !== undefined &&
+    PREFIX_LETTERS.includes(prefix.letter) &&
+    prefix.word === alif.word &&
+    clusters[index - 2]?.word !== alif.word &&
+    next !== undefined &&
+    next.word === alif.word &&
+    isSakin(next)
+  )
+}
+
+// Last letter before a stop: the end of the text or an ayah end
+export function isStopAt(clusters: LetterCluster[], index: number): boolean {
+  const next = clusters[index + 1]
+  return next === undefined || next.afterAyahEnd
+}
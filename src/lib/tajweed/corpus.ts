@@ -0,0 +1,289 @@
+import type { MaddType } from './madd'
+import type { NunSakinahRule } from './nun-sakinah'
+import type { QalqalahDegree } from './qalqalah'
+import type { TajweedCategory } from './rules'
+import type { WaqfChange } from './waqf'
+
+// Ayat (or the quoted part of an ayah) with the nun sakinah / tanween,
+// qalqalah and madd rules a qari applies when reading them connected and
+// stopping at the end, in order of appearance.
+// Checked by `bun run tajweed:check`; add an entry whenever the analyzer is
+// fixed for a new case.
+export interface CorpusAyah {
+  // surah:ayah
+  ref: string
+  // 'bundled' entries are the ayah of src/data/quran-uthmani.json as getAyah
+  // reads it, in that text's own encoding, and leave out `text`
+  script: 'imlaei' | 'uthmani' | 'bundled'
+  text?: string
+  nunSakinah: { rule: NunSakinahRule; trigger: string; mutlaq?: boolean }[]
+  qalqalah: { letter: string; degree: QalqalahDegree }[]
+  madd: MaddType[]
+}
+
+export const ayahCorpus: CorpusAyah[] = [
+  {
+    ref: '1:7',
+    script: 'imlaei',
+    text: 'صِرَاطَ الَّذِينَ أَنْعَمْتَ عَلَيْهِمْ غَيْرِ الْمَغْضُوبِ عَلَيْهِمْ وَلَا الضَّالِّينَ',
+    nunSakinah: [{ rule: 'izhar', trigger: 'ع' }],
+    qalqalah: [],
+    madd: ['tabii', 'tabii', 'tabii', 'lazim', 'arid'],
+  },
+  {
+    ref: '1:7',
+    script: 'uthmani',
+    text: 'صِرَٰطَ ٱلَّذِينَ أَنْعَمْتَ عَلَيْهِمْ غَيْرِ ٱلْمَغْضُوبِ عَلَيْهِمْ وَلَا ٱلضَّآلِّينَ',
+    nunSakinah: [{ rule: 'izhar', trigger: 'ع' }],
+    qalqalah: [],
+    madd: ['tabii', 'tabii', 'tabii', 'lazim', 'arid'],
+  },
+  {
+    ref: '2:5',
+    script: 'imlaei',
+    text: 'أُولَٰئِكَ عَلَىٰ هُدًى مِنْ رَبِّهِمْ ۖ وَأُولَٰئِكَ هُمُ الْمُفْلِحُونَ',
+    nunSakinah: [
+      { rule: 'idgham-ghunnah', trigger: 'م' },
+      { rule: 'idgham-no-ghunnah', trigger: 'ر' },
+    ],
+    qalqalah: [],
+    madd: ['muttasil', 'tabii', 'muttasil', 'arid'],
+  },
+  {
+    ref: '2:10',
+    script: 'imlaei',
+    text: 'فِي قُلُوبِهِمْ مَرَضٌ فَزَادَهُمُ اللَّهُ مَرَضًا ۖ وَلَهُمْ عَذَابٌ أَلِيمٌ بِمَا كَانُوا يَكْذِبُونَ',
+    nunSakinah: [
+      { rule: 'ikhfa', trigger: 'ف' },
+      { rule: 'idgham-ghunnah', trigger: 'و' },
+      { rule: 'izhar', trigger: 'أ' },
+      { rule: 'iqlab', trigger: 'ب' },
+    ],
+    qalqalah: [],
+    madd: ['tabii', 'tabii', 'tabii', 'tabii', 'tabii', 'tabii', 'tabii', 'tabii', 'arid'],
+  },
+  {
+    ref: '2:2',
+    script: 'bundled',
+    nunSakinah: [{ rule: 'idgham-no-ghunnah', trigger: 'ل' }],
+    qalqalah: [],
+    madd: ['tabii', 'tabii', 'tabii', 'tabii', 'arid'],
+  },
+  {
+    ref: '2:5',
+    script: 'bundled',
+    nunSakinah: [
+      { rule: 'idgham-ghunnah', trigger: 'م' },
+      { rule: 'idgham-no-ghunnah', trigger: 'ر' },
+    ],
+    qalqalah: [],
+    madd: ['muttasil', 'tabii', 'muttasil', 'arid'],
+  },
+  {
+    ref: '2:10',
+    script: 'bundled',
+    nunSakinah: [
+      { rule: 'ikhfa', trigger: 'ف' },
+      { rule: 'idgham-ghunnah', trigger: 'و' },
+      { rule: 'izhar', trigger: 'أ' },
+      { rule: 'iqlab', trigger: 'ب' },
+    ],
+    qalqalah: [],
+    madd: ['tabii', 'tabii', 'tabii', 'tabii', 'tabii', 'tabii', 'tabii', 'tabii', 'arid'],
+  },
+  {
+    ref: '2:19',
+    script: 'bundled',
+    nunSakinah: [
+      { rule: 'idgham-ghunnah', trigger: 'م' },
+      { rule: 'idgham-ghunnah', trigger: 'و' },
+      { rule: 'idgham-ghunnah', trigger: 'و' },
+      { rule: 'idgham-ghunnah', trigger: 'ي' },
+      { rule: 'iqlab', trigger: 'ب' },
+    ],
+    qalqalah: [{ letter: 'ج', degree: 'sughra' }],
+    madd: [
+      'muttasil',
+      'tabii',
+      'tabii',
+      'tabii',
+      'tabii',
+      'munfasil',
+      'badal',
+      'tabii',
+      'tabii',
+      'tabii',
+      'tabii',
+      'arid',
+    ],
+  },
+  {
+    ref: '2:21',
+    script: 'uthmani',
+    text: 'يَٰٓأَيُّهَا ٱلنَّاسُ ٱعْبُدُوا۟ رَبَّكُمُ ٱلَّذِى خَلَقَكُمْ وَٱلَّذِينَ مِن قَبْلِكُمْ لَعَلَّكُمْ تَتَّقُونَ',
+    nunSakinah: [{ rule: 'ikhfa', trigger: 'ق' }],
+    qalqalah: [{ letter: 'ب', degree: 'sughra' }],
+    madd: ['munfasil', 'tabii', 'tabii', 'tabii', 'tabii', 'arid'],
+  },
+  {
+    ref: '2:27',
+    script: 'imlaei',
+    text: 'الَّذِينَ يَنْقُضُونَ عَهْدَ اللَّهِ مِنْ بَعْدِ مِيثَاقِهِ',
+    nunSakinah: [
+      { rule: 'ikhfa', trigger: 'ق' },
+      { rule: 'iqlab', trigger: 'ب' },
+    ],
+    qalqalah: [],
+    madd: ['tabii', 'tabii', 'tabii', 'tabii'],
+  },
+  {
+    ref: '2:27',
+    script: 'uthmani',
+    text: 'ٱلَّذِينَ يَنقُضُونَ عَهْدَ ٱللَّهِ مِنۢ بَعْدِ مِيثَٰقِهِۦ',
+    nunSakinah: [
+      { rule: 'ikhfa', trigger: 'ق' },
+      { rule: 'iqlab', trigger: 'ب' },
+    ],
+    qalqalah: [],
+    madd: ['tabii', 'tabii', 'tabii', 'tabii'],
+  },
+  {
+    ref: '13:4',
+    script: 'imlaei',
+    text: 'وَجَنَّاتٌ مِنْ أَعْنَابٍ وَزَرْعٌ وَنَخِيلٌ صِنْوَانٌ وَغَيْرُ صِنْوَانٍ',
+    nunSakinah: [
+      { rule: 'idgham-ghunnah', trigger: 'م' },
+      { rule: 'izhar', trigger: 'أ' },
+      { rule: 'idgham-ghunnah', trigger: 'و' },
+      { rule: 'idgham-ghunnah', trigger: 'و' },
+      { rule: 'ikhfa', trigger: 'ص' },
+      { rule: 'izhar', trigger: 'و', mutlaq: true },
+      { rule: 'idgham-ghunnah', trigger: 'و' },
+      { rule: 'izhar', trigger: 'و', mutlaq: true },
+    ],
+    qalqalah: [],
+    madd: ['tabii', 'tabii', 'tabii', 'tabii', 'arid'],
+  },
+  {
+    ref: '11:42',
+    script: 'uthmani',
+    text: 'وَنَادَىٰ نُوحٌ ٱبْنَهُۥ',
+    // Tanween before hamzat al-wasl is read with a kasra; no rule applies
+    nunSakinah: [],
+    qalqalah: [{ letter: 'ب', degree: 'sughra' }],
+    madd: ['tabii', 'tabii', 'tabii'],
+  },
+  {
+    ref: '111:1',
+    script: 'imlaei',
+    text: 'تَبَّتْ يَدَا أَبِي لَهَبٍ وَتَبَّ',
+    nunSakinah: [{ rule: 'idgham-ghunnah', trigger: 'و' }],
+    qalqalah: [{ letter: 'ب', degree: 'kubra' }],
+    madd: ['munfasil', 'tabii'],
+  },
+  {
+    ref: '112:4',
+    script: 'imlaei',
+    text: 'وَلَمْ يَكُنْ لَهُ كُفُوًا أَحَدٌ',
+    nunSakinah: [
+      { rule: 'idgham-no-ghunnah', trigger: 'ل' },
+      { rule: 'izhar', trigger: 'أ' },
+    ],
+    qalqalah: [{ letter: 'د', degree: 'kubra' }],
+    madd: [],
+  },
+  {
+    ref: '112:1',
+    script: 'imlaei',
+    // The closing tanween is at a stop, so nothing follows it
+    text: 'قُلْ هُوَ اللَّهُ أَحَدٌ ۝ اللَّهُ الصَّمَدُ',
+    nunSakinah: [],
+    // Both dals are stopped on, at the ayah end and at the end of the text
+    qalqalah: [
+      { letter: 'د', degree: 'kubra' },
+      { letter: 'د', degree: 'kubra' },
+    ],
+    madd: [],
+  },
+  {
+    ref: '112:3',
+    script: 'imlaei',
+    text: 'لَمْ يَلِدْ وَلَمْ يُولَدْ',
+    nunSakinah: [],
+    qalqalah: [
+      { letter: 'د', degree: 'sughra' },
+      { letter: 'د', degree: 'kubra' },
+    ],
+    madd: ['tabii'],
+  },
+  {
+    ref: '96:19',
+    script: 'imlaei',
+    text: 'كَلَّا لَا تُطِعْهُ وَاسْجُدْ وَاقْتَرِبْ',
+    nunSakinah: [],
+    qalqalah: [
+      { letter: 'د', degree: 'sughra' },
+      { letter: 'ق', degree: 'sughra' },
+      { letter: 'ب', degree: 'kubra' },
+    ],
+    madd: ['tabii', 'tabii'],
+  },
+  {
+    ref: '106:1',
+    script: 'imlaei',
+    // Stopping on قُرَيْشٍ lengthens its ي into a madd leen
+    text: 'لِإِيلَافِ قُرَيْشٍ',
+    nunSakinah: [],
+    qalqalah: [],
+    madd: ['badal', 'tabii', 'leen'],
+  },
+  {
+    ref: '103:3',
+    script: 'imlaei',
+    // The و of وَعَمِلُوا is dropped before the hamzat al-wasl of الصَّالِحَاتِ
+    text: 'إِلَّا الَّذِينَ آمَنُوا وَعَمِلُوا الصَّالِحَاتِ',
+    nunSakinah: [],
+    qalqalah: [],
+    madd: ['tabii', 'badal', 'tabii', 'tabii', 'arid'],
+  },
+]
+
+// Words of the bundled mushaf, in its own encoding, and how they are read
+// when stopping on them. `word` counts the words of the ayah as getAyah
+// reads it from 1; waqf signs stay on the word they are written over.
+export interface CorpusStop {
+  ref: string
+  word: number
+  stopForm: string
+  change: WaqfChange
+}
+
+export const stopCorpus: CorpusStop[] = [
+  { ref: '2:5', word: 3, stopForm: 'هُدَى', change: 'alif' },
+  { ref: '2:10', word: 6, stopForm: 'مَرَضَا', change: 'alif' },
+  { ref: '2:95', word: 3, stopForm: 'أَبَدَا', change: 'alif' },
+  { ref: '2:7', word: 9, stopForm: 'غِشَٰوَهۡ', change: 'ha' },
+  { ref: '2:7', word: 12, stopForm: 'عَظِيمۡ', change: 'sukun' },
+  { ref: '2:10', word: 9, stopForm: 'أَلِيمۡ', change: 'sukun' },
+  { ref: '2:20', word: 24, stopForm: 'شَيۡءۡ', change: 'sukun' },
+  { ref: '2:10', word: 11, stopForm: 'كَانُوا۟', change: 'madd' },
+]
+
+// Ayat of the bundled mushaf run through the examples search of
+// GET /api/examples?source=quran, with the words it finds for a rule
+export interface CorpusSearch {
+  ref: string
+  rule: TajweedCategory
+  words: string[]
+}
+
+export const searchCorpus: CorpusSearch[] = [
+  { ref: '2:10', rule: 'idgham', words: ['مَرَضࣰاۖ وَلَهُمۡ'] },
+  { ref: '2:10', rule: 'ikhfa', words: ['مَّرَضࣱ فَزَادَهُمُ'] },
+  { ref: '2:10', rule: 'iqlab', words: ['أَلِيمُۢ بِمَا'] },
+  {
+    ref: '2:19',
+    rule: 'idgham',
+    words: ['كَصَيِّبࣲ مِّنَ', 'ظُلُمَٰتࣱ وَرَعۡدࣱ', 'وَرَعۡدࣱ وَبَرۡقࣱ', 'وَبَرۡقࣱ يَجۡعَلُونَ'],
+  },
+]
@@ -0,0 +1,15 @@
+import { SHADDA, hasMark, tokenize } from './arabic'
+
+export interface GhunnahAnnotation {
+  rule: 'ghunnah'
+  start: number
+  end: number
+  letter: string
+}
+
+// نّ and مّ are always read with a full ghunnah
+export function annotateGhunnah(text: string): GhunnahAnnotation[] {
+  return tokenize(text)
+    .filter((cluster) => (cluster.letter === 'ن' || cluster.letter === 'م') && hasMark(cluster, SHADDA))
+    .map((cluster) => ({ rule: 'ghunnah', start: cluster.start, end: cluster.end, letter: cluster.letter }))
+}
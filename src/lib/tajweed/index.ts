@@ -0,0 +1,12 @@
+export * from './arabic'
+export * from './letters'
+export * from './nun-sakinah'
+export * from './ghunnah'
+export * from './qalqalah'
+export * from './madd'
+export * from './tafkheem'
+export * from './rules'
+export * from './annotate'
+export * from './segments'
+export * from './waqf'
+export * from './alphabet'
@@ -0,0 +1,40 @@
+// Letter groups as taught in the tajweed content (chapter `nun-sakin`,
+// section `nun-ahkam`). Letters are in the canonical forms produced by
+// `normalizeLetter`.
+
+// حروفِ حلقی: hamza in all its seats, ه ع ح غ خ
+export const HALQI_LETTERS = ['ء', 'أ', 'إ', 'ؤ', 'ئ', 'آ', 'ه', 'ع', 'ح', 'غ', 'خ']
+
+// Hamza on its own or on any seat
+export const HAMZA_LETTERS = ['ء', 'أ', 'إ', 'ؤ', 'ئ', 'آ']
+
+// The six letters as the lessons count them, hamza once rather than once
+// per seat
+export const HALQI_LETTERS_TAUGHT = HALQI_LETTERS.filter((letter) => letter === 'ء' || !HAMZA_LETTERS.includes(letter))
+
+// حروفِ مدہ (section `common-mistakes-in-pronouncing-harakaat`)
+export const MADD_LETTERS = ['ا', 'ى', 'و', 'ي']
+
+export const IQLAB_LETTERS = ['ب']
+
+// یرملون split by whether the nun keeps its ghunnah
+export const IDGHAM_GHUNNAH_LETTERS = ['ي', 'ن', 'م', 'و']
+export const IDGHAM_NO_GHUNNAH_LETTERS = ['ل', 'ر']
+
+// The fifteen letters of ikhfa
+export const IKHFA_LETTERS = ['ت', 'ث', 'ج', 'د', 'ذ', 'ز', 'س', 'ش', 'ص', 'ض', 'ط', 'ظ', 'ف', 'ق', 'ك']
+
+// حروفِ قلقلہ (chapter `echo-letters`)
+export const QALQALAH_LETTERS = ['ق', 'ط', 'ب', 'ج', 'د']
+
+// حروفِ مستعلیہ, always read heavy (section `heavy-letters`)
+export const ISTILA_LETTERS = ['ص', 'ض', 'ط', 'ظ', 'خ', 'غ', 'ق']
+
+// حروفِ شیبہ مستعلیہ, heavy or light depending on the letters around them
+// (section `semi-elevated-letters`)
+export const SEMI_ISTILA_LETTERS = ['ا', 'ل', 'ر']
+
+// Canonical letters back to the Urdu forms the lessons write
+const URDU_FORMS: Record<string, string> = { ي: 'ی', ك: 'ک', ه: 'ہ' }
+
+export const urduLetter = (letter: string) => URDU_FORMS[letter] ?? letter
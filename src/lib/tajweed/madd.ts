@@ -0,0 +1,177 @@
+import {
+  DAMMA,
+  FATHA,
+  KASRA,
+  MADDAH,
+  SHADDA,
+  SHORT_VOWELS,
+  SILENT_MARK,
+  SMALL_WAW,
+  SMALL_YA,
+  SUKUN,
+  SUPERSCRIPT_ALEF,
+  TANWEEN,
+  hasMark,
+  isHamzatWasl,
+  isSakin,
+  isStopAt,
+  isWaslAfterPrefix,
+  tokenize,
+  type LetterCluster,
+} from './arabic'
+import { HAMZA_LETTERS, MADD_LETTERS } from './letters'
+
+// Tabee'i is the natural madd (مد اصلی); the others are مد فرعی, caused by
+// a hamza or a sukoon after the madd (or, for badal, a hamza before it).
+// 'Arid and leen only arise when the reader stops on the next letter.
+export type MaddType = 'tabii' | 'muttasil' | 'munfasil' | 'lazim' | 'arid' | 'badal' | 'leen'
+
+export interface MaddTypeInfo {
+  name: string
+  english: string
+  // Length in harakaat as read in these lessons, and the range allowed in
+  // Hafs where the reader has a choice
+  counts: number
+  range?: [number, number]
+}
+
+export const maddTypeInfo: Record<MaddType, MaddTypeInfo> = {
+  tabii: { name: 'مد طبعی', english: "Madd tabee'i", counts: 2 },
+  muttasil: { name: 'مد متصل', english: 'Madd muttasil', counts: 4, range: [4, 5] },
+  munfasil: { name: 'مد منفصل', english: 'Madd munfasil', counts: 4, range: [4, 5] },
+  lazim: { name: 'مد لازم', english: 'Madd lazim', counts: 6 },
+  arid: { name: 'مد عارض', english: "Madd 'arid lil-sukoon", counts: 4, range: [2, 6] },
+  badal: { name: 'مد بدل', english: 'Madd badal', counts: 2 },
+  leen: { name: 'مد لین', english: 'Madd leen', counts: 4, range: [2, 6] },
+}
+
+// One alif (two harakaat) is held for about two seconds, as the content
+// teaches it
+export const SECONDS_PER_COUNT = 1
+
+export interface MaddAnnotation {
+  rule: 'madd'
+  type: MaddType
+  start: number
+  end: number
+  counts: number
+  range?: [number, number]
+  seconds: number
+}
+
+export interface MaddOptions {
+  // Stop at the end of the text and at every ayah end (default)
+  waqf?: boolean
+}
+
+// Letter whose vowel is lengthened: a madd letter (ا or ى after zabar, و
+// after pesh, ي or the undotted ى of Uthmani script after zer, each without
+// a vowel of its own), a standing zabar/zer or inverted pesh written as a
+// small letter, or a maddah sign
+function isLengthened(clusters: LetterCluster[], index: number): boolean {
+  const [cluster, next, afterNext] = clusters.slice(index, index + 3)
+  if (cluster.letter === 'آ' || hasMark(cluster, SUPERSCRIPT_ALEF, SMALL_WAW, SMALL_YA, MADDAH)) return true
+  if (!next || next.word !== cluster.word || !isSakin(next) || hasMark(next, SILENT_MARK)) return false
+  if (isWaslAfterPrefix(clusters, index + 1)) return false
+  // The و of أُولَٰئِكَ، أُولُو is written but not read
+  if (next.letter === 'و' && cluster.letter === 'أ' && afterNext?.letter === 'ل' && afterNext.word === next.word) return false
+
+  return (
+    (next.letter === 'ا' && hasMark(cluster, FATHA)) ||
+    (next.letter === 'ى' && hasMark(cluster, FATHA)) ||
+    (next.letter === 'و' && hasMark(cluster, DAMMA)) ||
+    ((next.letter === 'ي' || next.letter === 'ى') && hasMark(cluster, KASRA))
+  )
+}
+
+// The unread alif written after the plural و (قَالُوا، ٱعْبُدُوا۟)
+function isSilentAlif(clusters: LetterCluster[], index: number): boolean {
+  const cluster = clusters[index]
+  const next = clusters[index + 1]
+  return (
+    cluster?.letter === 'ا' &&
+    !hasMark(cluster, ...SHORT_VOWELS, ...TANWEEN, SHADDA, SUKUN) &&
+    (next === undefined || next.word !== cluster.word)
+  )
+}
+
+// Classifies the madd spanning clusters[first..last]; undefined when the
+// madd is not read at all
+function classify(clusters: LetterCluster[], first: number, last: number, waqf: boolean): MaddType | undefined {
+  const bearer = clusters[first]
+  const end = clusters[last]
+  const afterIndex = isSilentAlif(clusters, last + 1) ? last + 2 : last + 1
+  const after = clusters[afterIndex]
+
+  // At a stop the silah of ه (لَهُۥ) is dropped
+  if (waqf && isStopAt(clusters, afterIndex - 1) && hasMark(end, SMALL_WAW, SMALL_YA)) return undefined
+  if (!after || after.afterAyahEnd) return 'tabii'
+
+  const sameWord = after.word === end.word
+  // A madd letter closing a word is dropped before hamzat al-wasl (فِي الْأَرْضِ)
+  if (!sameWord && isHamzatWasl(after, end)) return undefined
+
+  if (sameWord && hasMark(after, SUKUN, SHADDA)) return 'lazim'
+  // يَٰٓ (vocative) and هَٰٓ (tanbih) are words of their own, written joined
+  // to the hamza after them (يَٰٓأَيُّهَا)
+  const prefix = first === 0 || clusters[first - 1].word !== bearer.word
+  const joinedParticle = prefix && (bearer.letter === 'ي' || bearer.letter === 'ه') && hasMark(bearer, SUPERSCRIPT_ALEF)
+  if (HAMZA_LETTERS.includes(after.letter)) return sameWord && !joinedParticle ? 'muttasil' : 'munfasil'
+  if (sameWord && waqf && isStopAt(clusters, afterIndex)) return 'arid'
+  // آ after a zabar is typed for an alif with a maddah (جَآءَ), not a hamza
+  const maddahAlif = bearer.letter === 'آ' && !prefix && hasMark(clusters[first - 1], FATHA)
+  if (HAMZA_LETTERS.includes(bearer.letter) && !maddahAlif) return 'badal'
+  return 'tabii'
+}
+
+// Leen: و or ي (ى) with a sukoon after a zabar (خَوْفٌ، الْبَيْتِ), lengthened
+// only when the reader stops on the letter after it
+function isLeen(clusters: LetterCluster[], index: number, waqf: boolean): boolean {
+  const cluster = clusters[index]
+  const next = clusters[index + 1]
+  const afterNext = clusters[index + 2]
+  return (
+    waqf &&
+    hasMark(cluster, FATHA) &&
+    next !== undefined &&
+    (next.letter === 'و' || next.letter === 'ي' || next.letter === 'ى') &&
+    next.word === cluster.word &&
+    isSakin(next) &&
+    afterNext !== undefined &&
+    afterNext.word === next.word &&
+    isStopAt(clusters, index + 2)
+  )
+}
+
+function toAnnotation(type: MaddType, start: number, end: number): MaddAnnotation {
+  const { counts, range } = maddTypeInfo[type]
+  return { rule: 'madd', type, start, end, counts, ...(range && { range }), seconds: counts * SECONDS_PER_COUNT }
+}
+
+export function annotateMadd(text: string, { waqf = true }: MaddOptions = {}): MaddAnnotation[] {
+  const clusters = tokenize(text)
+  const annotations: MaddAnnotation[] = []
+
+  for (let index = 0; index < clusters.length; index++) {
+    const cluster = clusters[index]
+    const next = clusters[index + 1]
+
+    if (!isLengthened(clusters, index)) {
+      if (isLeen(clusters, index, waqf)) {
+        annotations.push(toAnnotation('leen', cluster.start, next.end))
+        index++
+      }
+      continue
+    }
+
+    // Colour the madd letter together with the letter it lengthens
+    const coversMaddLetter =
+      next !== undefined && next.word === cluster.word && MADD_LETTERS.includes(next.letter) && isSakin(next)
+    const last = coversMaddLetter ? index + 1 : index
+    const type = classify(clusters, index, last, waqf)
+    if (type) annotations.push(toAnnotation(type, cluster.start, clusters[last].end))
+    index = last
+  }
+
+  return annotations
+}
@@ -0,0 +1,108 @@
+import { SMALL_MEEM, hasMark, hasTanween, isHamzatWasl, isSakin, tokenize, type LetterCluster } from './arabic'
+import {
+  HALQI_LETTERS,
+  IDGHAM_GHUNNAH_LETTERS,
+  IDGHAM_NO_GHUNNAH_LETTERS,
+  IKHFA_LETTERS,
+  IQLAB_LETTERS,
+} from './letters'
+
+export type NunSakinahRule = 'izhar' | 'iqlab' | 'idgham-ghunnah' | 'idgham-no-ghunnah' | 'ikhfa'
+
+// Names as section `nun-ahkam` gives them
+export const nunSakinahRuleNames: Record<NunSakinahRule, string> = {
+  izhar: 'اظہار',
+  iqlab: 'اقلاب',
+  'idgham-ghunnah': 'ادغام مع الغنہ',
+  'idgham-no-ghunnah': 'ادغام بلا غنہ',
+  ikhfa: 'اخفا',
+}
+
+export interface NunSakinahAnnotation {
+  rule: NunSakinahRule
+  // Whether the rule is triggered by a nun sakinah or by tanween
+  source: 'nun-sakinah' | 'tanween'
+  // From the nun / tanween-bearing letter up to the end of the trigger letter
+  start: number
+  end: number
+  // The following letter that decides the rule, and where it starts
+  trigger: string
+  triggerStart: number
+  // Izhar mutlaq: nun sakinah followed by ي or و inside one word (دُنْيَا،
+  // صِنْوَانٌ), which is never merged
+  mutlaq?: boolean
+}
+
+// The rule a nun sakinah or tanween takes before `letter` (canonical form)
+export function nunSakinahRuleFor(letter: string): NunSakinahRule | undefined {
+  if (HALQI_LETTERS.includes(letter)) return 'izhar'
+  if (IQLAB_LETTERS.includes(letter)) return 'iqlab'
+  if (IDGHAM_GHUNNAH_LETTERS.includes(letter)) return 'idgham-ghunnah'
+  if (IDGHAM_NO_GHUNNAH_LETTERS.includes(letter)) return 'idgham-no-ghunnah'
+  if (IKHFA_LETTERS.includes(letter)) return 'ikhfa'
+  return undefined
+}
+
+function sourceOf(cluster: LetterCluster): NunSakinahAnnotation['source'] | undefined {
+  // A small meem replaces the second tanween stroke (or the sukoon on a nun)
+  // to mark iqlab in Uthmani script
+  if (hasTanween(cluster) || (cluster.letter !== 'ن' && hasMark(cluster, SMALL_MEEM))) return 'tanween'
+  if (cluster.letter === 'ن' && (isSakin(cluster) || hasMark(cluster, SMALL_MEEM))) return 'nun-sakinah'
+  return undefined
+}
+
+// The letter read right after the nun / tanween. Skips the silent alif or
+// alif maqsura written after tanween (عَلِيمًا، هُدًى), and gives up when the
+// reading does not continue (end of text or ayah).
+function followingLetter(clusters: LetterCluster[], index: number): LetterCluster | undefined {
+  const source = clusters[index]
+  let next = index + 1
+
+  while (
+    next < clusters.length &&
+    clusters[next].word === source.word &&
+    ['ا', 'ى', 'ي'].includes(clusters[next].letter) &&
+    clusters[next].marks.length === 0 &&
+    hasTanween(source)
+  ) {
+    next++
+  }
+
+  const following = clusters[next]
+  if (!following || following.afterAyahEnd) return undefined
+  return following
+}
+
+// Tags every nun sakinah and tanween in fully vocalized Arabic with the rule
+// its following letter calls for.
+export function annotateNunSakinah(text: string): NunSakinahAnnotation[] {
+  const clusters = tokenize(text)
+  const annotations: NunSakinahAnnotation[] = []
+
+  clusters.forEach((cluster, index) => {
+    const source = sourceOf(cluster)
+    if (!source) return
+
+    const following = followingLetter(clusters, index)
+    // Before hamzat al-wasl the tanween/nun takes a kasra and no rule applies
+    if (!following || isHamzatWasl(following, cluster)) return
+
+    const rule = nunSakinahRuleFor(following.letter)
+    if (!rule) return
+
+    const sameWord = following.word === cluster.word
+    const mutlaq = source === 'nun-sakinah' && sameWord && (following.letter === 'ي' || following.letter === 'و')
+
+    annotations.push({
+      rule: mutlaq ? 'izhar' : rule,
+      source,
+      start: cluster.start,
+      end: following.end,
+      trigger: following.letter,
+      triggerStart: following.start,
+      ...(mutlaq && { mutlaq }),
+    })
+  })
+
+  return annotations
+}
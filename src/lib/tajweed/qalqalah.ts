@@ -0,0 +1,66 @@
+import { FATHATAN, SHADDA, SUKUN, hasMark, isStopAt, tokenize } from './arabic'
+import { QALQALAH_LETTERS } from './letters'
+
+// Sughra: a qalqalah letter with a sukoon, read in passing. Kubra: the
+// letter a reader stops on, whose last vowel is dropped for the waqf; with a
+// shadda (وَتَبَّ) the echo is the strongest.
+export type QalqalahDegree = 'sughra' | 'kubra'
+
+export const qalqalahDegreeNames: Record<QalqalahDegree, { name: string; english: string }> = {
+  sughra: { name: 'قلقلہ صغریٰ', english: 'Minor qalqalah' },
+  kubra: { name: 'قلقلہ کبریٰ', english: 'Major qalqalah' },
+}
+
+export interface QalqalahAnnotation {
+  rule: 'qalqalah'
+  degree: QalqalahDegree
+  start: number
+  end: number
+  letter: string
+  // The echo only appears because the reader stops here
+  waqf: boolean
+  shadda: boolean
+}
+
+export interface QalqalahOptions {
+  // Stop at the end of the text and at every ayah end (default). When false
+  // the text is treated as read on into whatever follows it.
+  waqf?: boolean
+}
+
+export function annotateQalqalah(text: string, { waqf = true }: QalqalahOptions = {}): QalqalahAnnotation[] {
+  const clusters = tokenize(text)
+  const annotations: QalqalahAnnotation[] = []
+
+  clusters.forEach((cluster, index) => {
+    if (!QALQALAH_LETTERS.includes(cluster.letter)) return
+    const sakin = hasMark(cluster, SUKUN)
+    const shadda = hasMark(cluster, SHADDA)
+
+    if (waqf && isStopAt(clusters, index)) {
+      // Two zabar at a stop turn into a long alif (حَقًّا), so nothing echoes
+      if (hasMark(cluster, FATHATAN)) return
+      annotations.push({
+        rule: 'qalqalah',
+        degree: 'kubra',
+        start: cluster.start,
+        end: cluster.end,
+        letter: cluster.letter,
+        waqf: !sakin,
+        shadda,
+      })
+    } else if (sakin) {
+      annotations.push({
+        rule: 'qalqalah',
+        degree: 'sughra',
+        start: cluster.start,
+        end: cluster.end,
+        letter: cluster.letter,
+        waqf: false,
+        shadda: false,
+      })
+    }
+  })
+
+  return annotations
+}
@@ -0,0 +1,87 @@
+import { sectionLines } from '@/lib/content/blocks'
+import type { TopicContent } from '@/lib/content/schema'
+
+// Colour categories of the classic colour-coded mushaf, in the order they
+// win when two rules fall on the same letter
+export const TAJWEED_CATEGORIES = ['madd', 'iqlab', 'idgham', 'ikhfa', 'ghunnah', 'qalqalah', 'tafkheem'] as const
+
+export type TajweedCategory = (typeof TAJWEED_CATEGORIES)[number]
+
+export interface TajweedCategoryInfo {
+  name: string
+  english: string
+  // Where the tajweed content explains the rule; `marker` picks the
+  // paragraph (or note) that mentions it
+  source: { chapter: string; section: string; marker: string }
+  // Further sections teaching the rule, whose examples it also highlights
+  alsoTaughtIn?: { chapter: string; section: string }[]
+}
+
+export const tajweedCategoryInfo: Record<TajweedCategory, TajweedCategoryInfo> = {
+  madd: {
+    name: 'مد',
+    english: 'Madd',
+    source: { chapter: 'explanation-of-harakaat', section: 'common-mistakes-in-pronouncing-harakaat', marker: 'حروف مدہ' },
+  },
+  iqlab: {
+    name: 'اقلاب',
+    english: 'Iqlab',
+    source: { chapter: 'nun-sakin', section: 'nun-ahkam', marker: 'اقلاب' },
+  },
+  idgham: {
+    name: 'ادغام',
+    english: 'Idgham',
+    source: { chapter: 'nun-sakin', section: 'nun-ahkam', marker: 'ادغام' },
+  },
+  ikhfa: {
+    name: 'اخفا',
+    english: 'Ikhfa',
+    source: { chapter: 'nun-sakin', section: 'nun-ahkam', marker: 'اخفا' },
+  },
+  ghunnah: {
+    name: 'غنہ',
+    english: 'Ghunnah',
+    source: { chapter: 'nun-sakin', section: 'what-is-nun-sakin', marker: 'غنہ' },
+  },
+  qalqalah: {
+    name: 'قلقلہ',
+    english: 'Qalqalah',
+    source: { chapter: 'echo-letters', section: 'what-is-echo-letters', marker: 'جزم' },
+  },
+  tafkheem: {
+    name: 'تفخیم',
+    english: 'Tafkheem',
+    source: { chapter: 'rules-and-regulations-of-tajweed', section: 'heavy-letters', marker: 'مستعلیہ' },
+    alsoTaughtIn: [{ chapter: 'rules-and-regulations-of-tajweed', section: 'semi-elevated-letters' }],
+  },
+}
+
+// Rules taught by a section, whose examples it highlights
+export function tajweedCategoriesTaughtIn(chapterId: string, sectionId: string): TajweedCategory[] {
+  return TAJWEED_CATEGORIES.filter((category) => {
+    const { source, alsoTaughtIn = [] } = tajweedCategoryInfo[category]
+    return [source, ...alsoTaughtIn].some(({ chapter, section }) => chapter === chapterId && section === sectionId)
+  })
+}
+
+export interface TajweedExplanation {
+  text: string
+  chapterId: string
+  sectionId: string
+}
+
+// Pulls the Urdu explanation of a rule out of the topic content, so the
+// tooltips always say what the section says. Undefined for topics without
+// that section.
+export function explainTajweedCategory(
+  content: TopicContent,
+  category: TajweedCategory,
+): TajweedExplanation | undefined {
+  const { chapter: chapterId, section: sectionId, marker } = tajweedCategoryInfo[category].source
+  const section = content.chapters
+    .find((chapter) => chapter.id === chapterId)
+    ?.sections.find((section) => section.id === sectionId)
+  const text = section && sectionLines(section).find((line) => line.includes(marker))
+
+  return text ? { text, chapterId, sectionId } : undefined
+}
@@ -0,0 +1,128 @@
+import { annotateTajweed } from './annotate'
+import { tokenize, type LetterCluster } from './arabic'
+import { TAJWEED_CATEGORIES, type TajweedCategory } from './rules'
+
+const ZWJ = '\u200D'
+
+// Harakat, tanween, sukoon/jazm (also ٘ and ۡ), shadda, maddah and standing zabar
+const VOWEL_MARK = /[\u064B-\u0653\u0658\u0670\u06E1]/g
+// Dash runs (-------) separate examples in the content, often without spaces
+const WORD = /[^\s-]+/g
+const LETTER = /[\u0621-\u064A\u0671-\u06D3]/
+const CLAUSE_END = /[:،۔؛.,!?)\]]$/
+const CLAUSE_START = /^[(\[]/
+
+// Vocalized stretches inside (mostly unvocalized) Urdu prose. A word counts
+// when it carries two or more vowel marks; a word with a single mark (وَ، لَا)
+// continues a run, and a standalone waqf sign inside a run is kept. Dashes
+// and punctuation end a run, so prose such as مثلاً or izafat zer (حروفِ)
+// stays out.
+export function findVocalizedRuns(text: string): { start: number; end: number }[] {
+  const words = [...text.matchAll(WORD)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    marks: match[0].match(VOWEL_MARK)?.length ?? 0,
+    sign: !LETTER.test(match[0]),
+    text: match[0],
+  }))
+  const connected = (index: number) =>
+    index >= 0 &&
+    index + 1 < words.length &&
+    !CLAUSE_END.test(words[index].text) &&
+    !CLAUSE_START.test(words[index + 1].text) &&
+    text.slice(words[index].end, words[index + 1].start).trim() === ''
+
+  const vocalized = words.map((word) => word.marks >= 2)
+  words.forEach((word, index) => {
+    const before = connected(index - 1) && vocalized[index - 1]
+    const after = connected(index) && words[index + 1].marks >= 2
+    if ((word.marks === 1 && before) || (word.sign && before && after)) {
+      vocalized[index] = true
+    }
+  })
+
+  const runs: { start: number; end: number }[] = []
+  words.forEach((word, index) => {
+    if (!vocalized[index]) return
+    const last = runs[runs.length - 1]
+    if (last && vocalized[index - 1] && connected(index - 1)) {
+      last.end = word.end
+    } else {
+      runs.push({ start: word.start, end: word.end })
+    }
+  })
+
+  return runs
+}
+
+export interface TajweedSegment {
+  text: string
+  // Every rule on these letters, strongest first; empty for plain text
+  categories: TajweedCategory[]
+  // Finer rule names for these letters (قلقلہ کبریٰ), if any
+  details: string[]
+  // Harakaat to hold when the segment is a madd
+  counts?: number
+}
+
+// Letters that connect to the letter after them (everything except the
+// right-joining letters and hamza)
+const NON_LEFT_JOINING = ['ا', 'أ', 'إ', 'آ', 'ٱ', 'د', 'ذ', 'ر', 'ز', 'و', 'ؤ', 'ة', 'ء']
+
+const joinsNext = (cluster: LetterCluster, next?: LetterCluster) =>
+  next !== undefined && next.word === cluster.word && !NON_LEFT_JOINING.includes(cluster.letter) && next.letter !== 'ء'
+
+// Splits vocalized text into coloured segments. Boundaries only fall between
+// letter clusters, so a letter is never separated from its marks, and a zero
+// width joiner is added on both sides of a boundary inside a joined word so
+// each segment keeps its connected letter forms when shaped on its own.
+export function segmentTajweed(text: string): TajweedSegment[] {
+  const clusters = tokenize(text)
+  const annotations = annotateTajweed(text)
+  const rank = (category: TajweedCategory) => TAJWEED_CATEGORIES.indexOf(category)
+
+  const annotationsAt = clusters.map((cluster) =>
+    annotations
+      .filter((annotation) => annotation.start < cluster.end && annotation.end > cluster.start)
+      .sort((a, b) => rank(a.category) - rank(b.category)),
+  )
+
+  const segments: TajweedSegment[] = []
+  let position = 0
+
+  clusters.forEach((cluster, index) => {
+    const categories = [...new Set(annotationsAt[index].map((annotation) => annotation.category))]
+    const details = [...new Set(annotationsAt[index].flatMap((annotation) => annotation.detail ?? []))]
+    const counts = annotationsAt[index].find((annotation) => annotation.counts !== undefined)?.counts
+    const last = segments[segments.length - 1]
+    const between = text.slice(position, cluster.start)
+    const letter = text.slice(cluster.start, cluster.end)
+
+    if (last && last.categories.join() === categories.join() && last.details.join() === details.join()) {
+      last.text += between + letter
+    } else if (between) {
+      segments.push({ text: between, categories: [], details: [] }, { text: letter, categories, details, counts })
+    } else {
+      const joined = index > 0 && joinsNext(clusters[index - 1], cluster)
+      if (joined) last.text += ZWJ
+      segments.push({ text: (joined ? ZWJ : '') + letter, categories, details, counts })
+    }
+    position = cluster.end
+  })
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), categories: [], details: [] })
+  }
+
+  return segments
+}
+
+// Colour categories used anywhere in the vocalized runs of a text
+export function tajweedCategoriesIn(text: string): TajweedCategory[] {
+  const found = new Set(
+    findVocalizedRuns(text).flatMap(({ start, end }) =>
+      annotateTajweed(text.slice(start, end)).map((annotation) => annotation.category),
+    ),
+  )
+  return TAJWEED_CATEGORIES.filter((category) => found.has(category))
+}
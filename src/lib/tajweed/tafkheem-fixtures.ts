@@ -0,0 +1,87 @@
+import type { LetterWeight, TafkheemReason } from './tafkheem'
+
+// The heavy/light examples quoted in the tajweed content, with the weight
+// the lessons give each letter. `bun run tajweed:check` makes sure every
+// example is still in its section and still labelled as expected.
+export interface TafkheemFixture {
+  // Section of the `rules-and-regulations-of-tajweed` chapter quoting it
+  section: 'heavy-letters' | 'semi-elevated-letters'
+  text: string
+  letters: { letter: string; weight: LetterWeight; reason: TafkheemReason }[]
+}
+
+const heavy = (letter: string, reason: TafkheemReason) => ({ letter, weight: 'heavy' as const, reason })
+const light = (letter: string, reason: TafkheemReason) => ({ letter, weight: 'light' as const, reason })
+
+export const tafkheemFixtures: TafkheemFixture[] = [
+  {
+    section: 'heavy-letters',
+    text: 'ص - ض - ط - ظ - خ - غ - ق',
+    letters: ['ص', 'ض', 'ط', 'ظ', 'خ', 'غ', 'ق'].map((letter) => heavy(letter, 'istila')),
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'قَالَ',
+    letters: [heavy('ق', 'istila'), heavy('ا', 'alif-after-heavy')],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'مَالَ',
+    letters: [light('ا', 'alif-after-light')],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'جَالَ',
+    letters: [light('ا', 'alif-after-light')],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'لَآ اِلٰہَ اِلَّا اللّٰہُ مُحَمَّدٌ رَّسُوْلُ اللّٰہِ',
+    letters: [
+      light('ا', 'alif-after-light'),
+      heavy('ل', 'allah-after-fatha-damma'),
+      heavy('ر', 'ra-fatha-damma'),
+      heavy('ل', 'allah-after-fatha-damma'),
+    ],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'بِسْمِ اللہِ الرَّحْمٰنِ الرَّحِیۡمِ',
+    letters: [light('ل', 'allah-after-kasra'), heavy('ر', 'ra-fatha-damma'), heavy('ر', 'ra-fatha-damma')],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'ذٰلِكَ الْكِتٰبُ لَا  رَ يْبَ',
+    letters: [light('ا', 'alif-after-light'), heavy('ر', 'ra-fatha-damma')],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'فِر٘عون',
+    letters: [light('ر', 'ra-sakin-after-kasra')],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'اَلَّزِی ار٘تَضٰی',
+    letters: [heavy('ر', 'ra-sakin-after-separate-kasra'), heavy('ض', 'istila')],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'خَبِی٘ر٘',
+    letters: [heavy('خ', 'istila'), light('ر', 'ra-sakin-after-ya-sakin')],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'بَشِی٘ر٘',
+    letters: [light('ر', 'ra-sakin-after-ya-sakin')],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'لَبِال٘مِر٘صَاد',
+    letters: [heavy('ر', 'ra-sakin-before-istila'), heavy('ص', 'istila'), heavy('ا', 'alif-after-heavy')],
+  },
+  {
+    section: 'semi-elevated-letters',
+    text: 'فِر٘ق',
+    letters: [heavy('ر', 'ra-sakin-before-istila'), heavy('ق', 'istila')],
+  },
+]
@@ -0,0 +1,178 @@
+import {
+  DAMMA,
+  DAMMATAN,
+  FATHA,
+  FATHATAN,
+  KASRA,
+  KASRATAN,
+  SUPERSCRIPT_ALEF,
+  hasMark,
+  hasTanween,
+  isSakin,
+  isStopAt,
+  isWaslAfterPrefix,
+  tokenize,
+  type LetterCluster,
+} from './arabic'
+import { ISTILA_LETTERS, MADD_LETTERS } from './letters'
+
+// Tafkheem (موٹا) or tarqeeq (باریک)
+export type LetterWeight = 'heavy' | 'light'
+
+// Why a letter is heavy or light, following the chapter
+// `rules-and-regulations-of-tajweed` (sections `heavy-letters` and
+// `semi-elevated-letters`)
+export type TafkheemReason =
+  | 'istila'
+  | 'alif-after-heavy'
+  | 'alif-after-light'
+  | 'allah-after-fatha-damma'
+  | 'allah-after-kasra'
+  | 'ra-fatha-damma'
+  | 'ra-kasra'
+  | 'ra-sakin-after-kasra'
+  | 'ra-sakin-before-istila'
+  | 'ra-sakin-after-separate-kasra'
+  | 'ra-sakin-after-ya-sakin'
+  | 'ra-sakin-after-fatha-damma'
+
+export const tafkheemReasons: Record<TafkheemReason, { weight: LetterWeight; text: string }> = {
+  istila: { weight: 'heavy', text: 'حروف مستعلیہ ہمیشہ موٹے پڑھے جاتے ہیں' },
+  'alif-after-heavy': { weight: 'heavy', text: 'الف سے پہلے موٹا حرف ہے' },
+  'alif-after-light': { weight: 'light', text: 'الف سے پہلے باریک حرف ہے' },
+  'allah-after-fatha-damma': { weight: 'heavy', text: 'اللہ کے لام سے پہلے زبر یا پیش ہے' },
+  'allah-after-kasra': { weight: 'light', text: 'اللہ کے لام سے پہلے زیر ہے' },
+  'ra-fatha-damma': { weight: 'heavy', text: 'ر پر زبر یا پیش ہے' },
+  'ra-kasra': { weight: 'light', text: 'ر کے نیچے زیر ہے' },
+  'ra-sakin-after-kasra': { weight: 'light', text: 'ر ساکن ہے اور اسی لفظ میں پچھلے حرف پر زیر ہے' },
+  'ra-sakin-before-istila': { weight: 'heavy', text: 'ر ساکن کے بعد حرف مستعلیہ ہے' },
+  'ra-sakin-after-separate-kasra': { weight: 'heavy', text: 'ر ساکن سے پہلے زیر الگ لفظ میں ہے' },
+  'ra-sakin-after-ya-sakin': { weight: 'light', text: 'ر ساکن سے پہلے ی ساکن ہے' },
+  'ra-sakin-after-fatha-damma': { weight: 'heavy', text: 'ر ساکن سے پہلے زبر یا پیش ہے' },
+}
+
+export interface TafkheemAnnotation {
+  rule: 'tafkheem'
+  weight: LetterWeight
+  reason: TafkheemReason
+  start: number
+  end: number
+  letter: string
+}
+
+export interface TafkheemOptions {
+  // Stop at the end of the text and at every ayah end (default), where the
+  // last ر loses its vowel
+  waqf?: boolean
+}
+
+type Vowel = 'fatha' | 'damma' | 'kasra'
+
+function vowelOf(cluster: LetterCluster): Vowel | undefined {
+  if (hasMark(cluster, FATHA, FATHATAN, SUPERSCRIPT_ALEF)) return 'fatha'
+  if (hasMark(cluster, DAMMA, DAMMATAN)) return 'damma'
+  if (hasMark(cluster, KASRA, KASRATAN)) return 'kasra'
+  return undefined
+}
+
+// Madd letter closing a word, dropped when the next word opens with hamzat
+// al-wasl (فِي اللَّهِ، قَالُوا اللَّهُ)
+function isDroppedMaddLetter(cluster: LetterCluster, previous?: LetterCluster): boolean {
+  return MADD_LETTERS.includes(cluster.letter) && isSakin(cluster) && previous?.word === cluster.word
+}
+
+// The vowel heard just before a hamzat al-wasl word when it is read joined to
+// the previous word; undefined when reading starts there
+function vowelBeforeWasl(clusters: LetterCluster[], waslIndex: number): Vowel | undefined {
+  if (clusters[waslIndex].afterAyahEnd) return undefined
+  let index = waslIndex - 1
+  while (index > 0 && isDroppedMaddLetter(clusters[index], clusters[index - 1])) index--
+  const previous = clusters[index]
+  if (!previous) return undefined
+
+  // Tanween and a sakin letter are joined with a kasra, except the meem of
+  // the plural (عَلَيْهِمُ)
+  if (hasTanween(previous)) return 'kasra'
+  return vowelOf(previous) ?? (previous.letter === 'م' ? 'damma' : 'kasra')
+}
+
+// Whether clusters[index] opens the name اللہ (اللَّهُ، وَاللّٰهِ، لِلَّهِ،
+// اللَّهُمَّ), and if so the vowel read before its heavy-or-light lam
+function allahLam(clusters: LetterCluster[], index: number): { vowel: Vowel | undefined } | undefined {
+  const [first, lam, ha, after] = clusters.slice(index, index + 4)
+  if (first?.letter !== 'ل' || lam?.letter !== 'ل' || ha?.letter !== 'ه') return undefined
+  if (lam.word !== first.word || ha.word !== first.word) return undefined
+  const lastOfWord = !after || after.word !== ha.word
+  const allahumma = after?.letter === 'م' && after.word === ha.word && clusters[index + 4]?.word !== ha.word
+  if (!lastOfWord && !allahumma) return undefined
+
+  // لِلَّهِ، فَلِلَّهِ: the first lam is the preposition, read with its own kasra
+  if (hasMark(first, KASRA)) return { vowel: 'kasra' }
+
+  const alif = clusters[index - 1]
+  if (!alif || alif.word !== first.word || (alif.letter !== 'ا' && alif.letter !== 'ٱ')) return undefined
+  const prefix = clusters[index - 2]
+  if (prefix?.word === first.word) {
+    // وَاللَّهِ، بِاللَّهِ، تَاللَّهِ: the prefix gives the vowel
+    return clusters[index - 3]?.word === first.word ? undefined : { vowel: vowelOf(prefix) }
+  }
+  return { vowel: prefix ? vowelBeforeWasl(clusters, index - 1) : undefined }
+}
+
+function classifyRa(clusters: LetterCluster[], index: number, waqf: boolean): TafkheemReason {
+  const ra = clusters[index]
+  const stopped = waqf && isStopAt(clusters, index)
+  const vowel = vowelOf(ra)
+  // Two zabar at a stop become a long alif, so the zabar stays (خَبِيرًا)
+  if (vowel && (!stopped || hasMark(ra, FATHATAN))) return vowel === 'kasra' ? 'ra-kasra' : 'ra-fatha-damma'
+
+  // Sakin (or stopped on): decided by the letters around it
+  const next = clusters[index + 1]
+  let previous = clusters[index - 1]
+  if (!previous || previous.word !== ra.word) return 'ra-sakin-after-fatha-damma'
+
+  // The kasra of a hamzat al-wasl (ارْتَضَىٰ، اِرْجِعِی) is only borrowed
+  const firstOfWord = clusters[index - 2]?.word !== ra.word
+  if (previous.letter === 'ٱ' || (previous.letter === 'ا' && firstOfWord)) return 'ra-sakin-after-separate-kasra'
+  if (previous.letter === 'ي' && isSakin(previous)) return 'ra-sakin-after-ya-sakin'
+  // At a stop one sakin letter may stand between (حِجْرْ، الْقَدْرْ)
+  if (stopped && isSakin(previous) && !firstOfWord) previous = clusters[index - 2]
+
+  if (vowelOf(previous) !== 'kasra') return 'ra-sakin-after-fatha-damma'
+  if (next && next.word === ra.word && ISTILA_LETTERS.includes(next.letter)) return 'ra-sakin-before-istila'
+  return 'ra-sakin-after-kasra'
+}
+
+// Labels every letter whose weight the lessons teach: the seven heavy
+// letters, ر, the lam of اللہ and the madd alif. Other letters are always
+// light and are left out.
+export function annotateTafkheem(text: string, { waqf = true }: TafkheemOptions = {}): TafkheemAnnotation[] {
+  const clusters = tokenize(text)
+  const annotations: TafkheemAnnotation[] = []
+  const weights: (LetterWeight | undefined)[] = []
+
+  const label = (index: number, reason: TafkheemReason) => {
+    const cluster = clusters[index]
+    const { weight } = tafkheemReasons[reason]
+    weights[index] = weight
+    annotations.push({ rule: 'tafkheem', weight, reason, start: cluster.start, end: cluster.end, letter: cluster.letter })
+  }
+
+  clusters.forEach((cluster, index) => {
+    if (ISTILA_LETTERS.includes(cluster.letter)) {
+      label(index, 'istila')
+    } else if (cluster.letter === 'ر') {
+      label(index, classifyRa(clusters, index, waqf))
+    } else if (cluster.letter === 'ل' && weights[index] === undefined) {
+      const allah = allahLam(clusters, index)
+      // Starting the reading on اللہ, its hamza takes a zabar
+      if (allah) label(index + 1, allah.vowel === 'kasra' ? 'allah-after-kasra' : 'allah-after-fatha-damma')
+    } else if ((cluster.letter === 'ا' || cluster.letter === 'ى') && isSakin(cluster)) {
+      const previous = clusters[index - 1]
+      if (previous?.word !== cluster.word || !hasMark(previous, FATHA) || isWaslAfterPrefix(clusters, index)) return
+      label(index, weights[index - 1] === 'heavy' ? 'alif-after-heavy' : 'alif-after-light')
+    }
+  })
+
+  return annotations.sort((a, b) => a.start - b.start)
+}
@@ -0,0 +1,266 @@
+import { entryLines } from '@/lib/content/blocks'
+import type { TopicContent } from '@/lib/content/schema'
+import {
+  AYAH_END,
+  FATHA,
+  FATHATAN,
+  MADDAH,
+  PAUSE_MARKS,
+  SHADDA,
+  SHORT_VOWELS,
+  SMALL_MEEM,
+  SMALL_WAW,
+  SMALL_YA,
+  SUKUN,
+  SUPERSCRIPT_ALEF,
+  TANWEEN,
+  hasMark,
+  normalizeMark,
+  tokenize,
+  type LetterCluster,
+} from './arabic'
+import { MADD_LETTERS } from './letters'
+
+// How the last letter changes when the reader stops on a word, following
+// section `types-of-stopping-waqf`
+export type WaqfChange =
+  // The last vowel or tanween is replaced by a sukoon (اَحَدٌ → اَحَد٘)
+  | 'sukun'
+  // Two zabar become a long alif (خَبِيرًا → خَبِيرَا)
+  | 'alif'
+  // Ta marbuta becomes a ha sakinah (وَالصَّلٰوۃِ → وَالصَّلٰوہ٘)
+  | 'ha'
+  // Already sakin (لَکُم٘): nothing changes
+  | 'sakin'
+  // Ends in a madd letter or a standing vowel (فَلَاتَن٘سٰی): nothing changes
+  | 'madd'
+  // The small و / ی after a ha (لَهُۥ) is dropped and the ha made sakin
+  | 'silah'
+
+export const waqfChangeText: Record<WaqfChange, string> = {
+  sukun: 'آخری حرکت ختم کر کے جزم لگا دیں گے',
+  alif: 'دو زبر ختم کر کے ایک الف کے برابر لمبا پڑھیں گے',
+  ha: 'گول تا (ۃ) کو ہ ساکن سے بدل دیں گے',
+  sakin: 'آخری حرف پر پہلے ہی جزم ہے، کوئی تبدیلی نہیں ہوگی',
+  madd: 'آخری حرف مدہ یا کھڑی حرکت ہے، کوئی تبدیلی نہیں ہوگی',
+  silah: 'ہ کے بعد کی چھوٹی و یا ی وقف میں نہیں پڑھی جاتی، ہ ساکن ہو جائے گی',
+}
+
+// Waqf signs from section `waqf-symbols`, plus the ayah end and the paired
+// three dots (∴) of mu'anaqah
+export type WaqfSign = 'lazim' | 'jaiz' | 'sili' | 'qili' | 'sal' | 'qif' | 'la' | 'muanaqah' | 'ayah'
+
+// Whether the reader may stop on a word
+export type WaqfPermission = 'required' | 'preferred' | 'allowed' | 'forbidden' | 'unmarked'
+
+export interface WaqfSignInfo {
+  symbol: string
+  // Start of the line explaining the sign in section `waqf-symbols`
+  marker?: string
+  permission: WaqfPermission
+}
+
+export const waqfSignInfo: Record<WaqfSign, WaqfSignInfo> = {
+  lazim: { symbol: 'م', marker: 'م:', permission: 'required' },
+  jaiz: { symbol: 'ج', marker: 'ج:', permission: 'allowed' },
+  sili: { symbol: 'صلى', marker: 'صلى:', permission: 'allowed' },
+  qili: { symbol: 'قلى', marker: 'قلى:', permission: 'preferred' },
+  sal: { symbol: 'صل', marker: 'صل:', permission: 'allowed' },
+  qif: { symbol: 'قف', marker: 'قف:', permission: 'preferred' },
+  la: { symbol: 'لا', marker: 'لا:', permission: 'forbidden' },
+  muanaqah: { symbol: '∴', permission: 'allowed' },
+  ayah: { symbol: AYAH_END, permission: 'allowed' },
+}
+
+export const waqfPermissionText: Record<WaqfPermission, string> = {
+  required: 'یہاں رکنا ضروری ہے',
+  preferred: 'یہاں رکنا بہتر ہے',
+  allowed: 'یہاں رک سکتے ہیں',
+  forbidden: 'یہاں نہیں رکنا چاہیے',
+  unmarked: 'یہاں وقف کی کوئی علامت نہیں، سانس ٹوٹے تو ہی رکیں',
+}
+
+// Signs written as small marks above the last letter
+const MARK_SIGNS: Record<string, WaqfSign> = {
+  '\u06D6': 'sili',
+  '\u06D7': 'qili',
+  '\u06D8': 'lazim',
+  '\u06D9': 'la',
+  '\u06DA': 'jaiz',
+  '\u06DB': 'muanaqah',
+}
+
+// Signs written out as small words between the words of the verse, as in
+// Indo-Pak copies
+const WORD_SIGNS: Record<string, WaqfSign> = {
+  م: 'lazim',
+  ج: 'jaiz',
+  صلى: 'sili',
+  صلے: 'sili',
+  قلى: 'qili',
+  قلے: 'qili',
+  صل: 'sal',
+  قف: 'qif',
+  لا: 'la',
+}
+
+const AYAH_NUMBER = /^[\u06DD\u0660-\u0669\u06F0-\u06F9()\uFD3E\uFD3F]+$/
+const VOWEL_MARK = /[\u064B-\u0652\u0658\u0670\u06E1]/
+// Two zabar, open or not, and the small meem of iqlab written with a
+// tanween (سَمِيعًۢا), which goes with it at a stop
+const FATHATAN_MARK = /[\u064B\u08F0]/g
+const IQLAB_MEEM = /[\u06E2\u06ED]/g
+
+const zabar = (text: string) => text.replace(FATHATAN_MARK, FATHA).replace(IQLAB_MEEM, '')
+
+// Two zabar, or the one zabar and small meem the bundled mushaf writes an
+// iqlab tanween with (أَبَدَۢا)
+const hasFathatan = (cluster: LetterCluster) =>
+  hasMark(cluster, FATHATAN) || (hasMark(cluster, FATHA) && hasMark(cluster, SMALL_MEEM))
+
+// The sukoon the text is already written with (ْ، ٘ or ۡ), so the stop form
+// matches its script
+function sukunMarkOf(text: string): string {
+  return ['\u0658', '\u06E1'].find((mark) => text.includes(mark)) ?? SUKUN
+}
+
+// Drops the given (canonical) marks from a written cluster
+function withoutMarks(cluster: string, marks: string[]): string {
+  return [...cluster].filter((char, index) => index === 0 || !marks.includes(normalizeMark(char))).join('')
+}
+
+// How a single vocalized word is read when the reader stops on it. Waqf
+// signs written on the word are dropped from the result. `verse`, the text
+// the word is from, decides which sukoon is written.
+export function waqfForm(word: string, verse = word): { text: string; change: WaqfChange } {
+  const written = [...word].filter((char) => !PAUSE_MARKS.includes(char)).join('')
+  const clusters = tokenize(written)
+  const last = clusters[clusters.length - 1]
+  if (!last) return { text: written, change: 'sakin' }
+
+  const previous = clusters[clusters.length - 2]
+  const before = written.slice(0, last.start)
+  const ending = written.slice(last.start, last.end)
+  const after = written.slice(last.end)
+  const sukun = sukunMarkOf(verse)
+
+  if (last.letter === 'ة') {
+    const ha = written[last.start] === 'ۃ' ? 'ہ' : 'ه'
+    return { text: before + ha + sukun + after, change: 'ha' }
+  }
+
+  // A trailing alif or alif maqsura after two zabar (خَبِيرًا، هُدًى)
+  if (MADD_LETTERS.includes(last.letter) && previous && hasFathatan(previous)) {
+    const previousText = zabar(written.slice(previous.start, previous.end))
+    return { text: written.slice(0, previous.start) + previousText + written.slice(previous.end), change: 'alif' }
+  }
+  if (hasFathatan(last)) {
+    return { text: before + zabar(ending) + 'ا' + after, change: 'alif' }
+  }
+
+  if (hasMark(last, SMALL_WAW, SMALL_YA)) {
+    return { text: before + withoutMarks(ending, [...SHORT_VOWELS, SMALL_WAW, SMALL_YA, MADDAH]) + sukun + after, change: 'silah' }
+  }
+  const maddLetter = (MADD_LETTERS.includes(last.letter) || last.letter === 'آ') && !VOWEL_MARK.test(ending)
+  if (maddLetter || hasMark(last, SUPERSCRIPT_ALEF)) {
+    return { text: written, change: 'madd' }
+  }
+  if (!hasMark(last, ...SHORT_VOWELS, ...TANWEEN)) {
+    return { text: written, change: 'sakin' }
+  }
+
+  // وَتَبَّ keeps its shadda and only loses the vowel; عَلِيمٌۢ loses the
+  // small meem of its tanween too
+  const stripped = withoutMarks(ending, [...SHORT_VOWELS, ...TANWEEN, SMALL_MEEM])
+  return { text: before + stripped + (hasMark(last, SHADDA) ? '' : sukun) + after, change: 'sukun' }
+}
+
+export interface WaqfWord {
+  // The word as written, without its waqf sign
+  text: string
+  start: number
+  end: number
+  stopForm: string
+  change: WaqfChange
+  sign?: WaqfSign
+  permission: WaqfPermission
+}
+
+// Splits a verse into words, each with its stop form and whether the waqf
+// signs allow stopping after it
+export function simulateWaqf(text: string): WaqfWord[] {
+  const words: WaqfWord[] = []
+
+  const mark = (sign: WaqfSign) => {
+    const word = words[words.length - 1]
+    // An ayah end overrides the sign before it: لا at the end of an ayah
+    // does not forbid stopping there
+    if (word && (!word.sign || sign === 'ayah')) {
+      word.sign = sign
+      word.permission = waqfSignInfo[sign].permission
+    }
+  }
+
+  for (const match of text.matchAll(/\S+/g)) {
+    const token = match[0]
+    const chars = [...token]
+
+    if (chars.every((char) => PAUSE_MARKS.includes(char))) {
+      const sign = chars.map((char) => MARK_SIGNS[char]).find(Boolean)
+      if (sign) mark(sign)
+      continue
+    }
+    if (AYAH_NUMBER.test(token)) {
+      mark('ayah')
+      continue
+    }
+    if (WORD_SIGNS[token] && words.length > 0) {
+      mark(WORD_SIGNS[token])
+      continue
+    }
+
+    const { text: stopForm, change } = waqfForm(token, text)
+    const sign = chars.map((char) => MARK_SIGNS[char]).find(Boolean)
+    words.push({
+      text: chars.filter((char) => !PAUSE_MARKS.includes(char)).join(''),
+      start: match.index,
+      end: match.index + token.length,
+      stopForm,
+      change,
+      ...(sign && { sign }),
+      permission: sign ? waqfSignInfo[sign].permission : 'unmarked',
+    })
+  }
+
+  return words
+}
+
+// The line of section `waqf-symbols` explaining a sign, if the topic has one
+export function explainWaqfSign(content: TopicContent, sign: WaqfSign): string | undefined {
+  const { marker } = waqfSignInfo[sign]
+  if (!marker) return undefined
+  const section = content.chapters
+    .find((chapter) => chapter.id === 'waqf-symbols')
+    ?.sections.find((section) => section.id === 'waqf-symbols')
+  return section?.content.flatMap(entryLines).find((line) => line.startsWith(marker))
+}
+
+// Sections teaching waqf, which show the waqf simulator
+const WAQF_SECTIONS = [
+  { chapter: 'waqf', section: 'types-of-stopping-waqf' },
+  { chapter: 'waqf-symbols', section: 'waqf-symbols' },
+]
+
+export function teachesWaqf(chapterId: string, sectionId: string): boolean {
+  return WAQF_SECTIONS.some(({ chapter, section }) => chapter === chapterId && section === sectionId)
+}
+
+// Ayat to practise on, each with waqf signs; Uthmani script
+export const waqfPracticeAyat: { ref: string; text: string }[] = [
+  { ref: '2:2', text: 'ذَٰلِكَ ٱلْكِتَٰبُ لَا رَيْبَ ۛ فِيهِ ۛ هُدًى لِّلْمُتَّقِينَ ۝' },
+  { ref: '2:5', text: 'أُو۟لَٰٓئِكَ عَلَىٰ هُدًى مِّن رَّبِّهِمْ ۖ وَأُو۟لَٰٓئِكَ هُمُ ٱلْمُفْلِحُونَ ۝' },
+  { ref: '2:13', text: 'أَنُؤْمِنُ كَمَآ ءَامَنَ ٱلسُّفَهَآءُ ۗ أَلَآ إِنَّهُمْ هُمُ ٱلسُّفَهَآءُ وَلَٰكِن لَّا يَعْلَمُونَ ۝' },
+  { ref: '16:32', text: 'ٱلَّذِينَ تَتَوَفَّىٰهُمُ ٱلْمَلَٰٓئِكَةُ طَيِّبِينَ ۙ يَقُولُونَ سَلَٰمٌ عَلَيْكُمُ' },
+  { ref: '36:76', text: 'فَلَا يَحْزُنكَ قَوْلُهُمْ ۘ إِنَّا نَعْلَمُ مَا يُسِرُّونَ وَمَا يُعْلِنُونَ ۝' },
+  { ref: '112:1-2', text: 'قُلْ هُوَ ٱللَّهُ أَحَدٌ ۝ ٱللَّهُ ٱلصَّمَدُ ۝' },
+]
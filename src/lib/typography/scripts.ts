@@ -0,0 +1,46 @@
+import { findVocalizedRuns } from '@/lib/tajweed/segments'
+
+// The script a stretch of text is written in, which picks its font:
+// vocalized Arabic (the Quranic examples) is set in the Uthmani font, Urdu
+// in Nastaliq and other Arabic in Naskh. Anything else keeps the font
+// around it.
+export type Script = 'quran' | 'urdu' | 'arabic' | 'other'
+
+export interface ScriptRun {
+  script: Script
+  text: string
+}
+
+const ARABIC_LETTER = '[\\u0600-\\u06FF\\u0750-\\u077F\\uFB50-\\uFDFF\\uFE70-\\uFEFF]'
+// From one Arabic-script character to the last before a Latin word or a
+// line break, so the spaces, digits and punctuation between words stay in
+// the run
+const ARABIC_RUN = new RegExp(`${ARABIC_LETTER}(?:[^A-Za-z\\n]*${ARABIC_LETTER})?`, 'g')
+// Letters Urdu has and Arabic does not: ٹ ڈ ڑ ں ھ ہ ۂ ۃ ی ے ۓ ک گ پ چ ژ
+const URDU_LETTER = /[ٹڈڑںھہۂۃیےۓکگپچژ]/
+
+function unvocalizedRuns(text: string): ScriptRun[] {
+  const runs: ScriptRun[] = []
+  let position = 0
+  for (const match of text.matchAll(ARABIC_RUN)) {
+    if (match.index > position) runs.push({ script: 'other', text: text.slice(position, match.index) })
+    runs.push({ script: URDU_LETTER.test(match[0]) ? 'urdu' : 'arabic', text: match[0] })
+    position = match.index + match[0].length
+  }
+  if (position < text.length) runs.push({ script: 'other', text: text.slice(position) })
+  return runs
+}
+
+// `text` split into runs of one script each, in order. A run is Urdu when
+// any of its words has a letter Arabic lacks, so Urdu words spelled like
+// Arabic ones (اور، من) stay with the sentence around them.
+export function scriptRuns(text: string): ScriptRun[] {
+  const runs: ScriptRun[] = []
+  let position = 0
+  for (const { start, end } of findVocalizedRuns(text)) {
+    runs.push(...unvocalizedRuns(text.slice(position, start)), { script: 'quran', text: text.slice(start, end) })
+    position = end
+  }
+  runs.push(...unvocalizedRuns(text.slice(position)))
+  return runs
+}
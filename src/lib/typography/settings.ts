@@ -0,0 +1,43 @@
+import { z } from 'zod'
+
+// How the reader sets lesson text, chosen by the learner and kept in this
+// browser's localStorage
+export const READING_SETTINGS_STORAGE_KEY = 'tajweed-reading-settings'
+
+export interface ReadingSettings {
+  // In rem
+  fontSize: number
+  lineHeight: number
+}
+
+export const FONT_SIZE_RANGE = { min: 0.875, max: 2, step: 0.125 }
+// Nastaliq climbs and descends far more than Naskh, so lines need room
+export const LINE_HEIGHT_RANGE = { min: 1.5, max: 3.5, step: 0.25 }
+
+export const DEFAULT_READING_SETTINGS: ReadingSettings = { fontSize: 1.125, lineHeight: 2.25 }
+
+const settingSchemas = {
+  fontSize: z.number().min(FONT_SIZE_RANGE.min).max(FONT_SIZE_RANGE.max),
+  lineHeight: z.number().min(LINE_HEIGHT_RANGE.min).max(LINE_HEIGHT_RANGE.max),
+}
+
+// Stored settings over the defaults; a value that does not parse (e.g. out
+// of a range since narrowed) falls back to its default
+export function parseReadingSettings(raw: string | null): ReadingSettings {
+  let stored: Record<string, unknown> | null = null
+  try {
+    stored = raw ? JSON.parse(raw) : null
+  } catch {}
+  const settings = { ...DEFAULT_READING_SETTINGS }
+  for (const key of Object.keys(settingSchemas) as (keyof ReadingSettings)[]) {
+    const parsed = settingSchemas[key].safeParse(stored?.[key])
+    if (parsed.success) settings[key] = parsed.data
+  }
+  return settings
+}
+
+// Text style for lesson text at `scale` of the chosen size, e.g. for notes
+export const readingStyle = ({ fontSize, lineHeight }: ReadingSettings, scale = 1) => ({
+  fontSize: `${fontSize * scale}rem`,
+  lineHeight,
+})
@@ -0,0 +1,20 @@
+import type { DefaultSession } from 'next-auth'
+import type { Role } from '@/lib/auth/roles'
+
+// The user id and role carried by the session (see `authOptions`)
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & { id: string; role: Role }
+  }
+
+  interface User {
+    role: Role
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    id: string
+    role: Role
+  }
+}